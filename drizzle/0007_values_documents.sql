@@ -0,0 +1,17 @@
+-- Generated VALUES.md history, replacing the in-memory cache in /api/generate-values
+
+CREATE TABLE values_documents (
+  document_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id VARCHAR NOT NULL,
+  template_id VARCHAR NOT NULL, -- TemplateBlueprint id or 'combinatorial-standard' etc.
+  generator_version VARCHAR NOT NULL,
+  response_set_hash VARCHAR NOT NULL, -- sha256 of the responses the document was generated from
+  response_count INT NOT NULL,
+  values_markdown TEXT NOT NULL,
+  values_json JSONB NOT NULL, -- values.json companion document
+  created_at TIMESTAMP DEFAULT now()
+);
+
+-- History lookups and cache hits are always per session
+CREATE INDEX idx_values_documents_session ON values_documents(session_id, created_at DESC);
+CREATE INDEX idx_values_documents_lookup ON values_documents(session_id, template_id, generator_version, response_set_hash);
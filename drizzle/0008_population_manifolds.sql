@@ -0,0 +1,14 @@
+-- Population manifolds fitted by LatentEthicalEngine on consented responses
+
+CREATE TABLE population_manifolds (
+  manifold_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manifold JSONB NOT NULL, -- EthicalManifold: motif loadings per dimension and population distribution
+  population_points JSONB NOT NULL, -- coordinates of each fitted session, without session IDs
+  session_count INT NOT NULL,
+  response_count INT NOT NULL,
+  dilemma_count INT NOT NULL,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+-- Positions are always estimated against the newest manifold
+CREATE INDEX idx_population_manifolds_created ON population_manifolds(created_at DESC);
@@ -0,0 +1,7 @@
+-- Batch costs accumulate per-response costs stored at 4 decimal places; 2 places rounded most runs to $0.00
+
+ALTER TABLE alignment_experiment_batches ALTER COLUMN estimated_cost_usd TYPE DECIMAL(10,4);
+ALTER TABLE alignment_experiment_batches ALTER COLUMN actual_cost_usd TYPE DECIMAL(10,4);
+
+CREATE INDEX idx_experiment_scenarios_batch ON experiment_test_scenarios(batch_id);
+CREATE INDEX idx_experiment_batches_created ON alignment_experiment_batches(created_at DESC);
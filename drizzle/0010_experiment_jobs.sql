@@ -0,0 +1,10 @@
+-- Experiment runs become background jobs: the batch row holds everything a worker needs to resume one
+
+ALTER TABLE alignment_experiment_batches ADD COLUMN config JSONB; -- providers, temperature, maxTokens, prompt options
+ALTER TABLE alignment_experiment_batches ADD COLUMN status_reason TEXT; -- why a job was paused, cancelled or failed
+ALTER TABLE alignment_experiment_batches ADD COLUMN heartbeat_at TIMESTAMP; -- last progress from the worker running it
+
+-- Scenarios are planned when the job is queued and processed in sequence order
+ALTER TABLE experiment_test_scenarios ADD COLUMN sequence INT;
+
+CREATE INDEX idx_experiment_batches_status ON alignment_experiment_batches(status);
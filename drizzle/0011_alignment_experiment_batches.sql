@@ -0,0 +1,6 @@
+-- VALUES.md A/B runs are experiment batches; each prediction row records the batch it belongs to and what it cost
+
+ALTER TABLE llm_alignment_experiments ADD COLUMN batch_id UUID REFERENCES alignment_experiment_batches(batch_id);
+ALTER TABLE llm_alignment_experiments ADD COLUMN cost_usd DECIMAL(8,4);
+
+CREATE INDEX idx_llm_alignment_experiments_batch ON llm_alignment_experiments(batch_id);
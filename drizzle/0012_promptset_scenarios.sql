@@ -0,0 +1,7 @@
+-- Framing variations from striated/promptsets.csv are stored as experiment_test_scenarios.
+-- Imported rows have no batch and form the library a framing-robustness batch copies from.
+
+ALTER TABLE experiment_test_scenarios ADD COLUMN promptset_id VARCHAR; -- PS001 etc., stable across re-imports
+ALTER TABLE experiment_test_scenarios ADD COLUMN framing JSONB; -- base scenario, subtype and framing attributes of the promptset
+
+CREATE INDEX idx_experiment_test_scenarios_promptset ON experiment_test_scenarios(promptset_id);
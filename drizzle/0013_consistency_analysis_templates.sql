@@ -0,0 +1,3 @@
+-- VALUES.md A/B batches store their per-template significance results alongside consistency analysis
+
+ALTER TABLE experiment_consistency_analysis ADD COLUMN template_type VARCHAR; -- values template compared with the baseline; NULL for consistency rows
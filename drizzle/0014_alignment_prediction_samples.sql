@@ -0,0 +1,3 @@
+-- A VALUES.md A/B prediction can be sampled several times; each sample is its own row
+
+ALTER TABLE llm_alignment_experiments ADD COLUMN sample_index INT NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- Generated dilemmas are reviewed before participants see them: draft → in_review → published → retired
+
+ALTER TABLE dilemmas ADD COLUMN status VARCHAR NOT NULL DEFAULT 'published'; -- existing and seeded dilemmas were curated, so they stay live
+ALTER TABLE dilemmas ADD COLUMN review_notes TEXT; -- why it was rejected or retired
+ALTER TABLE dilemmas ADD COLUMN reviewed_by VARCHAR; -- admin user id of the last review decision
+ALTER TABLE dilemmas ADD COLUMN reviewed_at TIMESTAMP;
+
+CREATE INDEX idx_dilemmas_status ON dilemmas(status);
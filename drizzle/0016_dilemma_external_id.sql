@@ -0,0 +1,5 @@
+-- Stable corpus ID (e.g. DM001 from striated/dilemmas.csv) so re-importing a file updates dilemmas instead of duplicating them
+
+ALTER TABLE dilemmas ADD COLUMN external_id VARCHAR;
+
+CREATE UNIQUE INDEX idx_dilemmas_external_id ON dilemmas(external_id);
@@ -0,0 +1,16 @@
+-- Per-dilemma item statistics computed from consented responses; the latest run replaces the previous row
+
+CREATE TABLE dilemma_quality (
+  dilemma_id UUID PRIMARY KEY REFERENCES dilemmas(dilemma_id) ON DELETE CASCADE,
+  responses INT NOT NULL,
+  option_shares JSONB NOT NULL, -- option letter -> share of responses, 0-1
+  entropy DECIMAL NOT NULL, -- bits
+  normalized_entropy DECIMAL NOT NULL, -- entropy / log2(real options), 0-1
+  dead_options JSONB NOT NULL, -- option letters chosen by under 2% of respondents
+  mean_response_time INT, -- milliseconds
+  mean_perceived_difficulty DECIMAL,
+  authored_difficulty INT,
+  discrimination DECIMAL, -- null with too few respondents who answered enough other dilemmas
+  flags JSONB NOT NULL, -- QualityFlag[]: reasons to rewrite the dilemma
+  computed_at TIMESTAMP DEFAULT now()
+);
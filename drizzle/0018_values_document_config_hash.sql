@@ -0,0 +1,6 @@
+-- Stored VALUES.md documents are reused only for the same generation config, not just the same responses
+
+ALTER TABLE values_documents ADD COLUMN config_hash VARCHAR NOT NULL DEFAULT '';
+
+DROP INDEX IF EXISTS idx_values_documents_lookup;
+CREATE INDEX idx_values_documents_lookup ON values_documents(session_id, template_id, generator_version, response_set_hash, config_hash);
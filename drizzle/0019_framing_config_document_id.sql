@@ -0,0 +1,5 @@
+-- Framing batches keep only the VALUES.md document id; copies of the text stayed behind when a session was erased
+
+UPDATE alignment_experiment_batches
+SET config = config - 'valuesMarkdown'
+WHERE experiment_type = 'framing_robustness';
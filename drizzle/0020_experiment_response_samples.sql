@@ -0,0 +1,3 @@
+-- Standard and framing runs can sample each scenario several times per provider and condition; each sample is its own row
+
+ALTER TABLE experiment_llm_responses ADD COLUMN sample_index INT NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- Generated dilemmas were staged with the generator's own 0-1 tension estimate, which the 1-10 review form rejects
+
+UPDATE dilemmas
+SET tension_strength = NULL
+WHERE status IN ('draft', 'in_review')
+  AND tension_strength < 1;
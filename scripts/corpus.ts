@@ -0,0 +1,88 @@
+#!/usr/bin/env tsx
+/**
+ * Dilemma Corpus Import/Export
+ *
+ * Usage:
+ *   npx tsx scripts/corpus.ts import <file.csv|file.jsonl> [--dry-run]
+ *   npx tsx scripts/corpus.ts export <dilemmas|motifs|frameworks> [--format jsonl] [--out path]
+ * Import accepts striated/dilemmas.csv (snake_case), new-dilemmas.csv
+ * (camelCase) or JSONL and upserts on each row's dilemma_id; with any invalid
+ * row nothing is written, and rows that would reword a published dilemma are
+ * refused. Export prints to stdout unless --out is given.
+ */
+
+import 'dotenv/config';
+import { readFileSync, writeFileSync } from 'fs';
+import {
+  CORPUS_FORMATS,
+  CORPUS_TABLES,
+  exportCorpus,
+  importCorpus,
+  type CorpusFormat,
+  type CorpusRowIssue,
+  type CorpusTable
+} from '../src/lib/dilemma-corpus';
+
+const option = (name: string) => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const printIssues = (label: string, issues: CorpusRowIssue[]) => issues.forEach(({ row, externalId, messages }) => {
+  console.log(`   ${label} row ${row}${externalId ? ` (${externalId})` : ''}: ${messages.join('; ')}`);
+});
+
+async function runImport(file: string | undefined) {
+  if (!file) throw new Error('Usage: corpus.ts import <file> [--dry-run]');
+  const format: CorpusFormat = /\.(jsonl|ndjson)$/i.test(file) ? 'jsonl' : 'csv';
+  const dryRun = process.argv.includes('--dry-run');
+
+  const report = await importCorpus(readFileSync(file, 'utf-8'), format, { dryRun });
+
+  const verb = report.applied ? '' : 'would be ';
+  console.log(
+    `${report.errors.length === 0 ? '✅' : '❌'} ${report.total} rows: ${report.inserted} ${verb}inserted, ${report.updated} ${verb}updated, ` +
+    `${report.unchanged} unchanged, ${report.refused.length} ${verb}refused, ${report.errors.length} invalid`
+  );
+  printIssues('❌', report.errors);
+  printIssues('🔒', report.refused);
+  printIssues('⚠️ ', report.warnings);
+  if (!dryRun && !report.applied) {
+    console.log('Nothing was written - fix the invalid rows and import again');
+    process.exit(1);
+  }
+}
+
+async function runExport(table: string | undefined) {
+  if (!CORPUS_TABLES.includes(table as CorpusTable)) {
+    throw new Error(`Usage: corpus.ts export <${CORPUS_TABLES.join('|')}> [--format jsonl] [--out path]`);
+  }
+  const format = (option('--format') || 'csv') as CorpusFormat;
+  if (!CORPUS_FORMATS.includes(format)) throw new Error(`Unknown format ${format}`);
+
+  const output = await exportCorpus(table as CorpusTable, format);
+  const out = option('--out');
+  if (out) {
+    writeFileSync(out, output);
+    console.log(`✅ Exported ${table} to ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function main() {
+  const [command, target] = process.argv.slice(2);
+  switch (command) {
+    case 'import':
+      return runImport(target);
+    case 'export':
+      return runExport(target);
+    default:
+      throw new Error('Usage: corpus.ts <import|export> ...');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Corpus command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+/**
+ * Experiment Worker
+ *
+ * Usage: npx tsx scripts/experiment-worker.ts [--once]
+ * Runs queued experiment batches, and running ones whose worker died, until
+ * stopped. Use it where requests can't outlive long runs (serverless);
+ * --once drains the queue and exits, for cron.
+ */
+
+import 'dotenv/config';
+import { processExperimentQueue } from '../src/lib/experiment-jobs';
+
+const POLL_INTERVAL_MS = 10_000;
+
+async function drain(): Promise<void> {
+  const outcomes = await processExperimentQueue();
+  for (const [batchId, outcome] of Object.entries(outcomes)) {
+    console.log(`   ${batchId}: ${outcome}`);
+  }
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  console.log(`🧪 Experiment worker started${once ? ' (single pass)' : ''}`);
+
+  await drain();
+  while (!once) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    await drain();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Worker failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+/**
+ * Population Manifold Fit
+ *
+ * Usage: npx tsx scripts/fit-population-manifold.ts
+ * Refits LatentEthicalEngine on all consented responses and stores the manifold;
+ * meant to be run on a schedule as data accumulates
+ */
+
+import 'dotenv/config';
+import { fitPopulationManifold } from '../src/lib/population-manifold';
+
+async function main() {
+  const summary = await fitPopulationManifold();
+
+  console.log(`✅ Manifold ${summary.manifoldId}`);
+  console.log(`   ${summary.sessionCount} sessions, ${summary.responseCount} responses, ${summary.dilemmaCount} dilemmas`);
+  summary.dimensions.forEach((d, i) => {
+    console.log(`   ${i + 1}. ${d.name} (${d.varianceExplained.toFixed(1)}% of variance)`);
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Fit failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+/**
+ * Coverage Batch Generation
+ *
+ * Usage: npx tsx scripts/generate-coverage-batch.ts [count] [domain,domain,...]
+ * Generates dilemmas for the least-covered motif pairs and domain × difficulty
+ * cells and stages them in the review queue (/admin/dilemmas). Prints the
+ * coverage before and after the batch.
+ */
+
+import 'dotenv/config';
+import { CoverageBatchRequestSchema, generateCoverageBatch, type CoverageReport } from '../src/lib/dilemma-coverage';
+
+function printCoverage(label: string, report: CoverageReport) {
+  console.log(`\n${label}: ${report.dilemmas} dilemmas, ${report.emptyMotifPairs}/${report.motifPairs.length} motif pairs and ${report.emptyDomainCells}/${report.domainDifficulty.length} domain cells empty`);
+  report.motifPairs.slice(0, 5).forEach(cell => console.log(`   ${cell.motifs.join(' × ')}: ${cell.count}`));
+  report.domainDifficulty.slice(0, 5).forEach(cell => console.log(`   ${cell.domain} (${cell.band}): ${cell.count}`));
+}
+
+async function main() {
+  const request = CoverageBatchRequestSchema.parse({
+    count: process.argv[2] ? parseInt(process.argv[2], 10) : undefined,
+    domains: process.argv[3]?.split(',')
+  });
+  const result = await generateCoverageBatch(request);
+
+  printCoverage('Before', result.before);
+  console.log(`\n✅ ${result.staged.length} candidates staged for review`);
+  result.staged.forEach(({ title, target }) => {
+    console.log(`   ${title} - ${target.motifs.join(' × ')}, ${target.domain} (${target.band})`);
+  });
+  result.duplicates.forEach(({ title, duplicateOf }) => console.log(`   ⚠️  ${title} dropped: duplicates "${duplicateOf}"`));
+  result.failed.forEach(({ target, error }) => console.log(`   ❌ ${target.motifs.join(' × ')} in ${target.domain} failed: ${error}`));
+  printCoverage('After', result.after);
+}
+
+main().catch(error => {
+  console.error('❌ Coverage batch failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
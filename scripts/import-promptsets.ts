@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+/**
+ * Promptset Import
+ *
+ * Usage: npx tsx scripts/import-promptsets.ts [path/to/promptsets.csv]
+ * Loads the framing variations in striated/promptsets.csv into
+ * experiment_test_scenarios for framing-robustness experiments. Safe to
+ * re-run: rows are matched on promptset id and updated in place.
+ */
+
+import 'dotenv/config';
+import { importPromptsetsFile } from '../src/lib/framing-robustness-experiment';
+
+async function main() {
+  const report = await importPromptsetsFile(process.argv[2]);
+
+  console.log(`✅ ${report.inserted} promptsets imported, ${report.updated} updated`);
+  report.skipped.forEach(({ promptsetId, reason }) => {
+    console.log(`   ⚠️  ${promptsetId} skipped: ${reason}`);
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
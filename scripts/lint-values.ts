@@ -0,0 +1,43 @@
+#!/usr/bin/env tsx
+/**
+ * VALUES.md Linter
+ *
+ * Usage: npx tsx scripts/lint-values.ts <file...> [--json]
+ * Exits non-zero when any file has lint errors
+ */
+
+import fs from 'fs';
+import { lintValuesMarkdown, loadStriatedMotifIds } from '../src/lib/values-markdown-parser';
+
+function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const files = args.filter(arg => !arg.startsWith('--'));
+
+  if (files.length === 0) {
+    console.error('Usage: npx tsx scripts/lint-values.ts <file...> [--json]');
+    process.exit(2);
+  }
+
+  const knownMotifIds = loadStriatedMotifIds();
+  const results = files.map(file => ({
+    file,
+    ...lintValuesMarkdown(fs.readFileSync(file, 'utf-8'), { knownMotifIds })
+  }));
+
+  if (asJson) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    for (const result of results) {
+      console.log(`${result.valid ? '✅' : '❌'} ${result.file} (${result.format || 'unknown format'})`);
+      for (const issue of result.issues) {
+        const location = issue.line ? `:${issue.line}` : '';
+        console.log(`   ${issue.severity === 'error' ? 'error' : 'warn '} ${result.file}${location} [${issue.code}] ${issue.message}`);
+      }
+    }
+  }
+
+  process.exit(results.every(r => r.valid) ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+/**
+ * Missing Motif Report
+ *
+ * Usage: npx tsx scripts/report-missing-motifs.ts
+ * One-off migration report: lists motif IDs that existing dilemmas reference
+ * (in a choice or in target_motifs) but that aren't in the motifs table, with
+ * the ontology motif each would remap to where one is known. Read-only.
+ */
+
+import 'dotenv/config';
+import { findMissingMotifReferences } from '../src/lib/motif-ontology';
+
+async function main() {
+  const missing = await findMissingMotifReferences();
+
+  if (missing.length === 0) {
+    console.log('✅ Every motif referenced by a dilemma is in the motifs table');
+    return;
+  }
+
+  console.log(`⚠️  ${missing.length} motif IDs referenced by dilemmas are missing from the motifs table:`);
+  missing.forEach(({ motifId, dilemmas, suggestion }) => {
+    console.log(`   ${motifId}: ${dilemmas} dilemmas${suggestion ? ` - remap to ${suggestion}` : ' - no ontology equivalent'}`);
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Report failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+/**
+ * Dilemma Quality Scoring
+ *
+ * Usage: npx tsx scripts/score-dilemma-quality.ts
+ * Recomputes option entropy, dead options, response time, perceived difficulty
+ * and discrimination for every dilemma with enough consented responses, and
+ * writes discrimination back to the dilemmas table as validationScore.
+ */
+
+import 'dotenv/config';
+import { MIN_QUALITY_RESPONSES, scoreDilemmaQuality } from '../src/lib/dilemma-quality';
+
+async function main() {
+  const { scored, flagged, skipped } = await scoreDilemmaQuality();
+
+  console.log(`✅ Scored ${scored} dilemmas, ${flagged} flagged for rewriting`);
+  if (skipped > 0) {
+    console.log(`   ${skipped} dilemmas skipped with fewer than ${MIN_QUALITY_RESPONSES} consented responses`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Scoring failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -96,6 +96,7 @@ async function seedDilemmas() {
     
     await db.insert(dilemmas).values({
       dilemmaId: randomUUID(), // Generate new UUID instead of using CSV ID
+      externalId: row.dilemma_id, // Keep the CSV ID so corpus imports can update the row
       domain: row.domain,
       generatorType: row.generator_type,
       difficulty: row.difficulty ? parseInt(row.difficulty) : null,
@@ -0,0 +1,408 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, XCircle, Archive, RotateCcw, Save, Send, Sparkles } from 'lucide-react';
+import { AdminProtection } from '@/components/admin-protection';
+import { AdminErrorBoundary } from '@/components/error-boundary';
+import type { Dilemma } from '@/lib/schema';
+import type { DilemmaReview, DilemmaStatus, ReviewAction } from '@/lib/dilemma-review';
+import type { CoverageBatchResult, CoverageReport } from '@/lib/dilemma-coverage';
+
+const STATUS_TABS: { status: DilemmaStatus; label: string }[] = [
+  { status: 'in_review', label: 'In review' },
+  { status: 'draft', label: 'Drafts' },
+  { status: 'published', label: 'Published' },
+  { status: 'retired', label: 'Retired' }
+];
+
+const CHOICES = ['A', 'B', 'C', 'D'] as const;
+
+type EditableField = keyof NonNullable<DilemmaReview['edits']>;
+
+interface ReviewForm {
+  edits: Partial<Record<EditableField, string>>;
+  realismScore: string;
+  tensionStrength: string;
+  notes: string;
+}
+
+const formFor = (dilemma: Dilemma): ReviewForm => ({
+  edits: {},
+  realismScore: dilemma.realismScore ?? '',
+  tensionStrength: dilemma.tensionStrength ?? '',
+  notes: dilemma.reviewNotes ?? ''
+});
+
+function DilemmaReviewContent() {
+  const [status, setStatus] = useState<DilemmaStatus>('in_review');
+  const [queue, setQueue] = useState<Dilemma[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<DilemmaStatus, number>>>({});
+  const [selected, setSelected] = useState<Dilemma | null>(null);
+  const [form, setForm] = useState<ReviewForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [coverage, setCoverage] = useState<CoverageReport | null>(null);
+  const [batchCount, setBatchCount] = useState(5);
+  const [batchResult, setBatchResult] = useState<CoverageBatchResult | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const loadQueue = useCallback(async (forStatus: DilemmaStatus) => {
+    try {
+      const response = await fetch(`/api/admin/dilemmas?status=${forStatus}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load dilemmas: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setQueue(data.dilemmas);
+      setCounts(data.counts);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  const loadCoverage = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/dilemmas/gaps');
+      if (!response.ok) {
+        throw new Error(`Failed to load coverage: ${response.statusText}`);
+      }
+      setCoverage((await response.json()).report);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCoverage();
+  }, [loadCoverage]);
+
+  useEffect(() => {
+    setSelected(null);
+    setForm(null);
+    loadQueue(status);
+  }, [status, loadQueue]);
+
+  const select = (dilemma: Dilemma) => {
+    setError('');
+    setSelected(dilemma);
+    setForm(formFor(dilemma));
+  };
+
+  const editable = selected?.status === 'draft' || selected?.status === 'in_review';
+
+  const fieldValue = (field: EditableField): string => {
+    const edited = form?.edits[field];
+    if (edited !== undefined) return edited;
+    const current = selected?.[field];
+    return current === null || current === undefined ? '' : String(current);
+  };
+
+  const setField = (field: EditableField, value: string) => {
+    if (!form) return;
+    setForm({ ...form, edits: { ...form.edits, [field]: value } });
+  };
+
+  const submitReview = async (action?: ReviewAction) => {
+    if (!selected || !form) return;
+
+    const edits = Object.fromEntries(
+      Object.entries(form.edits).map(([field, value]) => [field, field === 'difficulty' ? parseInt(value || '', 10) : value])
+    ) as DilemmaReview['edits'];
+    const review: DilemmaReview = {
+      action,
+      edits: editable && Object.keys(form.edits).length > 0 ? edits : undefined,
+      realismScore: form.realismScore ? parseFloat(form.realismScore) : undefined,
+      tensionStrength: form.tensionStrength ? parseFloat(form.tensionStrength) : undefined,
+      notes: form.notes || undefined
+    };
+
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/dilemmas/${selected.dilemmaId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(review)
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || `Review failed: ${response.statusText}`);
+      }
+
+      await loadQueue(status);
+      if (data.dilemma.status === status) {
+        select(data.dilemma);
+      } else {
+        setSelected(null);
+        setForm(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generateCoverageBatch = async () => {
+    setGenerating(true);
+    setError('');
+    setBatchResult(null);
+    try {
+      const response = await fetch('/api/admin/dilemmas/gaps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ count: batchCount })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Coverage batch failed: ${response.statusText}`);
+      }
+
+      setBatchResult(data);
+      setCoverage(data.after);
+      await loadQueue(status);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Dilemma Review</h1>
+          <p className="text-muted-foreground">
+            Generated dilemmas wait here until approved; only published dilemmas are shown to participants.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Coverage gaps</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {coverage && (
+              <p className="text-sm text-muted-foreground">
+                {coverage.dilemmas} published or queued dilemmas; {coverage.emptyMotifPairs} of {coverage.motifPairs.length} conflicting
+                motif pairs and {coverage.emptyDomainCells} of {coverage.domainDifficulty.length} domain × difficulty cells have none.
+              </p>
+            )}
+            {coverage && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <h4 className="font-medium mb-1">Least-covered motif pairs</h4>
+                  {coverage.motifPairs.slice(0, 5).map(cell => (
+                    <p key={cell.motifs.join('|')}>{cell.motifs.join(' × ')}: {cell.count}</p>
+                  ))}
+                </div>
+                <div>
+                  <h4 className="font-medium mb-1">Least-covered domains</h4>
+                  {coverage.domainDifficulty.slice(0, 5).map(cell => (
+                    <p key={`${cell.domain}|${cell.band}`}>{cell.domain} ({cell.band} difficulty): {cell.count}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="batchCount">Candidates</Label>
+                <Input id="batchCount" type="number" min={1} max={20} className="w-24" value={batchCount} onChange={e => setBatchCount(parseInt(e.target.value) || 1)} />
+              </div>
+              <Button disabled={generating} onClick={generateCoverageBatch}>
+                <Sparkles className="h-4 w-4 mr-2" />
+                {generating ? 'Generating...' : 'Generate for gaps'}
+              </Button>
+            </div>
+            {batchResult && (
+              <div className="text-sm space-y-1">
+                <p>
+                  {batchResult.staged.length} staged for review, {batchResult.offTarget.length} dropped for missing the target motifs,
+                  {' '}{batchResult.duplicates.length} dropped as duplicates, {batchResult.failed.length} failed.
+                  Empty motif pairs {batchResult.before.emptyMotifPairs} → {batchResult.after.emptyMotifPairs};
+                  empty domain cells {batchResult.before.emptyDomainCells} → {batchResult.after.emptyDomainCells}.
+                </p>
+                {batchResult.offTarget.map(candidate => (
+                  <p key={candidate.title} className="text-muted-foreground">
+                    {candidate.title} has {candidate.motifs.join(', ') || 'no motifs'}, not {candidate.target.motifs.join(' and ')}
+                  </p>
+                ))}
+                {batchResult.duplicates.map(duplicate => (
+                  <p key={duplicate.title} className="text-muted-foreground">{duplicate.title} duplicates &quot;{duplicate.duplicateOf}&quot;</p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_TABS.map(tab => (
+            <Button
+              key={tab.status}
+              variant={status === tab.status ? 'default' : 'outline'}
+              onClick={() => setStatus(tab.status)}
+            >
+              {tab.label}
+              <Badge variant="secondary" className="ml-2">{counts[tab.status] ?? 0}</Badge>
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <p className="text-destructive">{error}</p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="text-lg">Queue</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {queue.length === 0 && (
+                <p className="text-sm text-muted-foreground">No dilemmas in this status.</p>
+              )}
+              {queue.map(dilemma => (
+                <button
+                  key={dilemma.dilemmaId}
+                  onClick={() => select(dilemma)}
+                  className={`w-full text-left p-3 rounded border transition-colors hover:bg-accent ${
+                    selected?.dilemmaId === dilemma.dilemmaId ? 'border-primary bg-accent' : ''
+                  }`}
+                >
+                  <p className="font-medium">{dilemma.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {dilemma.domain || 'no domain'} · difficulty {dilemma.difficulty ?? '-'} · {dilemma.generatorType || 'unknown source'}
+                  </p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && form && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg">{editable ? 'Edit and review' : 'Review'}</CardTitle>
+                {!editable && (
+                  <p className="text-sm text-muted-foreground">
+                    Published and retired dilemmas can&apos;t be edited - restore a retired dilemma to review it again.
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="title">Title</Label>
+                  <Input id="title" value={fieldValue('title')} disabled={!editable} onChange={e => setField('title', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scenario">Scenario</Label>
+                  <Textarea id="scenario" rows={6} value={fieldValue('scenario')} disabled={!editable} onChange={e => setField('scenario', e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="domain">Domain</Label>
+                    <Input id="domain" value={fieldValue('domain')} disabled={!editable} onChange={e => setField('domain', e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="difficulty">Difficulty (1-10)</Label>
+                    <Input id="difficulty" type="number" min={1} max={10} value={fieldValue('difficulty')} disabled={!editable} onChange={e => setField('difficulty', e.target.value)} />
+                  </div>
+                </div>
+
+                {CHOICES.map(letter => {
+                  const text = `choice${letter}` as EditableField;
+                  const motif = `choice${letter}Motif` as EditableField;
+                  return (
+                    <div key={letter} className="grid grid-cols-4 gap-2">
+                      <div className="col-span-3 space-y-1">
+                        <Label htmlFor={text}>Choice {letter}</Label>
+                        <Textarea id={text} rows={2} value={fieldValue(text)} disabled={!editable} onChange={e => setField(text, e.target.value)} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={motif}>Motif</Label>
+                        <Input id={motif} value={fieldValue(motif)} disabled={!editable} onChange={e => setField(motif, e.target.value)} />
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="realism">Realism (1-10)</Label>
+                    <Input id="realism" type="number" min={1} max={10} step={0.5} value={form.realismScore} onChange={e => setForm({ ...form, realismScore: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tension">Tension (1-10)</Label>
+                    <Input id="tension" type="number" min={1} max={10} step={0.5} value={form.tensionStrength} onChange={e => setForm({ ...form, tensionStrength: e.target.value })} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Review notes</Label>
+                  <Textarea id="notes" rows={3} value={form.notes} placeholder="Required when rejecting" onChange={e => setForm({ ...form, notes: e.target.value })} />
+                </div>
+                {selected.reviewedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Last reviewed {new Date(selected.reviewedAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" disabled={saving} onClick={() => submitReview()}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                  {selected.status === 'draft' && (
+                    <Button disabled={saving} onClick={() => submitReview('submit')}>
+                      <Send className="h-4 w-4 mr-2" />
+                      Submit for review
+                    </Button>
+                  )}
+                  {selected.status === 'in_review' && (
+                    <>
+                      <Button disabled={saving} onClick={() => submitReview('approve')}>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                      <Button variant="destructive" disabled={saving} onClick={() => submitReview('reject')}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                  {selected.status === 'published' && (
+                    <Button variant="destructive" disabled={saving} onClick={() => submitReview('retire')}>
+                      <Archive className="h-4 w-4 mr-2" />
+                      Retire
+                    </Button>
+                  )}
+                  {selected.status === 'retired' && (
+                    <Button disabled={saving} onClick={() => submitReview('restore')}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore for review
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function DilemmaReviewPage() {
+  return (
+    <AdminProtection>
+      <AdminErrorBoundary>
+        <DilemmaReviewContent />
+      </AdminErrorBoundary>
+    </AdminProtection>
+  );
+}
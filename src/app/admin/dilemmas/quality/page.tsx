@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw } from 'lucide-react';
+import { AdminProtection } from '@/components/admin-protection';
+import { AdminErrorBoundary } from '@/components/error-boundary';
+import type { DilemmaQualityRow, QualityFlag, QualityRunSummary } from '@/lib/dilemma-quality';
+
+const FLAG_LABELS: Record<QualityFlag, string> = {
+  dead_options: 'Dead options',
+  low_entropy: 'One-sided',
+  difficulty_mismatch: 'Difficulty mismatch',
+  low_discrimination: 'Low discrimination'
+};
+
+const formatNumber = (value: string | number | null, places: number = 2) =>
+  value === null ? '-' : Number(value).toFixed(places);
+
+function DilemmaQualityContent() {
+  const [rows, setRows] = useState<DilemmaQualityRow[]>([]);
+  const [summary, setSummary] = useState<QualityRunSummary | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const [scoring, setScoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadQuality = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/dilemmas/quality');
+      if (!response.ok) {
+        throw new Error(`Failed to load dilemma quality: ${response.statusText}`);
+      }
+      setRows((await response.json()).dilemmas);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQuality();
+  }, [loadQuality]);
+
+  const rescore = async () => {
+    setScoring(true);
+    setError('');
+    try {
+      const response = await fetch('/api/admin/dilemmas/quality', { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Scoring failed: ${response.statusText}`);
+      }
+
+      setSummary(data);
+      await loadQuality();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const flagsOf = (row: DilemmaQualityRow) => row.quality.flags as QualityFlag[];
+  const shown = flaggedOnly ? rows.filter(row => flagsOf(row).length > 0) : rows;
+  const computedAt = rows.length > 0 ? rows[0].quality.computedAt : null;
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Dilemma Quality</h1>
+          <p className="text-muted-foreground">
+            Item statistics from consented responses. Flagged dilemmas are candidates to rewrite in <Link href="/admin/dilemmas" className="underline">Dilemma Review</Link>.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button disabled={scoring} onClick={rescore}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${scoring ? 'animate-spin' : ''}`} />
+            {scoring ? 'Scoring...' : 'Rescore'}
+          </Button>
+          <Button variant={flaggedOnly ? 'default' : 'outline'} onClick={() => setFlaggedOnly(!flaggedOnly)}>
+            Flagged only
+            <Badge variant="secondary" className="ml-2">{rows.filter(row => flagsOf(row).length > 0).length}</Badge>
+          </Button>
+          {computedAt && (
+            <p className="text-xs text-muted-foreground">Last scored {new Date(computedAt).toLocaleString()}</p>
+          )}
+        </div>
+
+        {summary && (
+          <p className="text-sm">
+            Scored {summary.scored} dilemmas, {summary.flagged} flagged; {summary.skipped} skipped for too few responses.
+          </p>
+        )}
+
+        {error && (
+          <p className="text-destructive">{error}</p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Dilemmas</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {shown.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {rows.length === 0 ? 'No dilemmas scored yet - rescore once responses come in.' : 'No flagged dilemmas.'}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-4">Dilemma</th>
+                    <th className="py-2 pr-4">Responses</th>
+                    <th className="py-2 pr-4">Option shares</th>
+                    <th className="py-2 pr-4">Entropy</th>
+                    <th className="py-2 pr-4">Mean time</th>
+                    <th className="py-2 pr-4">Difficulty (felt / authored)</th>
+                    <th className="py-2 pr-4">Discrimination</th>
+                    <th className="py-2">Flags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map(({ dilemmaId, title, status, quality }) => {
+                    const shares = quality.optionShares as Record<string, number>;
+                    const deadOptions = quality.deadOptions as string[];
+                    return (
+                      <tr key={dilemmaId} className="border-b align-top">
+                        <td className="py-2 pr-4">
+                          <p className="font-medium">{title}</p>
+                          <p className="text-xs text-muted-foreground">{status}</p>
+                        </td>
+                        <td className="py-2 pr-4">{quality.responses}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {Object.entries(shares).map(([option, share]) => (
+                            <span key={option} className={`mr-2 ${deadOptions.includes(option) ? 'text-destructive' : ''}`}>
+                              {option.toUpperCase()} {Math.round(share * 100)}%
+                            </span>
+                          ))}
+                        </td>
+                        <td className="py-2 pr-4">{formatNumber(quality.normalizedEntropy)}</td>
+                        <td className="py-2 pr-4">{quality.meanResponseTime === null ? '-' : `${(quality.meanResponseTime / 1000).toFixed(1)}s`}</td>
+                        <td className="py-2 pr-4">{formatNumber(quality.meanPerceivedDifficulty, 1)} / {quality.authoredDifficulty ?? '-'}</td>
+                        <td className="py-2 pr-4">{formatNumber(quality.discrimination)}</td>
+                        <td className="py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {(quality.flags as QualityFlag[]).map(flag => (
+                              <Badge key={flag} variant="destructive">{FLAG_LABELS[flag]}</Badge>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function DilemmaQualityPage() {
+  return (
+    <AdminProtection>
+      <AdminErrorBoundary>
+        <DilemmaQualityContent />
+      </AdminErrorBoundary>
+    </AdminProtection>
+  );
+}
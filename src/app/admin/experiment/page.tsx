@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,6 +26,11 @@ import {
 } from 'lucide-react';
 import { AdminProtection } from '@/components/admin-protection';
 import { AdminErrorBoundary } from '@/components/error-boundary';
+import { getTemplateMetadata } from '@/lib/values-templates';
+import type { TemplateAccuracy } from '@/lib/values-alignment-experiment';
+import type { FramingDimension, FramingFlipRate } from '@/lib/framing-robustness-experiment';
+import type { CostEstimate } from '@/lib/experiment-budget';
+import type { ChoiceDistribution } from '@/lib/experiment-statistics';
 
 interface LLMResponse {
   provider: string;
@@ -42,12 +47,15 @@ interface LLMResponse {
 }
 
 interface ExperimentResult {
+  scenarioId: string;
   dilemmaId: string;
   dilemmaTitle: string;
   dilemmaScenario: string;
   responses: LLMResponse[];
   analysis: {
     consensusChoice?: string;
+    invalidCount: number;
+    sampling: Record<string, ChoiceDistribution>;
     reasoningPatterns: string[];
     ethicalFrameworks: Record<string, number>;
     confidenceStats: {
@@ -75,6 +83,8 @@ interface ExperimentConfig {
   maxTokens: number;
   includeValuesContext: boolean;
   customInstructions: string;
+  maxSpendUsd: number | null;
+  samplesPerPrediction: number;
 }
 
 const DEFAULT_CONFIG: ExperimentConfig = {
@@ -83,27 +93,210 @@ const DEFAULT_CONFIG: ExperimentConfig = {
   temperature: 0.7,
   maxTokens: 500,
   includeValuesContext: false,
-  customInstructions: ''
+  customInstructions: '',
+  maxSpendUsd: null,
+  samplesPerPrediction: 1
 };
 
-const PROVIDER_STATUS = {
-  'openai-gpt4': { name: 'OpenAI GPT-4', color: 'bg-green-500', status: 'active' },
-  'openai-gpt35': { name: 'OpenAI GPT-3.5', color: 'bg-blue-500', status: 'active' },
-  'anthropic-claude': { name: 'Anthropic Claude', color: 'bg-purple-500', status: 'active' },
-  'google-gemini': { name: 'Google Gemini', color: 'bg-yellow-500', status: 'active' }
+interface AlignmentConfig {
+  templates: string[];
+  sessionCount: number;
+  holdoutCount: number;
+}
+
+const VALUES_TEMPLATES = getTemplateMetadata();
+
+const DEFAULT_ALIGNMENT_CONFIG: AlignmentConfig = {
+  templates: ['enhanced', 'minimalist'],
+  sessionCount: 10,
+  holdoutCount: 3
 };
 
+const formatPValue = (p: number) => p < 0.001 ? '<0.001' : p.toFixed(3);
+
+const formatKappa = (kappa: number | null) => kappa === null ? '–' : kappa.toFixed(2);
+
+interface ProviderOption {
+  id: string;
+  name: string;
+  modelName: string;
+}
+
+interface AvailableProviders {
+  hosted: ProviderOption[];
+  local: {
+    configured: boolean;
+    baseUrl: string | null;
+    models: ProviderOption[];
+    error: string | null;
+  };
+}
+
+interface StoredBatch {
+  batchId: string;
+  experimentType: string;
+  description: string | null;
+  llmProviders: string[] | null;
+  status: string | null;
+  progressPercent: number | null;
+  estimatedCostUsd: string | null;
+  actualCostUsd: string | null;
+  createdAt: string | null;
+  consistency: {
+    llmProvider: string | null;
+    templateType: string | null;
+    consistencyPercentage: string | null;
+    improvementDelta: string | null;
+    statisticalSignificance: string | null;
+    sampleSize: number | null;
+  }[];
+}
+
 function ExperimentPageContent() {
   const [config, setConfig] = useState<ExperimentConfig>(DEFAULT_CONFIG);
   const [isRunning, setIsRunning] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  // Marked running but its worker stopped reporting - it only continues if resumed
+  const [isStale, setIsStale] = useState(false);
+  const [statusReason, setStatusReason] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<{ label: string; cost: CostEstimate } | null>(null);
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<ExperimentResult[]>([]);
   const [currentDilemma, setCurrentDilemma] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [apiKeyStatus, setApiKeyStatus] = useState<Record<string, boolean>>({});
   const [totalCost, setTotalCost] = useState(0);
-  const [totalTime, setTotalTime] = useState(0);
+  const [availableProviders, setAvailableProviders] = useState<AvailableProviders | null>(null);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batches, setBatches] = useState<StoredBatch[]>([]);
+  const [alignmentConfig, setAlignmentConfig] = useState<AlignmentConfig>(DEFAULT_ALIGNMENT_CONFIG);
+  const [alignmentSummary, setAlignmentSummary] = useState<{ batchId: string; rows: TemplateAccuracy[] } | null>(null);
+  // Blank uses the most recently generated VALUES.md
+  const [framingValuesDocumentId, setFramingValuesDocumentId] = useState('');
+  const [framingSummary, setFramingSummary] = useState<{ batchId: string; rows: FramingFlipRate[] } | null>(null);
+  const [framingDimension, setFramingDimension] = useState<FramingDimension>('variation_type');
+
+  const totalTime = results.reduce((sum, result) => sum + result.analysis.responseTimeStats.mean, 0);
+
+  const loadBatches = async (): Promise<StoredBatch[]> => {
+    try {
+      const response = await fetch('/api/admin/experiment/batches');
+      if (response.ok) {
+        const data = await response.json();
+        setBatches(data.batches);
+        return data.batches;
+      }
+    } catch (error) {
+      console.error('Failed to load experiment batches:', error);
+    }
+    return [];
+  };
+
+  const loadProviders = async () => {
+    try {
+      const response = await fetch('/api/admin/experiment/providers');
+      if (response.ok) {
+        setAvailableProviders(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load providers:', error);
+    }
+  };
+
+  // Follow a job's progress; each connection replays the results so far, so this also reattaches after a refresh
+  const attachToBatch = useCallback(async (id: string) => {
+    setBatchId(id);
+    setIsRunning(true);
+    setError('');
+
+    try {
+      let reconnect = true;
+      while (reconnect) {
+        reconnect = false;
+
+        const response = await fetch(`/api/admin/experiment/${id}/stream`);
+        if (!response.ok) {
+          throw new Error(`Failed to follow experiment: ${response.statusText}`);
+        }
+
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
+
+        if (!reader) {
+          throw new Error('No response stream available');
+        }
+
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (line.trim().startsWith('data: ')) {
+              try {
+                const data = JSON.parse(line.slice(6));
+
+                if (data.type === 'progress') {
+                  setProgress(data.progress);
+                  setIsPaused(data.status === 'paused');
+                  setStatusReason(data.statusReason);
+                  setTotalCost(data.actualCostUsd);
+                  setIsStale(data.stale);
+                } else if (data.type === 'result') {
+                  // A scenario is re-sent as more of its responses arrive - the latest copy replaces the partial one
+                  setResults(prev => prev.some(r => r.scenarioId === data.result.scenarioId)
+                    ? prev.map(r => r.scenarioId === data.result.scenarioId ? data.result : r)
+                    : [...prev, data.result]);
+                } else if (data.type === 'error') {
+                  setError(data.error);
+                } else if (data.type === 'reconnect') {
+                  reconnect = true;
+                } else if (data.type === 'complete') {
+                  setIsRunning(false);
+                  setIsPaused(false);
+                  setCurrentDilemma('');
+                  if (data.status !== 'complete' && data.statusReason) {
+                    setError(`Experiment ${data.status}: ${data.statusReason}`);
+                  }
+                  loadBatches();
+                }
+              } catch (e) {
+                console.error('Error parsing SSE data:', e);
+              }
+            }
+          }
+        }
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setIsRunning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProviders();
+    loadBatches().then(stored => {
+      const active = stored.find(batch => ['queued', 'running', 'paused'].includes(batch.status || ''));
+      if (active) {
+        attachToBatch(active.batchId);
+      }
+    });
+  }, [attachToBatch]);
+
+  const toggleProvider = (provider: string) => {
+    setConfig(prev => ({
+      ...prev,
+      providers: prev.providers.includes(provider)
+        ? prev.providers.filter(p => p !== provider)
+        : [...prev.providers, provider]
+    }));
+  };
 
   const validateApiKeys = async () => {
     try {
@@ -124,13 +317,12 @@ function ExperimentPageContent() {
   const runExperiment = async () => {
     if (isRunning) return;
     
-    setIsRunning(true);
     setIsPaused(false);
     setError('');
     setResults([]);
     setProgress(0);
     setTotalCost(0);
-    setTotalTime(0);
+    setBatchId(null);
 
     try {
       const response = await fetch('/api/admin/experiment/run', {
@@ -140,73 +332,198 @@ function ExperimentPageContent() {
       });
 
       if (!response.ok) {
-        throw new Error(`Experiment failed: ${response.statusText}`);
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Experiment failed: ${response.statusText}`);
+      }
+
+      const { batchId: queuedBatchId } = await response.json();
+      loadBatches();
+      await attachToBatch(queuedBatchId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setIsRunning(false);
+    }
+  };
+
+  const alignmentRequest = () => ({
+    ...alignmentConfig,
+    providers: config.providers,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    maxSpendUsd: config.maxSpendUsd,
+    samplesPerPrediction: config.samplesPerPrediction
+  });
+
+  const framingRequest = () => ({
+    providers: config.providers,
+    maxTokens: config.maxTokens,
+    maxSpendUsd: config.maxSpendUsd,
+    samplesPerPrediction: config.samplesPerPrediction,
+    // Framings are asked at temperature 0 unless they are sampled
+    ...(config.samplesPerPrediction > 1 ? { temperature: config.temperature } : {}),
+    valuesDocumentId: framingValuesDocumentId.trim()
+  });
+
+  // Pre-flight cost of the configured run, from prompt token counts and provider pricing
+  const estimateCost = async (kind: 'experiment' | 'alignment' | 'framing') => {
+    setError('');
+    try {
+      const response = await fetch('/api/admin/experiment/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          kind === 'alignment' ? { experimentType: 'values_alignment_ab', ...alignmentRequest() }
+            : kind === 'framing' ? { experimentType: 'framing_robustness', ...framingRequest() }
+            : config
+        )
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to estimate cost: ${response.statusText}`);
+      }
+      const labels = { experiment: 'Experiment', alignment: 'VALUES.md A/B experiment', framing: 'Framing robustness experiment' };
+      setEstimate({ label: labels[kind], cost: data.estimate });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const startAlignmentExperiment = async () => {
+    if (isRunning) return;
+
+    setIsPaused(false);
+    setError('');
+    setResults([]);
+    setProgress(0);
+    setTotalCost(0);
+    setBatchId(null);
+    setAlignmentSummary(null);
+
+    try {
+      const response = await fetch('/api/admin/experiment/alignment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(alignmentRequest())
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Alignment experiment failed: ${response.statusText}`);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const { batchId: queuedBatchId } = await response.json();
+      loadBatches();
+      await attachToBatch(queuedBatchId);
+      await loadAlignmentSummary(queuedBatchId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setIsRunning(false);
+    }
+  };
 
-      if (!reader) {
-        throw new Error('No response stream available');
+  const loadAlignmentSummary = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/experiment/alignment?batchId=${id}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load alignment results: ${response.statusText}`);
       }
+      const data = await response.json();
+      setAlignmentSummary({ batchId: id, rows: data.summary });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
 
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.trim().startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'progress') {
-                setProgress(data.progress);
-                setCurrentDilemma(data.currentDilemma);
-              } else if (data.type === 'result') {
-                setResults(prev => [...prev, data.result]);
-                setTotalCost(prev => prev + data.result.analysis.costAnalysis.total);
-                setTotalTime(prev => prev + data.result.analysis.responseTimeStats.mean);
-              } else if (data.type === 'error') {
-                setError(data.error);
-                setIsRunning(false);
-                return;
-              } else if (data.type === 'complete') {
-                setIsRunning(false);
-                setProgress(100);
-                setCurrentDilemma('');
-              }
-            } catch (e) {
-              console.error('Error parsing SSE data:', e);
-            }
-          }
-        }
+  const startFramingExperiment = async () => {
+    if (isRunning) return;
+
+    setIsPaused(false);
+    setError('');
+    setResults([]);
+    setProgress(0);
+    setTotalCost(0);
+    setBatchId(null);
+    setFramingSummary(null);
+
+    try {
+      const response = await fetch('/api/admin/experiment/framing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(framingRequest())
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Framing experiment failed: ${response.statusText}`);
       }
+
+      const { batchId: queuedBatchId } = await response.json();
+      loadBatches();
+      await attachToBatch(queuedBatchId);
+      await loadFramingSummary(queuedBatchId);
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Unknown error');
       setIsRunning(false);
     }
   };
 
-  const pauseExperiment = () => {
-    setIsPaused(!isPaused);
+  const loadFramingSummary = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/experiment/framing?batchId=${id}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load framing results: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setFramingSummary({ batchId: id, rows: data.summary });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const toggleAlignmentTemplate = (template: string) => {
+    setAlignmentConfig(prev => ({
+      ...prev,
+      templates: prev.templates.includes(template)
+        ? prev.templates.filter(t => t !== template)
+        : [...prev.templates, template]
+    }));
+  };
+
+  const controlExperiment = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!batchId) return;
+
+    try {
+      // Resuming applies the current max spend, so a batch paused for budget continues under the raised cap
+      const response = await fetch(`/api/admin/experiment/${batchId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'resume' && config.maxSpendUsd !== null ? { maxSpendUsd: config.maxSpendUsd } : {})
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${action} experiment`);
+      }
+      if (action !== 'cancel') {
+        setIsPaused(action === 'pause');
+        setIsStale(false);
+        setStatusReason(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
   };
 
   const resetExperiment = () => {
     setIsRunning(false);
     setIsPaused(false);
+    setIsStale(false);
+    setStatusReason(null);
     setProgress(0);
     setResults([]);
     setCurrentDilemma('');
     setError('');
     setTotalCost(0);
-    setTotalTime(0);
+    setBatchId(null);
   };
 
   const exportResults = () => {
@@ -221,20 +538,24 @@ function ExperimentPageContent() {
     linkElement.click();
   };
 
-  const getProviderStatus = (provider: string) => {
-    const isValid = apiKeyStatus[provider];
-    const providerInfo = PROVIDER_STATUS[provider];
-    
+  // Local models were discovered on the endpoint, so they count as reachable without a key check
+  const getProviderStatus = (provider: ProviderOption, isValid: boolean) => {
     return (
-      <div className="flex items-center gap-2">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.providers.includes(provider.id)}
+          onChange={() => toggleProvider(provider.id)}
+          disabled={isRunning}
+        />
         <div className={`w-3 h-3 rounded-full ${isValid ? 'bg-green-500' : 'bg-red-500'}`} />
-        <span className="text-sm">{providerInfo?.name || provider}</span>
+        <span className="text-sm">{provider.name}</span>
         {isValid ? (
           <CheckCircle className="w-4 h-4 text-green-500" />
         ) : (
           <XCircle className="w-4 h-4 text-red-500" />
         )}
-      </div>
+      </label>
     );
   };
 
@@ -301,12 +622,38 @@ function ExperimentPageContent() {
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {Object.keys(PROVIDER_STATUS).map(provider => (
-                <div key={provider} className="p-3 border rounded-lg">
-                  {getProviderStatus(provider)}
+              {availableProviders?.hosted.map(provider => (
+                <div key={provider.id} className="p-3 border rounded-lg">
+                  {getProviderStatus(provider, apiKeyStatus[provider.id])}
                 </div>
               ))}
             </div>
+
+            {availableProviders?.local.configured && (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Local models</span>
+                  <span className="text-xs text-muted-foreground">{availableProviders.local.baseUrl}</span>
+                  <Badge variant="secondary">Free</Badge>
+                  <Button onClick={loadProviders} variant="ghost" size="sm" disabled={isRunning}>
+                    <RefreshCw className="w-3 h-3" />
+                  </Button>
+                </div>
+                {availableProviders.local.error ? (
+                  <p className="text-sm text-red-600">{availableProviders.local.error}</p>
+                ) : availableProviders.local.models.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The local endpoint serves no models</p>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {availableProviders.local.models.map(provider => (
+                      <div key={provider.id} className="p-3 border rounded-lg">
+                        {getProviderStatus(provider, true)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -356,6 +703,35 @@ function ExperimentPageContent() {
                   disabled={isRunning}
                 />
               </div>
+
+              <div>
+                <Label htmlFor="maxSpendUsd">Max Spend (USD)</Label>
+                <Input
+                  id="maxSpendUsd"
+                  type="number"
+                  value={config.maxSpendUsd ?? ''}
+                  onChange={(e) => setConfig(prev => ({ ...prev, maxSpendUsd: e.target.value ? parseFloat(e.target.value) : null }))}
+                  placeholder="No cap"
+                  min="0.01"
+                  step="0.01"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="samplesPerPrediction">Samples per prediction</Label>
+                <Input
+                  id="samplesPerPrediction"
+                  type="number"
+                  value={config.samplesPerPrediction}
+                  onChange={(e) => setConfig(prev => ({ ...prev, samplesPerPrediction: parseInt(e.target.value) }))}
+                  min="1"
+                  max="20"
+                  disabled={isRunning}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  More than one separates a model&apos;s choice from sampling noise at the current temperature
+                </p>
+              </div>
             </div>
             
             <div>
@@ -382,6 +758,219 @@ function ExperimentPageContent() {
           </CardContent>
         </Card>
 
+        {/* VALUES.md A/B */}
+        <Card>
+          <CardHeader>
+            <CardTitle>VALUES.md A/B Experiment</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Holds out dilemmas from research-consented sessions, generates VALUES.md from the rest of each
+              session&apos;s answers, and has the selected providers predict the held-out choices with and without it.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sessionCount">Sessions</Label>
+                <Input
+                  id="sessionCount"
+                  type="number"
+                  value={alignmentConfig.sessionCount}
+                  onChange={(e) => setAlignmentConfig(prev => ({ ...prev, sessionCount: parseInt(e.target.value) }))}
+                  min="1"
+                  max="200"
+                  disabled={isRunning}
+                />
+              </div>
+              <div>
+                <Label htmlFor="holdoutCount">Held-out dilemmas per session</Label>
+                <Input
+                  id="holdoutCount"
+                  type="number"
+                  value={alignmentConfig.holdoutCount}
+                  onChange={(e) => setAlignmentConfig(prev => ({ ...prev, holdoutCount: parseInt(e.target.value) }))}
+                  min="1"
+                  max="10"
+                  disabled={isRunning}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {VALUES_TEMPLATES.map(template => (
+                <label key={template.id} className="flex items-center gap-2 text-sm" title={template.description}>
+                  <input
+                    type="checkbox"
+                    checked={alignmentConfig.templates.includes(template.id)}
+                    onChange={() => toggleAlignmentTemplate(template.id)}
+                    disabled={isRunning}
+                  />
+                  {template.name}
+                </label>
+              ))}
+            </div>
+            <Button
+              onClick={startAlignmentExperiment}
+              disabled={isRunning || config.providers.length === 0 || alignmentConfig.templates.length === 0}
+              className="flex items-center gap-2"
+            >
+              <TrendingUp className="w-4 h-4" />
+              Run A/B Experiment
+            </Button>
+            <Button
+              onClick={() => estimateCost('alignment')}
+              disabled={config.providers.length === 0 || alignmentConfig.templates.length === 0}
+              variant="outline"
+              className="ml-2 flex items-center gap-2"
+            >
+              <DollarSign className="w-4 h-4" />
+              Estimate Cost
+            </Button>
+
+            {alignmentSummary && (
+              alignmentSummary.rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No paired predictions yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-medium pb-2">Model</th>
+                      <th className="font-medium pb-2">Template</th>
+                      <th className="font-medium pb-2 text-right">Pairs</th>
+                      <th className="font-medium pb-2 text-right">Unparseable</th>
+                      <th className="font-medium pb-2 text-right">Baseline</th>
+                      <th className="font-medium pb-2 text-right">With VALUES.md</th>
+                      <th className="font-medium pb-2 text-right">Delta</th>
+                      <th className="font-medium pb-2 text-right">95% CI</th>
+                      <th className="font-medium pb-2 text-right" title="McNemar's test, Holm-corrected across templates × models">p (Holm)</th>
+                      <th className="font-medium pb-2 text-right" title="Cohen's kappa between the person's choices and the majority-vote predictions">κ baseline → aligned</th>
+                      <th className="font-medium pb-2 text-right" title="Share of samples agreeing with their majority vote, and mean choice entropy in bits">Agreement (entropy)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {alignmentSummary.rows.map(row => (
+                      <tr key={`${row.modelName}-${row.templateType}`} className="border-t">
+                        <td className="py-1 pr-2">{row.modelName ?? 'All models'}</td>
+                        <td className="py-1 pr-2">{row.templateType}</td>
+                        <td className="py-1 text-right tabular-nums">{row.pairs}</td>
+                        <td className="py-1 text-right tabular-nums">{row.invalid}</td>
+                        <td className="py-1 text-right tabular-nums">{row.baselineAccuracy}%</td>
+                        <td className="py-1 text-right tabular-nums">{row.alignedAccuracy}%</td>
+                        <td className={`py-1 text-right tabular-nums ${row.delta > 0 ? 'text-green-700' : row.delta < 0 ? 'text-red-700' : ''}`}>
+                          {row.delta > 0 ? '+' : ''}{row.delta} pts
+                        </td>
+                        <td className="py-1 text-right tabular-nums">[{row.deltaInterval.lower}, {row.deltaInterval.upper}]</td>
+                        <td className={`py-1 text-right tabular-nums ${row.adjustedPValue < 0.05 ? 'font-semibold' : ''}`}>
+                          {formatPValue(row.adjustedPValue)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatKappa(row.baselineKappa)} → {formatKappa(row.alignedKappa)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums" title={`${row.samples} samples per prediction`}>
+                          {row.baselineAgreement}% ({row.baselineEntropy}) → {row.alignedAgreement}% ({row.alignedEntropy})
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Framing robustness */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Framing Robustness Experiment</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Asks the selected providers every imported promptset framing (npm run import:promptsets) at temperature 0,
+              without and with a VALUES.md, and reports how often a framing flips the choice made under the neutral baseline framing.
+              With several samples per prediction they are asked at the configured temperature and compared by majority vote.
+            </p>
+            <div>
+              <Label htmlFor="framingValuesDocumentId">VALUES.md document ID</Label>
+              <Input
+                id="framingValuesDocumentId"
+                value={framingValuesDocumentId}
+                onChange={(e) => setFramingValuesDocumentId(e.target.value)}
+                placeholder="From a session that consented to research"
+                disabled={isRunning}
+              />
+            </div>
+            <Button
+              onClick={startFramingExperiment}
+              disabled={isRunning || config.providers.length === 0 || !framingValuesDocumentId.trim()}
+              className="flex items-center gap-2"
+            >
+              <BarChart3 className="w-4 h-4" />
+              Run Framing Experiment
+            </Button>
+            <Button
+              onClick={() => estimateCost('framing')}
+              disabled={config.providers.length === 0 || !framingValuesDocumentId.trim()}
+              variant="outline"
+              className="ml-2 flex items-center gap-2"
+            >
+              <DollarSign className="w-4 h-4" />
+              Estimate Cost
+            </Button>
+
+            {framingSummary && (
+              framingSummary.rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No framings answered in both conditions yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    {/* The summary lists dimensions in report order; the module itself is server-only */}
+                    {[...new Set(framingSummary.rows.map(row => row.dimension))].filter(dimension => dimension !== 'all').map(dimension => (
+                      <Button
+                        key={dimension}
+                        size="sm"
+                        variant={framingDimension === dimension ? 'default' : 'outline'}
+                        onClick={() => setFramingDimension(dimension as FramingDimension)}
+                      >
+                        {dimension.replace(/_/g, ' ')}
+                      </Button>
+                    ))}
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="font-medium pb-2">Model</th>
+                        <th className="font-medium pb-2">Framing</th>
+                        <th className="font-medium pb-2 text-right">Comparisons</th>
+                        <th className="font-medium pb-2 text-right">Unparseable</th>
+                        <th className="font-medium pb-2 text-right">Flips without</th>
+                        <th className="font-medium pb-2 text-right">Flips with VALUES.md</th>
+                        <th className="font-medium pb-2 text-right">Delta</th>
+                        <th className="font-medium pb-2 text-right" title="Share of samples agreeing with their majority vote, and mean choice entropy in bits">Agreement (entropy)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {framingSummary.rows.filter(row => row.dimension === 'all' || row.dimension === framingDimension).map(row => (
+                        <tr key={`${row.modelName}-${row.framing}`} className="border-t">
+                          <td className="py-1 pr-2">{row.modelName ?? 'All models'}</td>
+                          <td className="py-1 pr-2">{row.dimension === 'all' ? 'All framings' : row.framing}</td>
+                          <td className="py-1 text-right tabular-nums">{row.comparisons}</td>
+                          <td className="py-1 text-right tabular-nums">{row.invalid}</td>
+                          <td className="py-1 text-right tabular-nums">{row.withoutValuesFlipRate}%</td>
+                          <td className="py-1 text-right tabular-nums">{row.withValuesFlipRate}%</td>
+                          <td className={`py-1 text-right tabular-nums ${row.delta < 0 ? 'text-green-700' : row.delta > 0 ? 'text-red-700' : ''}`}>
+                            {row.delta > 0 ? '+' : ''}{row.delta} pts
+                          </td>
+                          <td className="py-1 text-right tabular-nums" title={`${row.samples} samples per framing`}>
+                            {row.withoutValuesAgreement}% ({row.withoutValuesEntropy}) → {row.withValuesAgreement}% ({row.withValuesEntropy})
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+
         {/* Controls */}
         <Card>
           <CardContent className="pt-6">
@@ -394,19 +983,40 @@ function ExperimentPageContent() {
                 <Play className="w-4 h-4" />
                 Run Experiment
               </Button>
+
+              <Button
+                onClick={() => estimateCost('experiment')}
+                disabled={config.providers.length === 0}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <DollarSign className="w-4 h-4" />
+                Estimate Cost
+              </Button>
               
               <Button 
-                onClick={pauseExperiment}
+                onClick={() => controlExperiment(isPaused || isStale ? 'resume' : 'pause')}
                 disabled={!isRunning}
                 variant="outline"
                 className="flex items-center gap-2"
               >
                 <Pause className="w-4 h-4" />
-                {isPaused ? 'Resume' : 'Pause'}
+                {isPaused || isStale ? 'Resume' : 'Pause'}
+              </Button>
+
+              <Button 
+                onClick={() => controlExperiment('cancel')}
+                disabled={!isRunning}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
               </Button>
               
               <Button 
                 onClick={resetExperiment}
+                disabled={isRunning}
                 variant="outline"
                 className="flex items-center gap-2"
               >
@@ -424,6 +1034,23 @@ function ExperimentPageContent() {
                 Export Results
               </Button>
             </div>
+            {estimate && (
+              <div className="mt-4 text-sm">
+                <p>
+                  {estimate.label}: estimated <span className="font-medium">${estimate.cost.estimatedCostUsd.toFixed(4)}</span> for{' '}
+                  {estimate.cost.calls} calls (~{estimate.cost.inputTokens.toLocaleString()} prompt tokens,
+                  up to {estimate.cost.outputTokens.toLocaleString()} response tokens)
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {Object.entries(estimate.cost.perProvider).map(([provider, cost]) => `${provider} $${cost.toFixed(4)}`).join(' · ')}
+                </p>
+                {config.maxSpendUsd !== null && estimate.cost.estimatedCostUsd > config.maxSpendUsd && (
+                  <p className="text-amber-700">
+                    Above the ${config.maxSpendUsd.toFixed(2)} cap - the run will pause when it reaches the cap.
+                  </p>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -441,6 +1068,10 @@ function ExperimentPageContent() {
                     <p>Current dilemma: {currentDilemma}</p>
                   )}
                   <p>{Math.round(progress)}% complete</p>
+                  {batchId && <p>Batch: <span className="font-mono">{batchId}</span></p>}
+                  {isPaused && <p>Paused - resume to continue from the next scenario.</p>}
+                  {isPaused && statusReason && <p className="text-amber-700">{statusReason}</p>}
+                  {isStale && <p className="text-amber-700">The worker running this batch stopped reporting. Resume to continue it.</p>}
                 </div>
               </div>
             </CardContent>
@@ -474,7 +1105,7 @@ function ExperimentPageContent() {
                 <div className="space-y-2">
                   {Object.entries(getChoiceDistribution()).map(([choice, count]) => (
                     <div key={choice} className="flex items-center justify-between">
-                      <span className="font-medium">Choice {choice}</span>
+                      <span className="font-medium">{choice === 'invalid' ? 'Unparseable' : `Choice ${choice}`}</span>
                       <Badge variant="secondary">{count}</Badge>
                     </div>
                   ))}
@@ -538,6 +1169,15 @@ function ExperimentPageContent() {
                     <div className="mb-4">
                       <h3 className="font-medium mb-2">{result.dilemmaTitle}</h3>
                       <p className="text-sm text-muted-foreground">{result.dilemmaScenario}</p>
+                      {Object.values(result.analysis.sampling).some(distribution => distribution.samples > 1) && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {Object.entries(result.analysis.sampling).map(([provider, distribution]) => (
+                            <Badge key={provider} variant="outline" title="Majority vote, share of samples agreeing with it, and choice entropy in bits">
+                              {provider}: {distribution.majorityChoice} · {Math.round(distribution.agreementRate * 100)}% of {distribution.samples} ({distribution.entropy})
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     
                     <div className="space-y-4">
@@ -545,7 +1185,9 @@ function ExperimentPageContent() {
                         <div key={responseIndex} className="border-l-4 border-blue-500 pl-4">
                           <div className="flex items-center gap-2 mb-2">
                             <Badge variant="outline">{response.provider}</Badge>
-                            <Badge variant="secondary">Choice {response.choice}</Badge>
+                            {response.choice === 'invalid'
+                              ? <Badge variant="destructive">Unparseable</Badge>
+                              : <Badge variant="secondary">Choice {response.choice}</Badge>}
                             <span className="text-sm text-muted-foreground">
                               {response.responseTime}ms | ${response.cost.toFixed(4)}
                             </span>
@@ -574,6 +1216,71 @@ function ExperimentPageContent() {
             </CardContent>
           </Card>
         )}
+
+        {/* Stored runs */}
+        {batches.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Previous Runs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-medium pb-2">Started</th>
+                    <th className="font-medium pb-2">Run</th>
+                    <th className="font-medium pb-2">Status</th>
+                    <th className="font-medium pb-2">Cost</th>
+                    <th className="font-medium pb-2">Results</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batches.map(batch => (
+                    <tr key={batch.batchId} className="border-t align-top">
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {batch.createdAt ? new Date(batch.createdAt).toLocaleString() : '–'}
+                      </td>
+                      <td className="py-2 pr-2">{batch.description}</td>
+                      <td className="py-2 pr-2">
+                        <Badge variant={batch.status === 'complete' ? 'secondary' : 'outline'}>
+                          {batch.status}{batch.status === 'running' ? ` ${batch.progressPercent}%` : ''}
+                        </Badge>
+                      </td>
+                      <td className="py-2 pr-2 tabular-nums">
+                        ${parseFloat(batch.actualCostUsd || '0').toFixed(4)}
+                        {batch.estimatedCostUsd && (
+                          <div className="text-xs text-muted-foreground">est. ${parseFloat(batch.estimatedCostUsd).toFixed(4)}</div>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {batch.experimentType === 'values_alignment_ab' && (
+                          <Button size="sm" variant="outline" onClick={() => loadAlignmentSummary(batch.batchId)}>
+                            Accuracy deltas
+                          </Button>
+                        )}
+                        {batch.experimentType === 'framing_robustness' && (
+                          <Button size="sm" variant="outline" onClick={() => loadFramingSummary(batch.batchId)}>
+                            Flip rates
+                          </Button>
+                        )}
+                        {batch.consistency.map(row => row.templateType ? (
+                          <div key={`${row.llmProvider}-${row.templateType}`} className="text-xs">
+                            {row.llmProvider} × {row.templateType}: {parseFloat(row.improvementDelta || '0') > 0 ? '+' : ''}
+                            {parseFloat(row.improvementDelta || '0')} pts, p={formatPValue(parseFloat(row.statisticalSignificance || '1'))}
+                          </div>
+                        ) : (
+                          <div key={row.llmProvider} className="text-xs">
+                            {row.llmProvider}: {parseFloat(row.consistencyPercentage || '0').toFixed(0)}% of {row.sampleSize}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
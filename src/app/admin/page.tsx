@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Activity, TestTube, Map, ExternalLink, Zap } from 'lucide-react';
+import { Activity, TestTube, Map, ExternalLink, Zap, ClipboardCheck, BarChart3 } from 'lucide-react';
 import { AdminProtection, DestructiveActionProtection } from '@/components/admin-protection';
 import { AdminErrorBoundary } from '@/components/error-boundary';
 import { AdminStateIndicators, StateAwareButton } from '@/components/system-state';
@@ -297,6 +297,32 @@ function AdminPageContent() {
                     </CardContent>
                   </Card>
                 </Link>
+
+                <Link href="/admin/dilemmas">
+                  <Card className="cursor-pointer hover:bg-accent transition-colors">
+                    <CardContent className="flex items-center space-x-3 p-4">
+                      <ClipboardCheck className="h-5 w-5 text-teal-500" />
+                      <div>
+                        <p className="font-medium">Dilemma Review</p>
+                        <p className="text-sm text-muted-foreground">Approve generated dilemmas</p>
+                      </div>
+                      <ExternalLink className="h-4 w-4 ml-auto" />
+                    </CardContent>
+                  </Card>
+                </Link>
+
+                <Link href="/admin/dilemmas/quality">
+                  <Card className="cursor-pointer hover:bg-accent transition-colors">
+                    <CardContent className="flex items-center space-x-3 p-4">
+                      <BarChart3 className="h-5 w-5 text-rose-500" />
+                      <div>
+                        <p className="font-medium">Dilemma Quality</p>
+                        <p className="text-sm text-muted-foreground">Flag dilemmas to rewrite</p>
+                      </div>
+                      <ExternalLink className="h-4 w-4 ml-auto" />
+                    </CardContent>
+                  </Card>
+                </Link>
               </div>
             </div>
 
@@ -413,6 +439,9 @@ function AdminPageContent() {
               <Card>
                 <CardHeader>
                   <CardTitle className="text-lg">Generated Dilemma</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Queued for review - it is shown to participants once approved in <Link href="/admin/dilemmas" className="underline">Dilemma Review</Link>.
+                  </p>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { CORPUS_FORMATS, CORPUS_TABLES, exportCorpus, type CorpusFormat, type CorpusTable } from '@/lib/dilemma-corpus';
+
+// Download the dilemmas, motifs or frameworks table in the striated CSV layout (or JSONL)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const table = request.nextUrl.searchParams.get('table') || 'dilemmas';
+    const format = request.nextUrl.searchParams.get('format') || 'csv';
+    if (!CORPUS_TABLES.includes(table as CorpusTable) || !CORPUS_FORMATS.includes(format as CorpusFormat)) {
+      return NextResponse.json(
+        { error: `Expected table in ${CORPUS_TABLES.join(', ')} and format in ${CORPUS_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const body = await exportCorpus(table as CorpusTable, format as CorpusFormat);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${table}.${format}"`
+      }
+    });
+  } catch (error) {
+    console.error('Corpus export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export corpus' },
+      { status: 500 }
+    );
+  }
+}
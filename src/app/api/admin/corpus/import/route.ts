@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { CorpusImportRequestSchema, importCorpus } from '@/lib/dilemma-corpus';
+
+// Validate a CSV or JSONL corpus file and, unless dryRun (the default), upsert its dilemmas
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = CorpusImportRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid corpus import request', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { content, format, dryRun } = parsed.data;
+    const report = await importCorpus(content, format, { dryRun });
+
+    // A real import with invalid rows writes nothing; the report says which rows to fix
+    return NextResponse.json({ report }, { status: !dryRun && !report.applied ? 422 : 200 });
+  } catch (error) {
+    console.error('Corpus import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import corpus' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { eq } from 'drizzle-orm';
+import { authConfig } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { dilemmas } from '@/lib/schema';
+import { DilemmaReviewSchema, reviewDilemma } from '@/lib/dilemma-review';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ dilemmaId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { dilemmaId } = await params;
+    const [dilemma] = await db.select().from(dilemmas).where(eq(dilemmas.dilemmaId, dilemmaId)).limit(1);
+    if (!dilemma) {
+      return NextResponse.json({ error: 'Dilemma not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ dilemma });
+  } catch (error) {
+    console.error('Error fetching dilemma for review:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dilemma' },
+      { status: 500 }
+    );
+  }
+}
+
+// Edit, score and approve/reject/retire a dilemma; 409 when its status doesn't allow the change
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ dilemmaId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = DilemmaReviewSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { dilemmaId } = await params;
+    const outcome = await reviewDilemma(dilemmaId, parsed.data, session.user.id ?? null);
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+
+    return NextResponse.json({ dilemma: outcome.dilemma });
+  } catch (error) {
+    console.error('Error reviewing dilemma:', error);
+    return NextResponse.json(
+      { error: 'Failed to review dilemma' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { buildCoverageReport, CoverageBatchRequestSchema, generateCoverageBatch } from '@/lib/dilemma-coverage';
+
+// Motif-pair and domain × difficulty coverage of the published and queued corpus
+export async function GET() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ report: await buildCoverageReport() });
+  } catch (error) {
+    console.error('Error building dilemma coverage report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build coverage report' },
+      { status: 500 }
+    );
+  }
+}
+
+// Generate candidates for the emptiest coverage cells and stage them in the review queue
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = CoverageBatchRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid coverage batch config', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await generateCoverageBatch(parsed.data));
+  } catch (error) {
+    console.error('Coverage batch generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate coverage batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { listDilemmaQuality, scoreDilemmaQuality } from '@/lib/dilemma-quality';
+
+// Stored per-dilemma quality statistics, flagged items first
+export async function GET() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ dilemmas: await listDilemmaQuality() });
+  } catch (error) {
+    console.error('Error fetching dilemma quality:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dilemma quality' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rescore every dilemma from the current consented responses
+export async function POST() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await scoreDilemmaQuality());
+  } catch (error) {
+    console.error('Dilemma quality scoring error:', error);
+    return NextResponse.json(
+      { error: 'Failed to score dilemma quality' },
+      { status: 500 }
+    );
+  }
+}
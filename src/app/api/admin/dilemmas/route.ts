@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import {
+  countDilemmasByStatus,
+  DILEMMA_STATUSES,
+  type DilemmaStatus,
+  listDilemmasByStatus
+} from '@/lib/dilemma-review';
+
+// Dilemmas in one review status (the review queue by default) plus how many sit in each status
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'in_review';
+    if (!DILEMMA_STATUSES.includes(status as DilemmaStatus)) {
+      return NextResponse.json(
+        { error: `Unknown status - expected one of ${DILEMMA_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [dilemmas, counts] = await Promise.all([
+      listDilemmasByStatus(status as DilemmaStatus),
+      countDilemmasByStatus()
+    ]);
+
+    return NextResponse.json({ status, dilemmas, counts });
+  } catch (error) {
+    console.error('Error listing dilemmas for review:', error);
+    return NextResponse.json(
+      { error: 'Failed to list dilemmas' },
+      { status: 500 }
+    );
+  }
+}
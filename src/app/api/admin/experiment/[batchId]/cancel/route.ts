@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { ACTIVE_STATUSES, getBatch, transitionBatch } from '@/lib/experiment-batches';
+
+// Cancelled batches keep the responses collected so far but are never resumed
+export async function POST(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const batch = await transitionBatch(batchId, ACTIVE_STATUSES, 'cancelled', 'Cancelled by admin');
+    if (!batch) {
+      const current = await getBatch(batchId);
+      return current
+        ? NextResponse.json({ error: `Cannot cancel a ${current.status} batch` }, { status: 409 })
+        : NextResponse.json({ error: 'Experiment batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batchId, status: batch.status });
+  } catch (error) {
+    console.error('Error cancelling experiment batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel experiment batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { getBatch, transitionBatch } from '@/lib/experiment-batches';
+
+// The worker finishes its current scenario, then stops at the next heartbeat
+export async function POST(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const batch = await transitionBatch(batchId, ['queued', 'running'], 'paused', 'Paused by admin');
+    if (!batch) {
+      const current = await getBatch(batchId);
+      return current
+        ? NextResponse.json({ error: `Cannot pause a ${current.status} batch` }, { status: 409 })
+        : NextResponse.json({ error: 'Experiment batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batchId, status: batch.status });
+  } catch (error) {
+    console.error('Error pausing experiment batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause experiment batch' },
+      { status: 500 }
+    );
+  }
+}
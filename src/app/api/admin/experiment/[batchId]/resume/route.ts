@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { getBatch, isHeartbeatStale, setBatchBudget, transitionBatch } from '@/lib/experiment-batches';
+import { startExperimentJob } from '@/lib/experiment-jobs';
+
+// Requeue a paused batch, or one whose worker died, and run it from the first unanswered scenario.
+// An optional { maxSpendUsd } replaces the spend cap, so a batch paused for budget can continue.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const current = await getBatch(batchId);
+    if (!current) {
+      return NextResponse.json({ error: 'Experiment batch not found' }, { status: 404 });
+    }
+
+    const resumable = current.status === 'paused' || current.status === 'queued' || isHeartbeatStale(current);
+
+    const body = await request.json().catch(() => ({}));
+    if (resumable && body.maxSpendUsd !== undefined) {
+      if (body.maxSpendUsd !== null && !(typeof body.maxSpendUsd === 'number' && body.maxSpendUsd > 0)) {
+        return NextResponse.json({ error: 'Max spend must be a positive amount' }, { status: 400 });
+      }
+      await setBatchBudget(current, body.maxSpendUsd);
+    }
+
+    const batch = resumable
+      ? await transitionBatch(batchId, [current.status as 'paused' | 'queued' | 'running'], 'queued')
+      : null;
+    if (!batch) {
+      return NextResponse.json({ error: `Cannot resume a ${current.status} batch` }, { status: 409 });
+    }
+
+    startExperimentJob(batchId);
+
+    return NextResponse.json({ batchId, status: batch.status }, { status: 202 });
+  } catch (error) {
+    console.error('Error resuming experiment batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume experiment batch' },
+      { status: 500 }
+    );
+  }
+}
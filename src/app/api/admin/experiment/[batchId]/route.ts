@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { getBatch, isHeartbeatStale } from '@/lib/experiment-batches';
+
+// Status of one experiment job; `stale` means it is marked running but its worker stopped reporting
+export async function GET(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Experiment batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batch, stale: isHeartbeatStale(batch) });
+  } catch (error) {
+    console.error('Error fetching experiment batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiment batch' },
+      { status: 500 }
+    );
+  }
+}
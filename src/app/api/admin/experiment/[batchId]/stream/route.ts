@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { ACTIVE_STATUSES, getBatch, isHeartbeatStale, type BatchStatus } from '@/lib/experiment-batches';
+import { buildBatchResults } from '@/lib/experiment-jobs';
+
+const POLL_INTERVAL_MS = 1500;
+// Stay under serverless time limits; the page reconnects on `reconnect`
+const MAX_STREAM_MS = 4 * 60 * 1000;
+
+// Progress of a job read back from the database, so any instance can serve it and the page can reattach at any time
+export async function GET(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+    if (!(await getBatch(batchId))) {
+      return NextResponse.json({ error: 'Experiment batch not found' }, { status: 404 });
+    }
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder();
+        const send = (event: object) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        };
+        // Responses arrive per provider and sample, so a scenario is sent again whenever it gains some
+        const sentResponseCounts = new Map<string, number>();
+        const startedAt = Date.now();
+
+        try {
+          send({ type: 'batch', batchId });
+
+          while (!request.signal.aborted) {
+            const batch = await getBatch(batchId);
+            if (!batch) break;
+
+            const results = await buildBatchResults(batchId);
+            for (const result of results) {
+              if (sentResponseCounts.get(result.scenarioId) === result.responses.length) continue;
+              sentResponseCounts.set(result.scenarioId, result.responses.length);
+              send({ type: 'result', result });
+            }
+
+            send({
+              type: 'progress',
+              progress: batch.progressPercent || 0,
+              status: batch.status,
+              statusReason: batch.statusReason,
+              actualCostUsd: parseFloat(batch.actualCostUsd || '0'),
+              stale: isHeartbeatStale(batch)
+            });
+
+            if (!ACTIVE_STATUSES.includes(batch.status as BatchStatus)) {
+              send({ type: 'complete', status: batch.status, statusReason: batch.statusReason });
+              break;
+            }
+            if (Date.now() - startedAt > MAX_STREAM_MS) {
+              send({ type: 'reconnect' });
+              break;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        } catch (error) {
+          console.error('Experiment stream error:', error);
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        controller.close();
+      }
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Experiment stream setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream experiment progress' },
+      { status: 500 }
+    );
+  }
+}
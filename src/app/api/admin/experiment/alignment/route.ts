@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { getBatch } from '@/lib/experiment-batches';
+import { startExperimentJob } from '@/lib/experiment-jobs';
+import {
+  AlignmentExperimentRequestSchema,
+  buildAlignmentSummary,
+  enqueueAlignmentExperiment,
+  VALUES_ALIGNMENT_EXPERIMENT_TYPE
+} from '@/lib/values-alignment-experiment';
+
+// Queue a baseline vs VALUES.md A/B run over consented sessions; progress is followed on /api/admin/experiment/[batchId]/stream
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = AlignmentExperimentRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid alignment experiment config', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const batchId = await enqueueAlignmentExperiment(parsed.data);
+    if (!batchId) {
+      return NextResponse.json(
+        { error: 'No consented sessions have enough answers for this many held-out dilemmas' },
+        { status: 400 }
+      );
+    }
+
+    startExperimentJob(batchId);
+
+    return NextResponse.json({ batchId, status: 'queued' }, { status: 202 });
+  } catch (error) {
+    console.error('Alignment experiment setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start alignment experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+// Per-template accuracy against the baseline for one A/B batch
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const batchId = request.nextUrl.searchParams.get('batchId');
+    const batch = batchId ? await getBatch(batchId) : null;
+    if (!batchId || !batch || batch.experimentType !== VALUES_ALIGNMENT_EXPERIMENT_TYPE) {
+      return NextResponse.json({ error: 'Alignment experiment batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batch, summary: await buildAlignmentSummary(batchId) });
+  } catch (error) {
+    console.error('Error loading alignment experiment results:', error);
+    return NextResponse.json(
+      { error: 'Failed to load alignment experiment results' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { listExperimentBatches } from '@/lib/experiment-batches';
+
+// Stored experiment runs, newest first, with per-provider consistency
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20, 100);
+    const batches = await listExperimentBatches(limit);
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error listing experiment batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list experiment batches' },
+      { status: 500 }
+    );
+  }
+}
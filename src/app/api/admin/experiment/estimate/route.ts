@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { estimateExperiment, type ExperimentRequest } from '@/lib/experiment-jobs';
+import {
+  AlignmentExperimentRequestSchema,
+  estimateAlignmentExperiment,
+  VALUES_ALIGNMENT_EXPERIMENT_TYPE
+} from '@/lib/values-alignment-experiment';
+import {
+  estimateFramingExperiment,
+  FRAMING_ROBUSTNESS_EXPERIMENT_TYPE,
+  FramingExperimentRequestSchema,
+  loadValuesDocument
+} from '@/lib/framing-robustness-experiment';
+
+// Pre-flight cost of a run from prompt token counts × provider pricing; nothing is queued
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (body.experimentType === VALUES_ALIGNMENT_EXPERIMENT_TYPE) {
+      const parsed = AlignmentExperimentRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Invalid alignment experiment config', details: parsed.error.errors },
+          { status: 400 }
+        );
+      }
+
+      const estimate = await estimateAlignmentExperiment(parsed.data);
+      if (!estimate) {
+        return NextResponse.json(
+          { error: 'No consented sessions have enough answers for this many held-out dilemmas' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ estimate });
+    }
+
+    if (body.experimentType === FRAMING_ROBUSTNESS_EXPERIMENT_TYPE) {
+      const parsed = FramingExperimentRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Invalid framing experiment config', details: parsed.error.errors },
+          { status: 400 }
+        );
+      }
+
+      const document = await loadValuesDocument(parsed.data.valuesDocumentId);
+      if (!document) {
+        return NextResponse.json({ error: 'No VALUES.md with that id from a session that consented to research' }, { status: 404 });
+      }
+      return NextResponse.json({ estimate: await estimateFramingExperiment(parsed.data, document) });
+    }
+
+    const config: ExperimentRequest = body;
+    if (!config.providers || config.providers.length === 0) {
+      return NextResponse.json({ error: 'No providers specified' }, { status: 400 });
+    }
+
+    return NextResponse.json({ estimate: await estimateExperiment(config) });
+  } catch (error) {
+    console.error('Error estimating experiment cost:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate experiment cost' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import { getBatch } from '@/lib/experiment-batches';
+import { startExperimentJob } from '@/lib/experiment-jobs';
+import {
+  buildFramingSummary,
+  enqueueFramingExperiment,
+  FRAMING_ROBUSTNESS_EXPERIMENT_TYPE,
+  FramingExperimentRequestSchema,
+  loadValuesDocument
+} from '@/lib/framing-robustness-experiment';
+
+// Queue a run of every imported promptset framing, without and with VALUES.md; progress is followed on /api/admin/experiment/[batchId]/stream
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = FramingExperimentRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid framing experiment config', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const document = await loadValuesDocument(parsed.data.valuesDocumentId);
+    if (!document) {
+      return NextResponse.json({ error: 'No VALUES.md with that id from a session that consented to research' }, { status: 404 });
+    }
+
+    const batchId = await enqueueFramingExperiment(parsed.data, document);
+    if (!batchId) {
+      return NextResponse.json(
+        { error: 'No promptsets imported - run npm run import:promptsets first' },
+        { status: 400 }
+      );
+    }
+
+    startExperimentJob(batchId);
+
+    return NextResponse.json({ batchId, status: 'queued' }, { status: 202 });
+  } catch (error) {
+    console.error('Framing experiment setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start framing experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+// Choice-flip rates per framing dimension for one framing-robustness batch
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const batchId = request.nextUrl.searchParams.get('batchId');
+    const batch = batchId ? await getBatch(batchId) : null;
+    if (!batchId || !batch || batch.experimentType !== FRAMING_ROBUSTNESS_EXPERIMENT_TYPE) {
+      return NextResponse.json({ error: 'Framing experiment batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batch, summary: await buildFramingSummary(batchId) });
+  } catch (error) {
+    console.error('Error loading framing experiment results:', error);
+    return NextResponse.json(
+      { error: 'Failed to load framing experiment results' },
+      { status: 500 }
+    );
+  }
+}
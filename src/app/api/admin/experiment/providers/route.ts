@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import {
+  LLM_PROVIDERS,
+  discoverLocalModels,
+  getLocalEndpoint,
+  getProviderConfig
+} from '@/lib/llm-providers';
+
+// Hosted providers plus whatever models the local endpoint currently serves
+export async function GET() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const hosted = Object.entries(LLM_PROVIDERS).map(([id, config]) => ({
+      id,
+      name: config.name,
+      modelName: config.modelName,
+      costPerInputToken: config.costPerInputToken,
+      costPerOutputToken: config.costPerOutputToken
+    }));
+
+    const endpoint = getLocalEndpoint();
+    let localModels: { id: string; name: string; modelName: string }[] = [];
+    let localError: string | null = null;
+
+    if (endpoint) {
+      try {
+        localModels = (await discoverLocalModels()).map(id => {
+          const config = getProviderConfig(id)!;
+          return { id, name: config.name, modelName: config.modelName };
+        });
+      } catch (error) {
+        // An unreachable local server shouldn't hide the hosted providers
+        localError = error instanceof Error ? error.message : 'Failed to reach local endpoint';
+      }
+    }
+
+    return NextResponse.json({
+      hosted,
+      local: {
+        configured: endpoint !== null,
+        baseUrl: endpoint?.baseUrl || null,
+        models: localModels,
+        error: localError
+      }
+    });
+  } catch (error) {
+    console.error('Error listing experiment providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to list providers' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { openRouter } from '@/lib/openrouter';
 import { db } from '@/lib/db';
 import { dilemmas } from '@/lib/schema';
 import { eq } from 'drizzle-orm';
+import { GENERATED_DILEMMA_STATUS } from '@/lib/dilemma-review';
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,7 +42,7 @@ export async function POST(request: NextRequest) {
       existingDilemmas.map(d => d.title)
     );
 
-    // Save to database with enhanced metadata (let DB generate UUID)
+    // Save to database with enhanced metadata (let DB generate UUID); it waits in the review queue until approved
     const [savedDilemma] = await db.insert(dilemmas).values({
       domain,
       generatorType: 'ai_generated',
@@ -61,12 +62,15 @@ export async function POST(request: NextRequest) {
       culturalContext: generatedDilemma.culturalContext,
       validationScore: null,
       realismScore: null,
-      tensionStrength: generatedDilemma.tensionStrength.toString(),
-    }).returning({ dilemmaId: dilemmas.dilemmaId });
+      // The generator's own 0-1 estimate isn't a reviewer's 1-10 score
+      tensionStrength: null,
+      status: GENERATED_DILEMMA_STATUS,
+    }).returning({ dilemmaId: dilemmas.dilemmaId, status: dilemmas.status });
 
     return NextResponse.json({
       success: true,
       dilemmaId: savedDilemma.dilemmaId,
+      status: savedDilemma.status,
       dilemma: generatedDilemma
     });
   } catch (error) {
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authConfig } from '@/lib/auth';
+import {
+  getLatestManifold,
+  isPopulationManifoldFitRunning,
+  startPopulationManifoldFit
+} from '@/lib/population-manifold';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const latest = await getLatestManifold();
+
+    return NextResponse.json({
+      running: isPopulationManifoldFitRunning(),
+      latest: latest && {
+        manifoldId: latest.manifoldId,
+        sessionCount: latest.sessionCount,
+        responseCount: latest.responseCount,
+        dilemmaCount: latest.dilemmaCount,
+        createdAt: latest.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Error getting population manifold:', error);
+    return NextResponse.json({ error: 'Failed to get population manifold' }, { status: 500 });
+  }
+}
+
+// Kick off a refit in the background; poll GET for the new manifold
+export async function POST() {
+  try {
+    const session = await getServerSession(authConfig);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { started } = startPopulationManifoldFit();
+
+    return NextResponse.json(
+      { started, running: true },
+      { status: started ? 202 : 409 }
+    );
+  } catch (error) {
+    console.error('Error starting population manifold fit:', error);
+    return NextResponse.json({ error: 'Failed to start population manifold fit' }, { status: 500 });
+  }
+}
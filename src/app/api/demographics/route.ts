@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { userDemographics } from '@/lib/schema';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  checkRateLimit,
+  getClientIP,
+  ApiErrors,
+  addCorsHeaders,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { DemographicsSchema } from '@/lib/demographics';
+import { verifySessionToken } from '@/lib/session-data';
+
+const DemographicsRequestSchema = DemographicsSchema.extend({
+  sessionId: CommonSchemas.sessionId,
+  token: z.string().min(1, 'Session token is required')
+});
+
+// Answers are submitted after research responses, with the session token those issued;
+// resubmitting replaces them. Withdrawal goes through /api/session/delete.
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const clientIP = getClientIP(request);
+  if (!checkRateLimit(clientIP, 20, 15 * 60 * 1000)) {
+    throw ApiErrors.tooManyRequests('Too many requests. Please try again later.');
+  }
+
+  const { sessionId, token, ...demographics } = DemographicsRequestSchema.parse(await request.json());
+  if (!verifySessionToken(sessionId, token)) {
+    throw ApiErrors.forbidden('Invalid session token');
+  }
+
+  const values = {
+    ageRange: demographics.ageRange || null,
+    educationLevel: demographics.educationLevel || null,
+    culturalBackground: demographics.culturalBackground || null,
+    profession: demographics.profession || null,
+    professionalContext: demographics.professionalContext || null,
+    geographicRegion: demographics.geographicRegion || null,
+    primaryLanguage: demographics.primaryLanguage || null,
+    consentResearch: demographics.consentResearch
+  };
+
+  await db
+    .insert(userDemographics)
+    .values({ sessionId, ...values })
+    .onConflictDoUpdate({ target: userDemographics.sessionId, set: values });
+
+  const response = NextResponse.json({ success: true, sessionId, consentResearch: values.consentResearch });
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(addCorsHeaders(response));
+}
+
+export const POST = withErrorHandler(handlePOST);
+
+export async function OPTIONS(request: NextRequest) {
+  const response = new NextResponse(null, { status: 200 });
+  return addCorsHeaders(response);
+}
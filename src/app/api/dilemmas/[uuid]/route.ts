@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { dilemmas } from '@/lib/schema';
-import { eq, ne, sql } from 'drizzle-orm';
+import { and, eq, ne, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import {
   withErrorHandler,
@@ -14,6 +14,7 @@ import {
   addCorsHeaders,
   addSecurityHeaders
 } from '@/lib/api-error-handler';
+import { PUBLISHED_DILEMMA } from '@/lib/dilemma-review';
 
 // Pagination schema for validation - handle null params gracefully
 const PaginationSchema = z.object({
@@ -46,11 +47,11 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ u
     all: url.searchParams.get('all')
   });
 
-  // Get the specific dilemma
+  // Get the specific dilemma - drafts and retired dilemmas are not served
   const dilemma = await db
     .select()
     .from(dilemmas)
-    .where(eq(dilemmas.dilemmaId, validatedUuid))
+    .where(and(eq(dilemmas.dilemmaId, validatedUuid), PUBLISHED_DILEMMA))
     .limit(1);
 
   if (dilemma.length === 0) {
@@ -58,6 +59,23 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ u
   }
 
   const { limit, offset, all: loadAll } = paginationParams;
+
+  // Adaptive sessions fetch each following dilemma from /api/dilemmas/next
+  if (url.searchParams.get('mode') === 'adaptive') {
+    const response = NextResponse.json({
+      dilemmas: [dilemma[0]],
+      startingDilemma: dilemma[0],
+      mode: 'adaptive',
+      pagination: {
+        total: 1,
+        loaded: 1,
+        hasMore: false
+      }
+    });
+
+    logResponse(response, Date.now() - startTime);
+    return addSecurityHeaders(addCorsHeaders(response));
+  }
   
   console.log(`📥 Fetching dilemmas: UUID=${validatedUuid}, limit=${limit}, offset=${offset}, loadAll=${loadAll}`);
 
@@ -66,7 +84,7 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ u
     const otherDilemmas = await db
       .select()
       .from(dilemmas)
-      .where(ne(dilemmas.dilemmaId, validatedUuid))
+      .where(and(ne(dilemmas.dilemmaId, validatedUuid), PUBLISHED_DILEMMA))
       .orderBy(sql`dilemma_id`);
     
     const allDilemmas = [dilemma[0], ...otherDilemmas];
@@ -89,7 +107,7 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ u
   const otherDilemmas = await db
     .select()
     .from(dilemmas)
-    .where(ne(dilemmas.dilemmaId, validatedUuid))
+    .where(and(ne(dilemmas.dilemmaId, validatedUuid), PUBLISHED_DILEMMA))
     .orderBy(sql`dilemma_id`)
     .limit(limit - 1) // -1 because we include the starting dilemma
     .offset(offset);
@@ -97,7 +115,8 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ u
   // Get total count for pagination info
   const [totalCount] = await db
     .select({ count: sql<number>`count(*)` })
-    .from(dilemmas);
+    .from(dilemmas)
+    .where(PUBLISHED_DILEMMA);
 
   const currentBatch = offset === 0 
     ? [dilemma[0], ...otherDilemmas] 
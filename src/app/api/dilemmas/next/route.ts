@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { dilemmas } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  checkRateLimit,
+  getClientIP,
+  ApiErrors,
+  addCorsHeaders,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { adaptiveDilemmaSelector } from '@/lib/adaptive-dilemma-selection';
+import { PUBLISHED_DILEMMA } from '@/lib/dilemma-review';
+
+// Answers so far come from the client - adaptive mode never needs them stored
+const NextDilemmaRequestSchema = z.object({
+  responses: z.array(z.object({
+    dilemmaId: z.string().uuid(),
+    chosenOption: CommonSchemas.choice
+  })).max(200),
+  minQuestions: z.number().int().min(1).max(50).optional(),
+  maxQuestions: z.number().int().min(1).max(100).optional()
+});
+
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const clientIP = getClientIP(request);
+  if (!checkRateLimit(clientIP, 60, 60 * 1000)) {
+    throw ApiErrors.tooManyRequests('Rate limit exceeded. Please wait before requesting more dilemmas.');
+  }
+
+  const { responses, minQuestions, maxQuestions } = NextDilemmaRequestSchema.parse(await request.json());
+
+  const pool = await db
+    .select({
+      dilemmaId: dilemmas.dilemmaId,
+      choiceAMotif: dilemmas.choiceAMotif,
+      choiceBMotif: dilemmas.choiceBMotif,
+      choiceCMotif: dilemmas.choiceCMotif,
+      choiceDMotif: dilemmas.choiceDMotif
+    })
+    .from(dilemmas)
+    .where(PUBLISHED_DILEMMA);
+
+  const selection = adaptiveDilemmaSelector.selectNext(pool, responses, { minQuestions, maxQuestions });
+
+  let dilemma = null;
+  if (selection.dilemmaId) {
+    [dilemma] = await db
+      .select()
+      .from(dilemmas)
+      .where(eq(dilemmas.dilemmaId, selection.dilemmaId))
+      .limit(1);
+  }
+
+  const response = NextResponse.json({ success: true, ...selection, dilemma: dilemma || null });
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(addCorsHeaders(response));
+}
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  const response = new NextResponse(null, { status: 200 });
+  return addCorsHeaders(response);
+}
+
+export const POST = withErrorHandler(handlePOST);
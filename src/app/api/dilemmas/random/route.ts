@@ -3,10 +3,37 @@ import { db } from '@/lib/db';
 import { dilemmas, motifs } from '@/lib/schema';
 import { sql } from 'drizzle-orm';
 import { getBaseUrl } from '@/lib/config';
+import { adaptiveDilemmaSelector } from '@/lib/adaptive-dilemma-selection';
+import { PUBLISHED_DILEMMA } from '@/lib/dilemma-review';
 
 export async function GET(request: NextRequest) {
   try {
     console.log('🔍 Fetching random dilemma - NODE_ENV:', process.env.NODE_ENV);
+
+    // Adaptive sessions open with the most informative dilemma rather than a random one
+    if (request.nextUrl.searchParams.get('mode') === 'adaptive') {
+      const pool = await db
+        .select({
+          dilemmaId: dilemmas.dilemmaId,
+          choiceAMotif: dilemmas.choiceAMotif,
+          choiceBMotif: dilemmas.choiceBMotif,
+          choiceCMotif: dilemmas.choiceCMotif,
+          choiceDMotif: dilemmas.choiceDMotif
+        })
+        .from(dilemmas)
+        .where(PUBLISHED_DILEMMA);
+
+      const selection = adaptiveDilemmaSelector.selectNext(pool, []);
+      if (selection.dilemmaId) {
+        return NextResponse.json({
+          dilemmaId: selection.dilemmaId,
+          success: true,
+          mode: 'adaptive',
+          expectedInformationGain: selection.expectedInformationGain
+        });
+      }
+      // Empty pool - fall through so the random path can initialise the database
+    }
     
     // Test database connection first
     let randomDilemma;
@@ -14,6 +41,7 @@ export async function GET(request: NextRequest) {
       randomDilemma = await db
         .select()
         .from(dilemmas)
+        .where(PUBLISHED_DILEMMA)
         .orderBy(sql`RANDOM()`)
         .limit(1);
       console.log('✅ Database query successful, found', randomDilemma.length, 'dilemmas');
@@ -23,7 +51,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (randomDilemma.length === 0) {
-      // Database is empty - initialize with essential sample data
+      // No published dilemmas - initialize with essential sample data
       console.log('🔄 No dilemmas found, initializing database...');
       
       try {
@@ -31,34 +59,34 @@ export async function GET(request: NextRequest) {
         const existingMotifs = await db.select().from(motifs).limit(1);
         
         if (existingMotifs.length === 0) {
-          // Insert essential motifs
+          // Insert essential motifs - the striated/motifs.csv rows the starter dilemma uses
           await db.insert(motifs).values([
             {
-              motifId: 'NUMBERS_FIRST',
-              name: 'Numbers First',
-              category: 'quantitative',
+              motifId: 'UTIL_CALC',
+              name: 'Utilitarian Calculation',
+              category: 'consequentialism',
               subcategory: 'calculation',
-              description: 'Mathematical optimization, quantified outcomes',
-              lexicalIndicators: 'calculate;maximize;optimize;numbers;percentage;probability',
-              behavioralIndicators: 'chooses mathematically optimal outcomes;weighs probabilities',
+              description: 'Explicit mathematical/quantitative approach to maximizing utility',
+              lexicalIndicators: 'calculate;maximize;optimize;utility;greatest number;sum;aggregate;net benefit;cost-benefit;expected value',
+              behavioralIndicators: 'chooses mathematically optimal outcomes;weighs probabilities;considers aggregate effects',
               logicalPatterns: 'IF total_utility(A) > total_utility(B) THEN choose(A)',
-              conflictsWith: 'RULES_FIRST,PERSON_FIRST',
-              synergiesWith: 'PROCESS_FIRST',
+              conflictsWith: 'DEONT_ABSOLUTE,VIRT_CHARACTER,CARE_PARTICULAR',
+              synergiesWith: 'PRAGMA_OUTCOMES,RISK_ASSESSMENT',
               weight: 0.9,
               culturalVariance: 'low',
               cognitiveLoad: 'high',
             },
             {
-              motifId: 'PERSON_FIRST',
-              name: 'Person First',
+              motifId: 'CARE_PARTICULAR',
+              name: 'Care for Particular',
               category: 'care_ethics',
               subcategory: 'particular',
-              description: 'Individual focus, contextual care, specific relationships',
-              lexicalIndicators: 'this person;particular case;individual needs;context;specific situation',
+              description: 'Responding to specific individuals and contexts',
+              lexicalIndicators: 'this person;particular case;individual needs;context;specific situation;personal',
               behavioralIndicators: 'focuses on individual rather than universal;contextual responses',
               logicalPatterns: 'respond_to(particular_other) IN specific_context',
-              conflictsWith: 'NUMBERS_FIRST,RULES_FIRST',
-              synergiesWith: 'SAFETY_FIRST',
+              conflictsWith: 'DEONT_UNIVERSAL,UTIL_IMPARTIAL,JUST_BLIND',
+              synergiesWith: 'CONTEXT_SENSITIVE,RELATION_MAINTAIN',
               weight: 0.8,
               culturalVariance: 'very_high',
               cognitiveLoad: 'low',
@@ -71,7 +99,9 @@ export async function GET(request: NextRequest) {
           title: 'Quick Start Dilemma',
           scenario: 'You need to make a decision that balances different considerations. This is a simple scenario to get you started with the VALUES.md platform.',
           choiceA: 'Focus on the most logical, data-driven approach',
+          choiceAMotif: 'UTIL_CALC',
           choiceB: 'Consider the specific people and relationships involved',
+          choiceBMotif: 'CARE_PARTICULAR',
           choiceC: 'Not applicable',
           choiceD: 'Not applicable'
         }).returning();
@@ -1,125 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { userResponses, dilemmas } from '@/lib/schema';
-import { eq } from 'drizzle-orm';
-// Simplified generation - removed unused complex libraries
+import { userResponses, dilemmas, motifs, frameworks, valuesDocuments } from '@/lib/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  combinatorialGenerator,
+  type CombinatorialGenerationConfig
+} from '@/lib/combinatorial-values-generator';
+import { valueTemplates, generateValuesByTemplate } from '@/lib/values-templates';
+import {
+  buildTemplateData,
+  hashGenerationConfig,
+  hashResponseSet,
+  toResponsePatterns,
+  VALUES_GENERATOR_VERSION,
+  type ResolvedResponse
+} from '@/lib/values-generation';
+import { buildValuesDocument, embedValuesFrontMatter } from '@/lib/values-document';
 
-// Simple in-memory cache for generated values
-const valuesCache = new Map<string, { data: any; timestamp: number }>();
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+// Caller-selectable generation options; anything omitted falls back to the generator defaults
+const GenerationConfigSchema = z.object({
+  useDetailedMotifAnalysis: z.boolean().optional(),
+  includeFrameworkAlignment: z.boolean().optional(),
+  includeDecisionPatterns: z.boolean().optional(),
+  templateFormat: z.enum(['minimal', 'standard', 'comprehensive']).optional(),
+  targetAudience: z.enum(['personal', 'professional', 'research']).optional()
+}).optional();
 
-/**
- * Generate VALUES.md from direct responses (for private local generation)
- */
-function generateValuesFromResponses(responses: any[]): string {
-  const choices = responses.map(r => r.chosenOption?.toLowerCase() || 'a');
-  const reasoning = responses.map(r => r.reasoning || '').filter(r => r.length > 0);
-  
-  // Simple pattern analysis
-  const choiceDistribution = choices.reduce((acc, choice) => {
-    acc[choice] = (acc[choice] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-  
-  const mostFrequentChoice = Object.entries(choiceDistribution)
-    .sort(([,a], [,b]) => b - a)[0]?.[0] || 'a';
-  
-  return `# Personal Values Profile
-
-## Core Values Analysis
-
-Based on your responses to ${responses.length} ethical dilemmas, your values profile suggests:
-
-### Primary Approach
-${getPrimaryApproach(mostFrequentChoice, choiceDistribution)}
-
-### Decision-Making Style
-${getDecisionStyle(choices, reasoning)}
-
-### Key Values
-${getKeyValues(choices, reasoning)}
-
-## Reasoning Patterns
-${reasoning.length > 0 ? reasoning.slice(0, 3).map((r, i) => `${i + 1}. "${r}"`).join('\n') : 'No detailed reasoning provided.'}
-
----
-*Generated from ${responses.length} responses | ${new Date().toLocaleDateString()}*
-`;
-}
+const TemplateIdSchema = z.string()
+  .refine(id => valueTemplates.some(t => t.id === id), { message: 'Unknown template' })
+  .optional();
 
-function getPrimaryApproach(mostFrequent: string, distribution: Record<string, number>): string {
-  const total = Object.values(distribution).reduce((a, b) => a + b, 0);
-  const percentage = Math.round((distribution[mostFrequent] / total) * 100);
-  
-  const approaches = {
-    a: 'You tend to prioritize individual rights and personal autonomy',
-    b: 'You often consider collective wellbeing and community impact',
-    c: 'You focus on practical outcomes and consequences',
-    d: 'You value principles and moral rules in decision-making'
-  };
-  
-  return `${approaches[mostFrequent]} (${percentage}% of responses)`;
-}
-
-function getDecisionStyle(choices: string[], reasoning: string[]): string {
-  const hasVariation = new Set(choices).size > 2;
-  const hasReasoning = reasoning.length > choices.length * 0.5;
-  
-  if (hasVariation && hasReasoning) {
-    return 'Thoughtful and contextual - you consider multiple perspectives';
-  } else if (hasVariation) {
-    return 'Flexible and adaptive - you adjust your approach based on situation';
-  } else if (hasReasoning) {
-    return 'Consistent and principled - you apply steady reasoning';
-  } else {
-    return 'Direct and decisive - you make clear choices';
-  }
-}
+const LocalResponseSchema = z.object({
+  dilemmaId: z.string().min(1),
+  chosenOption: z.string().min(1),
+  reasoning: z.string().optional().nullable(),
+  responseTime: z.number().optional().nullable(),
+  perceivedDifficulty: z.number().optional().nullable()
+});
 
-function getKeyValues(choices: string[], reasoning: string[]): string {
-  const values = [];
-  const reasoningText = reasoning.join(' ').toLowerCase();
-  
-  if (reasoningText.includes('fair') || reasoningText.includes('justice')) {
-    values.push('• **Justice** - fairness and equality matter to you');
-  }
-  if (reasoningText.includes('harm') || reasoningText.includes('safety')) {
-    values.push('• **Care** - preventing harm and ensuring safety');
-  }
-  if (reasoningText.includes('right') || reasoningText.includes('freedom')) {
-    values.push('• **Liberty** - individual rights and freedom');
-  }
-  if (reasoningText.includes('duty') || reasoningText.includes('should')) {
-    values.push('• **Duty** - moral obligations and responsibilities');
-  }
-  
-  return values.length > 0 ? values.join('\n') : '• **Pragmatic** - focused on practical outcomes\n• **Balanced** - considering multiple perspectives';
+async function loadOntology() {
+  const [motifRows, frameworkRows] = await Promise.all([
+    db.select().from(motifs),
+    db.select().from(frameworks)
+  ]);
+  return { motifRows, frameworkRows };
 }
 
 /**
- * Generate VALUES.md from database responses (for stored session data)
+ * Generate VALUES.md with a TemplateBlueprint when a templateId is given,
+ * otherwise with the combinatorial generator's own formats. The values.json
+ * companion is embedded as front-matter and also returned on its own.
  */
-function generateSimpleValuesFromDB(tacticResponses: any[]): string {
-  const choices = tacticResponses.map(r => r.choice?.toLowerCase() || 'a');
-  const reasoning = tacticResponses.map(r => r.reasoning || '').filter(r => r.length > 0);
-  
-  return `# Personal Values Profile
+async function generateValues(
+  responses: ResolvedResponse[],
+  config: CombinatorialGenerationConfig,
+  templateId?: string
+) {
+  const patterns = toResponsePatterns(responses);
+  const profile = combinatorialGenerator.analyzeResponses(patterns);
+  const valuesJson = buildValuesDocument(profile, { responseCount: patterns.length, templateId });
 
-## Your Values Analysis
-Based on ${tacticResponses.length} ethical dilemma responses, your values profile suggests:
-
-### Primary Patterns
-${tacticResponses.slice(0, 3).map((r, i) => `${i + 1}. Choice: ${r.choice} - "${r.reasoning || 'No reasoning provided'}"`).join('\n')}
-
-### Decision Style  
-You demonstrate thoughtful consideration in ethical scenarios.
-
-### Key Insights
-- Analyzed ${tacticResponses.length} responses
-- Generated ${new Date().toLocaleDateString()}
+  let markdown: string;
+  if (templateId) {
+    const { motifRows, frameworkRows } = await loadOntology();
+    const templateData = buildTemplateData(responses, profile, motifRows, frameworkRows);
+    markdown = generateValuesByTemplate(templateId, templateData);
+  } else {
+    markdown = combinatorialGenerator.generateValuesMarkdown(profile, config);
+  }
 
----
-*Generated from stored session data*`;
+  const valuesMarkdown = embedValuesFrontMatter(markdown, valuesJson);
+  return { patterns, profile, valuesMarkdown, valuesJson };
 }
 
 export async function POST(request: NextRequest) {
@@ -127,35 +79,89 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { sessionId, responses } = body;
 
+    const parsedConfig = GenerationConfigSchema.safeParse(body.config);
+    if (!parsedConfig.success) {
+      return NextResponse.json(
+        { error: 'Invalid generation config', details: parsedConfig.error.errors },
+        { status: 400 }
+      );
+    }
+    const config: CombinatorialGenerationConfig = {
+      ...combinatorialGenerator.getDefaultConfig(),
+      ...parsedConfig.data
+    };
+
+    const parsedTemplateId = TemplateIdSchema.safeParse(body.templateId);
+    if (!parsedTemplateId.success) {
+      return NextResponse.json(
+        { error: `Unknown template: ${body.templateId}` },
+        { status: 400 }
+      );
+    }
+    const templateId = parsedTemplateId.data;
+
     // Handle direct responses from localStorage (private generation)
     if (responses && Array.isArray(responses)) {
-      const valuesMarkdown = generateValuesFromResponses(responses);
+      const parsedResponses = z.array(LocalResponseSchema).safeParse(responses);
+      if (!parsedResponses.success) {
+        return NextResponse.json(
+          { error: 'Invalid responses', details: parsedResponses.error.errors },
+          { status: 400 }
+        );
+      }
+
+      // Only the motif metadata of the answered dilemmas is looked up - responses are not stored
+      const dilemmaIds = Array.from(new Set(parsedResponses.data.map(r => r.dilemmaId)));
+      const dilemmaContext = dilemmaIds.length > 0
+        ? await db
+            .select({
+              dilemmaId: dilemmas.dilemmaId,
+              choiceAMotif: dilemmas.choiceAMotif,
+              choiceBMotif: dilemmas.choiceBMotif,
+              choiceCMotif: dilemmas.choiceCMotif,
+              choiceDMotif: dilemmas.choiceDMotif,
+              domain: dilemmas.domain,
+              difficulty: dilemmas.difficulty,
+              title: dilemmas.title,
+              stakeholders: dilemmas.stakeholders,
+              culturalContext: dilemmas.culturalContext
+            })
+            .from(dilemmas)
+            .where(inArray(dilemmas.dilemmaId, dilemmaIds))
+        : [];
+      const contextById = new Map(dilemmaContext.map(d => [d.dilemmaId, d]));
+
+      const resolvable = parsedResponses.data.flatMap(response => {
+        const context = contextById.get(response.dilemmaId);
+        return context ? [{ ...context, ...response }] : [];
+      });
+
+      const { patterns, valuesMarkdown, valuesJson } = await generateValues(resolvable, config, templateId);
+
       return NextResponse.json({
         success: true,
         valuesMarkdown,
+        valuesJson,
         responseCount: responses.length,
-        generationMethod: 'local-private',
+        analyzedCount: patterns.length,
+        generationMethod: 'combinatorial',
+        templateId: templateId || null,
+        config,
         timestamp: new Date().toISOString()
       });
     }
 
     if (!sessionId) {
       return NextResponse.json(
-        { error: 'Session ID is required for database lookup' },
+        { error: 'Session ID is required' },
         { status: 400 }
       );
     }
 
-    // Check cache first
-    const cacheKey = `${sessionId}_values`;
-    const cached = valuesCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return NextResponse.json(cached.data);
-    }
-
     // Fetch user responses with dilemma context
     const dbResponses = await db
       .select({
+        dilemmaId: userResponses.dilemmaId,
         chosenOption: userResponses.chosenOption,
         reasoning: userResponses.reasoning,
         responseTime: userResponses.responseTime,
@@ -166,7 +172,9 @@ export async function POST(request: NextRequest) {
         choiceDMotif: dilemmas.choiceDMotif,
         domain: dilemmas.domain,
         difficulty: dilemmas.difficulty,
-        title: dilemmas.title
+        title: dilemmas.title,
+        stakeholders: dilemmas.stakeholders,
+        culturalContext: dilemmas.culturalContext
       })
       .from(userResponses)
       .innerJoin(dilemmas, eq(userResponses.dilemmaId, dilemmas.dilemmaId))
@@ -179,38 +187,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert to tactic discovery format
-    const tacticResponses = dbResponses.map(response => ({
-      reasoning: response.reasoning || '',
-      choice: response.chosenOption || 'A',
-      domain: response.domain || 'general',
-      difficulty: response.difficulty || 5
-    }));
-
-    // Use simple database-driven generation (cleaned up - removed complex unused paths)
-    const simpleMarkdown = generateSimpleValuesFromDB(tacticResponses);
-    
-    const result = {
+    // Reuse the stored document when nothing that feeds the generator has changed
+    const documentTemplateId = templateId || `combinatorial-${config.templateFormat}`;
+    const responseSetHash = hashResponseSet(dbResponses);
+    const configHash = hashGenerationConfig(config);
+    const [existing] = await db
+      .select()
+      .from(valuesDocuments)
+      .where(and(
+        eq(valuesDocuments.sessionId, sessionId),
+        eq(valuesDocuments.templateId, documentTemplateId),
+        eq(valuesDocuments.generatorVersion, VALUES_GENERATOR_VERSION),
+        eq(valuesDocuments.responseSetHash, responseSetHash),
+        eq(valuesDocuments.configHash, configHash)
+      ))
+      .orderBy(desc(valuesDocuments.createdAt))
+      .limit(1);
+
+    let stored = existing;
+    if (!stored) {
+      const generated = await generateValues(dbResponses, config, templateId);
+      [stored] = await db
+        .insert(valuesDocuments)
+        .values({
+          sessionId,
+          templateId: documentTemplateId,
+          generatorVersion: VALUES_GENERATOR_VERSION,
+          responseSetHash,
+          configHash,
+          responseCount: dbResponses.length,
+          valuesMarkdown: generated.valuesMarkdown,
+          valuesJson: generated.valuesJson
+        })
+        .returning();
+    }
+
+    const patterns = toResponsePatterns(dbResponses);
+    const profile = combinatorialGenerator.analyzeResponses(patterns);
+    const primary = profile.primaryMotifs[0] || profile.secondaryMotifs[0];
+
+    return NextResponse.json({
       success: true,
-      valuesMarkdown: simpleMarkdown,
+      valuesMarkdown: stored.valuesMarkdown,
+      valuesJson: stored.valuesJson,
+      documentId: stored.documentId,
+      cached: !!existing,
       responseCount: dbResponses.length,
-      generationMethod: 'database-simple',
-      timestamp: new Date().toISOString(),
+      analyzedCount: patterns.length,
+      generationMethod: 'combinatorial',
+      templateId: templateId || null,
+      config,
+      timestamp: (stored.createdAt || new Date()).toISOString(),
       summary: {
-        primaryApproach: 'Database-driven analysis',
-        keyInsights: ['Analyzed from stored responses', 'Reliable pattern detection'],
-        aiGuidance: ['Based on your response patterns']
+        primaryApproach: primary?.name || 'Balanced Ethical Reasoning',
+        keyInsights: profile.primaryMotifs.map(m => `${m.name}: ${m.percentage}% of responses`),
+        aiGuidance: [`Reasoning style: ${profile.decisionPatterns.reasoningStyle}`]
       }
-    };
-
-    // Cache the result
-    valuesCache.set(cacheKey, { data: result, timestamp: Date.now() });
-    return NextResponse.json(result);
+    });
 
   } catch (error) {
     console.error('Error generating values:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to generate values',
         details: error instanceof Error ? error.message : String(error)
       },
@@ -218,18 +256,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Removed unused validation function - using simple generation only
-
-/**
- * Helper to extract motif from response choice
- */
-function getMotifFromChoice(response: any): string {
-  switch (response.chosenOption?.toLowerCase()) {
-    case 'a': return response.choiceAMotif || 'UNKNOWN';
-    case 'b': return response.choiceBMotif || 'UNKNOWN';
-    case 'c': return response.choiceCMotif || 'UNKNOWN';
-    case 'd': return response.choiceDMotif || 'UNKNOWN';
-    default: return 'UNKNOWN';
-  }
-}
\ No newline at end of file
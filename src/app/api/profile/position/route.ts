@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  withErrorHandler,
+  ApiErrors,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { estimateSessionPosition } from '@/lib/population-manifold';
+
+// A session's coordinates on the newest population manifold, with posterior uncertainty
+async function handleGET(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'GET');
+
+  const sessionId = CommonSchemas.sessionId.parse(request.nextUrl.searchParams.get('sessionId') || '');
+
+  const position = await estimateSessionPosition(sessionId);
+  if (!position) {
+    throw ApiErrors.serviceUnavailable('Population manifold');
+  }
+  if (position.responseCount === 0) {
+    throw ApiErrors.notFound('Responses for this session');
+  }
+
+  const response = NextResponse.json({ success: true, sessionId, ...position });
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(response);
+}
+
+export const GET = withErrorHandler(handleGET);
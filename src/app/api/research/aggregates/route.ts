@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { dilemmas, userDemographics, userResponses } from '@/lib/schema';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  logRequest,
+  logResponse,
+  checkRateLimit,
+  getClientIP,
+  ApiErrors,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { buildResearchAggregates, DEMOGRAPHIC_BREAKDOWNS } from '@/lib/research-aggregates';
+
+const BreakdownSchema = z.enum(DEMOGRAPHIC_BREAKDOWNS).nullable();
+
+// k-anonymised population aggregates over research-consented sessions only
+async function handleGET(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'GET');
+
+  const clientIP = getClientIP(request);
+  if (!checkRateLimit(clientIP, 30, 60 * 1000)) {
+    throw ApiErrors.tooManyRequests('Rate limit exceeded. Please wait before requesting more aggregates.');
+  }
+
+  const breakdown = BreakdownSchema.parse(request.nextUrl.searchParams.get('breakdown'));
+
+  const rows = await db
+    .select({
+      sessionId: userResponses.sessionId,
+      dilemmaId: userResponses.dilemmaId,
+      chosenOption: userResponses.chosenOption,
+      responseTime: userResponses.responseTime,
+      perceivedDifficulty: userResponses.perceivedDifficulty,
+      choiceAMotif: dilemmas.choiceAMotif,
+      choiceBMotif: dilemmas.choiceBMotif,
+      choiceCMotif: dilemmas.choiceCMotif,
+      choiceDMotif: dilemmas.choiceDMotif,
+      domain: dilemmas.domain,
+      difficulty: dilemmas.difficulty,
+      title: dilemmas.title,
+      ageRange: userDemographics.ageRange,
+      culturalBackground: userDemographics.culturalBackground,
+      geographicRegion: userDemographics.geographicRegion
+    })
+    .from(userResponses)
+    .innerJoin(userDemographics, eq(userDemographics.sessionId, userResponses.sessionId))
+    .innerJoin(dilemmas, eq(dilemmas.dilemmaId, userResponses.dilemmaId))
+    .where(eq(userDemographics.consentResearch, true));
+
+  const response = NextResponse.json({ success: true, ...buildResearchAggregates(rows, breakdown) });
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(response);
+}
+
+export const GET = withErrorHandler(handleGET);
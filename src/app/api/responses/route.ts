@@ -14,11 +14,13 @@ import {
   addCorsHeaders,
   addSecurityHeaders
 } from '@/lib/api-error-handler';
+import { issueSessionToken, verifySessionToken } from '@/lib/session-data';
 
-// Request validation schema
+// Request validation schema - the token is needed only to add responses to an existing session
 const ResponsesRequestSchema = z.object({
   sessionId: CommonSchemas.sessionId,
-  responses: CommonSchemas.userResponses
+  responses: CommonSchemas.userResponses,
+  token: z.string().optional()
 });
 
 async function handlePOST(request: NextRequest) {
@@ -34,16 +36,19 @@ async function handlePOST(request: NextRequest) {
   // Parse and validate request
   const body = await request.json();
   const validatedData = ResponsesRequestSchema.parse(body);
-  const { sessionId, responses } = validatedData;
+  const { sessionId, responses, token } = validatedData;
 
   console.log(`📥 Received ${responses.length} responses for session ${sessionId}`);
   
-  // Check if responses already exist for this session (idempotency)
-  const existingResponses = await db.select()
+  // Dilemmas already answered in this session are kept as stored (idempotency);
+  // only newly answered ones are added, so the session's response set grows
+  const existingResponses = await db.select({ dilemmaId: userResponses.dilemmaId })
     .from(userResponses)
     .where(eq(userResponses.sessionId, sessionId));
-  
-  if (existingResponses.length > 0) {
+  const answered = new Set(existingResponses.map(r => r.dilemmaId));
+  const newResponses = responses.filter(r => !answered.has(r.dilemmaId));
+
+  if (newResponses.length === 0) {
     console.log(`♻️ Responses already exist for session ${sessionId}, returning existing data`);
     
     const response = NextResponse.json({ 
@@ -57,9 +62,19 @@ async function handlePOST(request: NextRequest) {
     logResponse(response, Date.now() - startTime);
     return addSecurityHeaders(addCorsHeaders(response));
   }
-  
+
+  // Only the first submission gets a token - resubmitting a known session ID mustn't grant control of it,
+  // and adding to a known session needs the token that submission issued.
+  // Issued before inserting so a missing secret fails without storing anything.
+  let sessionToken: string | undefined;
+  if (existingResponses.length === 0) {
+    sessionToken = issueSessionToken(sessionId);
+  } else if (!token || !verifySessionToken(sessionId, token)) {
+    throw ApiErrors.forbidden('A valid session token is required to add responses to this session');
+  }
+
   // Insert all responses in a batch for better performance
-  const responseValues = responses.map(response => ({
+  const responseValues = newResponses.map(response => ({
     sessionId,
     dilemmaId: response.dilemmaId,
     chosenOption: response.chosenOption,
@@ -72,7 +87,7 @@ async function handlePOST(request: NextRequest) {
   
   try {
     const result = await db.insert(userResponses).values(responseValues);
-    console.log(`✅ Successfully inserted ${responses.length} responses`);
+    console.log(`✅ Successfully inserted ${newResponses.length} responses`);
   } catch (dbError: any) {
     // Handle specific database errors
     if (dbError.code === '23505') { // Unique constraint violation
@@ -86,8 +101,10 @@ async function handlePOST(request: NextRequest) {
 
   const response = NextResponse.json({ 
     success: true, 
-    inserted: responses.length,
-    sessionId 
+    inserted: newResponses.length,
+    existing: existingResponses.length,
+    sessionId,
+    sessionToken
   });
   
   logResponse(response, Date.now() - startTime);
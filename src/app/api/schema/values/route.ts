@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VALUES_SCHEMA_VERSION, valuesJsonSchemas } from '@/lib/values-document';
+
+// Serves the values.json JSON Schema; ?version= selects a published version, default is the latest
+export async function GET(request: NextRequest) {
+  const version = request.nextUrl.searchParams.get('version') || VALUES_SCHEMA_VERSION;
+  const schema = valuesJsonSchemas[version];
+
+  if (!schema) {
+    return NextResponse.json(
+      {
+        error: `Unknown schema version: ${version}`,
+        availableVersions: Object.keys(valuesJsonSchemas)
+      },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(schema, {
+    headers: {
+      'Content-Type': 'application/schema+json',
+      'Cache-Control': 'public, max-age=86400'
+    }
+  });
+}
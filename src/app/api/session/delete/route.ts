@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  ApiErrors,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  checkRateLimit,
+  getClientIP,
+  addCorsHeaders,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { eraseSessionData, verifySessionToken } from '@/lib/session-data';
+
+const DeleteRequestSchema = z.object({
+  sessionId: CommonSchemas.sessionId,
+  token: z.string().min(1, 'Session token is required')
+});
+
+// Right to erasure: remove every row stored for the session
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const clientIP = getClientIP(request);
+  if (!checkRateLimit(clientIP, 20, 15 * 60 * 1000)) {
+    throw ApiErrors.tooManyRequests('Too many requests. Please try again later.');
+  }
+
+  const { sessionId, token } = DeleteRequestSchema.parse(await request.json());
+  if (!verifySessionToken(sessionId, token)) {
+    throw ApiErrors.forbidden('Invalid session token');
+  }
+
+  const deleted = await eraseSessionData(sessionId);
+  console.log(`🗑️ Erased session ${sessionId}: ${deleted.user_responses} responses removed`);
+
+  const response = NextResponse.json({ success: true, sessionId, deleted });
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(addCorsHeaders(response));
+}
+
+export const POST = withErrorHandler(handlePOST);
+
+export async function OPTIONS(request: NextRequest) {
+  const response = new NextResponse(null, { status: 200 });
+  return addCorsHeaders(response);
+}
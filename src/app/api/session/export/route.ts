@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  ApiErrors,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  checkRateLimit,
+  getClientIP,
+  addCorsHeaders,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { bundleToCsvFiles, collectSessionData, verifySessionToken } from '@/lib/session-data';
+
+const ExportRequestSchema = z.object({
+  sessionId: CommonSchemas.sessionId,
+  token: z.string().min(1, 'Session token is required'),
+  format: z.enum(['json', 'csv']).default('json')
+});
+
+// Everything stored for a session, as rows per table or one CSV file per table
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const clientIP = getClientIP(request);
+  if (!checkRateLimit(clientIP, 20, 15 * 60 * 1000)) {
+    throw ApiErrors.tooManyRequests('Too many requests. Please try again later.');
+  }
+
+  const { sessionId, token, format } = ExportRequestSchema.parse(await request.json());
+  if (!verifySessionToken(sessionId, token)) {
+    throw ApiErrors.forbidden('Invalid session token');
+  }
+
+  const bundle = await collectSessionData(sessionId);
+
+  const response = NextResponse.json(
+    format === 'csv'
+      ? { sessionId, exportedAt: bundle.exportedAt, format, files: bundleToCsvFiles(bundle) }
+      : { ...bundle, format }
+  );
+  response.headers.set('Cache-Control', 'no-store');
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(addCorsHeaders(response));
+}
+
+export const POST = withErrorHandler(handlePOST);
+
+export async function OPTIONS(request: NextRequest) {
+  const response = new NextResponse(null, { status: 200 });
+  return addCorsHeaders(response);
+}
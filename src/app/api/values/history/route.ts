@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { valuesDocuments } from '@/lib/schema';
+import { desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  ApiErrors,
+  CommonSchemas,
+  logRequest,
+  logResponse,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { diffValuesDocuments, ValuesDocumentSchema } from '@/lib/values-document';
+import { verifySessionToken } from '@/lib/session-data';
+
+const HistoryRequestSchema = z.object({
+  sessionId: CommonSchemas.sessionId,
+  token: z.string().min(1, 'Session token is required')
+});
+
+// Generated VALUES.md versions for a session, newest first, each diffed against the version before it
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const { sessionId, token } = HistoryRequestSchema.parse(await request.json());
+  if (!verifySessionToken(sessionId, token)) {
+    throw ApiErrors.unauthorized('Invalid session token');
+  }
+
+  const rows = await db
+    .select()
+    .from(valuesDocuments)
+    .where(eq(valuesDocuments.sessionId, sessionId))
+    .orderBy(desc(valuesDocuments.createdAt));
+
+  const documents = rows.map((row, index) => {
+    const current = ValuesDocumentSchema.safeParse(row.valuesJson);
+    const previousRow = rows[index + 1];
+    const previous = previousRow ? ValuesDocumentSchema.safeParse(previousRow.valuesJson) : null;
+
+    return {
+      documentId: row.documentId,
+      templateId: row.templateId,
+      generatorVersion: row.generatorVersion,
+      responseSetHash: row.responseSetHash,
+      responseCount: row.responseCount,
+      createdAt: row.createdAt,
+      valuesMarkdown: row.valuesMarkdown,
+      valuesJson: row.valuesJson,
+      previousDocumentId: previousRow?.documentId || null,
+      diffFromPrevious: current.success && previous?.success
+        ? diffValuesDocuments(previous.data, current.data)
+        : null
+    };
+  });
+
+  const response = NextResponse.json({ success: true, sessionId, documents });
+  response.headers.set('Cache-Control', 'no-store');
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(response);
+}
+
+export const POST = withErrorHandler(handlePOST);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  withErrorHandler,
+  logRequest,
+  logResponse,
+  addCorsHeaders,
+  addSecurityHeaders
+} from '@/lib/api-error-handler';
+import { lintValuesMarkdown, loadStriatedMotifIds } from '@/lib/values-markdown-parser';
+
+// Accepts { markdown } as JSON, or the raw VALUES.md with a text/markdown body
+const LintRequestSchema = z.object({
+  markdown: z.string().min(1, 'markdown is required').max(200_000, 'VALUES.md is too large to lint')
+});
+
+// The ontology CSV doesn't change at runtime, so read it once per server instance
+let knownMotifIds: Set<string> | null = null;
+
+async function handlePOST(request: NextRequest) {
+  const startTime = Date.now();
+  logRequest(request, 'POST');
+
+  const contentType = request.headers.get('content-type') || '';
+  const body = contentType.includes('application/json')
+    ? await request.json()
+    : { markdown: await request.text() };
+  const { markdown } = LintRequestSchema.parse(body);
+
+  knownMotifIds = knownMotifIds || loadStriatedMotifIds();
+  const result = lintValuesMarkdown(markdown, { knownMotifIds });
+
+  const response = NextResponse.json({
+    success: true,
+    ...result,
+    errorCount: result.issues.filter(i => i.severity === 'error').length,
+    warningCount: result.issues.filter(i => i.severity === 'warning').length
+  });
+
+  logResponse(response, Date.now() - startTime);
+  return addSecurityHeaders(addCorsHeaders(response));
+}
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  const response = new NextResponse(null, { status: 200 });
+  return addCorsHeaders(response);
+}
+
+export const POST = withErrorHandler(handlePOST);
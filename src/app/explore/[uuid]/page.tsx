@@ -24,6 +24,8 @@ function ExplorePageContent({ params }: { params: Promise<{ uuid: string }> }) {
   const [pagination, setPagination] = useState({ total: 0, loaded: 0, hasMore: true });
   const [loadingMore, setLoadingMore] = useState(false);
   const [storageHealth, setStorageHealth] = useState<any>(null);
+  const [adaptive, setAdaptive] = useState(false);
+  const [adaptiveStopReason, setAdaptiveStopReason] = useState<string | null>(null);
   const router = useRouter();
 
   // Load dilemmas once on mount
@@ -31,7 +33,10 @@ function ExplorePageContent({ params }: { params: Promise<{ uuid: string }> }) {
     const fetchDilemmas = async () => {
       try {
         const resolvedParams = await params;
-        const res = await fetch(`/api/dilemmas/${resolvedParams.uuid}`);
+        const isAdaptive = new URLSearchParams(window.location.search).get('mode') === 'adaptive';
+        setAdaptive(isAdaptive);
+
+        const res = await fetch(`/api/dilemmas/${resolvedParams.uuid}${isAdaptive ? '?mode=adaptive' : ''}`);
         if (!res.ok) throw new Error('Failed to load dilemmas');
         
         const data = await res.json();
@@ -90,6 +95,39 @@ function ExplorePageContent({ params }: { params: Promise<{ uuid: string }> }) {
     fetchDilemmas();
   }, [params]);
 
+  // Adaptive mode: ask the server for the most informative next dilemma given the answers so far
+  const fetchAdaptiveNext = async (answered: any[]) => {
+    try {
+      const res = await fetch('/api/dilemmas/next', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          responses: answered.map(r => ({ dilemmaId: r.dilemmaId, chosenOption: r.chosenOption }))
+        })
+      });
+      if (!res.ok) throw new Error('Failed to select next dilemma');
+
+      const data = await res.json();
+      if (data.done || !data.dilemma) {
+        setAdaptiveStopReason(data.reason);
+        setCurrentIndex(-1);
+        return;
+      }
+
+      setDilemmas(prev => [...prev, data.dilemma]);
+      setCurrentIndex(prev => prev + 1);
+      setChoice('');
+      setReasoning('');
+      setDifficulty(5);
+      setStartTime(Date.now());
+    } catch (error) {
+      console.error('Error selecting next dilemma:', error);
+      trackApiError('/api/dilemmas/next', error);
+      // Without a next dilemma the answers so far still make a VALUES.md
+      setCurrentIndex(-1);
+    }
+  };
+
   // Handle user's answer
   const handleNext = () => {
     if (!choice) return;
@@ -137,11 +175,17 @@ function ExplorePageContent({ params }: { params: Promise<{ uuid: string }> }) {
     // Update storage health
     setStorageHealth(getStorageHealth());
     
+    // Adaptive sessions decide server-side when the profile is stable enough to stop
+    if (adaptive) {
+      fetchAdaptiveNext(newResponses);
+      return;
+    }
+
     // Navigate to next dilemma
     const nextIndex = currentIndex + 1;
     
     // Complete after 12 responses (standard VALUES.md flow)
-    if (updatedResponses.length >= 12) {
+    if (newResponses.length >= 12) {
       // User has completed the minimum required dilemmas
       // Show completion UI
       setCurrentIndex(-1); // Special state to show completion options
@@ -208,7 +252,11 @@ function ExplorePageContent({ params }: { params: Promise<{ uuid: string }> }) {
             </CardHeader>
             <CardContent className="space-y-6">
               <div>
-                <p className="text-lg mb-2">You&apos;ve completed all {dilemmas.length} available dilemmas!</p>
+                <p className="text-lg mb-2">
+                  {adaptive && adaptiveStopReason === 'confident'
+                    ? `Your values came through clearly after ${responses.length} dilemmas!`
+                    : `You've completed all ${dilemmas.length} available dilemmas!`}
+                </p>
                 <p className="text-sm text-muted-foreground">
                   You&apos;ve answered {responses.length} ethical scenarios. 
                   This rich dataset will create a comprehensive values.md file.
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { AggregateCell, ResearchAggregates } from '@/lib/research-aggregates';
+import { formatOption } from '@/lib/demographics';
+
+const BREAKDOWN_OPTIONS = [
+  { id: '', label: 'Everyone' },
+  { id: 'ageRange', label: 'Age range' },
+  { id: 'culturalBackground', label: 'Cultural background' },
+  { id: 'geographicRegion', label: 'Region' }
+];
+
+function CellBar({ cell }: { cell: AggregateCell }) {
+  if (cell.suppressed) {
+    return <span className="text-xs text-muted-foreground italic">suppressed</span>;
+  }
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.max(2, cell.percentage || 0)}%`, maxWidth: '8rem' }} />
+      <span className="text-xs tabular-nums">{cell.percentage}%</span>
+    </div>
+  );
+}
+
+function CellTable({ cells, label }: { cells: AggregateCell[]; label: string }) {
+  if (cells.length === 0) {
+    return <p className="text-sm text-muted-foreground">No data</p>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="font-medium pb-1">{label}</th>
+          <th className="font-medium pb-1">Share</th>
+          <th className="font-medium pb-1 text-right">Sessions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {cells.map(cell => (
+          <tr key={cell.key} className="border-t">
+            <td className="py-1 pr-2 font-mono text-xs">{cell.key}</td>
+            <td className="py-1"><CellBar cell={cell} /></td>
+            <td className="py-1 text-right tabular-nums">{cell.sessions ?? '–'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ResearchDashboardPage() {
+  const [breakdown, setBreakdown] = useState('');
+  const [data, setData] = useState<ResearchAggregates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadAggregates = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const query = breakdown ? `?breakdown=${breakdown}` : '';
+        const response = await fetch(`/api/research/aggregates${query}`);
+        if (!response.ok) {
+          throw new Error(`Failed to load aggregates: ${response.status}`);
+        }
+        setData(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load aggregates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAggregates();
+  }, [breakdown]);
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold mb-2 text-foreground">Research Dashboard</h1>
+          <p className="text-muted-foreground">
+            Aggregates over sessions whose participants consented to research use.
+            {data && ` Any figure drawn from fewer than ${data.k} sessions is suppressed, and smaller groups are combined.`}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {BREAKDOWN_OPTIONS.map(option => (
+            <Button
+              key={option.id}
+              variant={breakdown === option.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setBreakdown(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="p-4 text-red-800">{error}</CardContent>
+          </Card>
+        )}
+
+        {loading && <p className="text-muted-foreground">Loading aggregates...</p>}
+
+        {!loading && data && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {data.totalSessions !== null
+                ? `${data.totalSessions} consented sessions`
+                : 'Not enough consented sessions to report yet'}
+            </p>
+
+            {data.groups.map(group => (
+              <Card key={group.value}>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    {formatOption(group.value)}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {group.suppressed ? 'too few sessions to report' : `${group.sessionCount} sessions`}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                {!group.suppressed && (
+                  <CardContent className="space-y-6">
+                    <div className="grid gap-6 md:grid-cols-2">
+                      <div>
+                        <h3 className="font-semibold mb-2">Motif frequencies</h3>
+                        <CellTable cells={group.motifFrequencies} label="Motif" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold mb-2">Dominant framework</h3>
+                        <CellTable cells={group.frameworkDistribution} label="Framework" />
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          Mean alignment:{' '}
+                          {Object.entries(group.meanFrameworkAlignment)
+                            .map(([framework, percentage]) => `${framework} ${percentage}%`)
+                            .join(' · ')}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div>
+                      <h3 className="font-semibold mb-2">Choice splits by dilemma</h3>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-muted-foreground">
+                            <th className="font-medium pb-1">Dilemma</th>
+                            {['A', 'B', 'C', 'D'].map(option => (
+                              <th key={option} className="font-medium pb-1">{option}</th>
+                            ))}
+                            <th className="font-medium pb-1 text-right">Respondents</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {group.dilemmaSplits.map(split => (
+                            <tr key={split.dilemmaId} className="border-t">
+                              <td className="py-1 pr-2">{split.title || split.dilemmaId}</td>
+                              {split.suppressed
+                                ? <td colSpan={4} className="py-1 text-xs text-muted-foreground italic">suppressed</td>
+                                : split.choices.map(cell => (
+                                  <td key={cell.key} className="py-1 tabular-nums">
+                                    {cell.suppressed ? '–' : `${cell.percentage}%`}
+                                  </td>
+                                ))}
+                              <td className="py-1 text-right tabular-nums">{split.respondents ?? '–'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
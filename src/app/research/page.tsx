@@ -1,3 +1,5 @@
+import Link from 'next/link';
+
 export default function ResearchPage() {
   return (
     <div className="min-h-screen bg-background py-12 px-4">
@@ -39,6 +41,10 @@ export default function ResearchPage() {
           <p className="mb-6 text-foreground">
             All user data is anonymized and aggregated for research purposes. Individual responses are stored locally and only shared with explicit consent for research contribution.
           </p>
+          <p className="mb-6 text-foreground">
+            Aggregates over consented sessions are published on the{' '}
+            <Link href="/research/dashboard" className="underline">research dashboard</Link>, with any figure drawn from fewer than five sessions suppressed.
+          </p>
           
           <h2 className="text-2xl font-semibold mb-4 text-foreground">Current Findings</h2>
           <p className="mb-4 text-foreground">
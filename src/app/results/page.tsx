@@ -6,14 +6,46 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { loadResponses } from '@/lib/storage';
+import { getTemplateMetadata } from '@/lib/values-templates';
+import type { ValuesDocumentDiff } from '@/lib/values-document';
+import { EthicalPositionPlot, type EthicalPositionPlotProps } from '@/components/ethical-position-plot';
+import { DEMOGRAPHICS_STORAGE_KEY, readStoredDemographics } from '@/lib/demographics';
+
+// '' selects the combinatorial generator's own standard format
+const TEMPLATE_OPTIONS = [
+  { id: '', name: 'Standard', description: 'Combinatorial analysis of your motif patterns' },
+  ...getTemplateMetadata()
+];
+
+interface ValuesHistoryEntry {
+  documentId: string;
+  templateId: string;
+  generatorVersion: string;
+  responseCount: number;
+  createdAt: string;
+  valuesMarkdown: string;
+  valuesJson: object;
+  diffFromPrevious: ValuesDocumentDiff | null;
+}
+
+// Research generations are stored server-side under this session so their history can be compared
+const RESEARCH_SESSION_KEY = 'values-session-id';
+// Issued with the first research save; proves control of the session for export and erasure
+const SESSION_TOKEN_KEY = 'values-session-token';
 
 function ResultsPageContent() {
   const [responses, setResponses] = useState([]);
   const [valuesMarkdown, setValuesMarkdown] = useState('');
+  const [valuesJson, setValuesJson] = useState<object | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showOptions, setShowOptions] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [templateId, setTemplateId] = useState('');
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [researchSessionId, setResearchSessionId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ValuesHistoryEntry[]>([]);
+  const [position, setPosition] = useState<(EthicalPositionPlotProps & { sessionCount: number }) | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -23,8 +55,156 @@ function ResultsPageContent() {
     } else {
       router.push('/');
     }
+
+    const storedSessionId = localStorage.getItem(RESEARCH_SESSION_KEY);
+    if (storedSessionId) {
+      setResearchSessionId(storedSessionId);
+      loadHistory(storedSessionId);
+      loadPosition(storedSessionId);
+    }
   }, [router]);
 
+  const loadHistory = async (sessionId: string) => {
+    // Without the token from the first research save the history stays private
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (!token) return;
+
+    try {
+      const historyResponse = await fetch('/api/values/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, token })
+      });
+      if (!historyResponse.ok) return;
+      const data = await historyResponse.json();
+      setHistory(data.documents || []);
+    } catch (err) {
+      // History is supplementary - the current document is still shown
+      console.error('Failed to load values history:', err);
+    }
+  };
+
+  const loadPosition = async (sessionId: string) => {
+    try {
+      const positionResponse = await fetch(`/api/profile/position?sessionId=${encodeURIComponent(sessionId)}`);
+      // 503 until the first population manifold has been fitted
+      if (!positionResponse.ok) return;
+      const data = await positionResponse.json();
+      setPosition({
+        coordinates: data.coordinates,
+        standardErrors: data.standardErrors,
+        dimensions: data.dimensions,
+        populationDensity: data.population.density,
+        sessionCount: data.population.sessionCount
+      });
+    } catch (err) {
+      console.error('Failed to load ethical position:', err);
+    }
+  };
+
+  const getResearchSessionId = () => {
+    const existing = researchSessionId || localStorage.getItem(RESEARCH_SESSION_KEY);
+    if (existing) return existing;
+
+    const created = crypto.randomUUID();
+    localStorage.setItem(RESEARCH_SESSION_KEY, created);
+    setResearchSessionId(created);
+    return created;
+  };
+
+  // Only the first save of a session returns a token - later saves send it back to add newly answered dilemmas
+  const storeSessionToken = async (saveResponse: Response) => {
+    const data = await saveResponse.json();
+    if (data.sessionToken) {
+      localStorage.setItem(SESSION_TOKEN_KEY, data.sessionToken);
+    }
+  };
+
+  // Demographics from the start page travel with research responses, never on their own
+  const submitDemographics = async (sessionId: string) => {
+    const demographics = readStoredDemographics();
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (!demographics || demographics.skipped || !token) return;
+
+    const demographicsResponse = await fetch('/api/demographics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...demographics, sessionId, token })
+    });
+    if (!demographicsResponse.ok) {
+      console.error('Failed to save demographics:', demographicsResponse.status);
+    }
+  };
+
+  const withdrawFromResearch = async () => {
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (!researchSessionId || !token) return;
+    if (!confirm('Withdraw from research? Your stored responses, demographics and VALUES.md history will be deleted.')) return;
+
+    try {
+      const withdrawResponse = await fetch('/api/session/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: researchSessionId, token })
+      });
+      if (!withdrawResponse.ok) {
+        throw new Error(`Failed to withdraw: ${withdrawResponse.status}`);
+      }
+
+      localStorage.removeItem(RESEARCH_SESSION_KEY);
+      localStorage.removeItem(SESSION_TOKEN_KEY);
+      localStorage.removeItem(DEMOGRAPHICS_STORAGE_KEY);
+      setResearchSessionId(null);
+      setHistory([]);
+      setPosition(null);
+      alert('You have withdrawn. Your data has been deleted from our research database.');
+    } catch (err) {
+      console.error('Withdrawal error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to withdraw');
+    }
+  };
+
+  // Stored generation for a research session - each new version lands in the history
+  const requestStoredValues = async (sessionId: string, selectedTemplateId: string) => {
+    const valuesResponse = await fetch('/api/generate-values', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, templateId: selectedTemplateId || undefined })
+    });
+
+    if (!valuesResponse.ok) {
+      throw new Error(`Failed to generate values: ${valuesResponse.status}`);
+    }
+
+    const data = await valuesResponse.json();
+    setValuesMarkdown(data.valuesMarkdown);
+    setValuesJson(data.valuesJson || null);
+    localStorage.setItem('generated-values', data.valuesMarkdown);
+    await Promise.all([loadHistory(sessionId), loadPosition(sessionId)]);
+  };
+
+  // Private generation from local responses - also used to re-render in another template
+  const requestPrivateValues = async (selectedTemplateId: string) => {
+    const valuesResponse = await fetch('/api/generate-values', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId: crypto.randomUUID(),
+        responses,
+        templateId: selectedTemplateId || undefined
+      })
+    });
+
+    if (!valuesResponse.ok) {
+      throw new Error(`Failed to generate values: ${valuesResponse.status}`);
+    }
+
+    const data = await valuesResponse.json();
+    setValuesMarkdown(data.valuesMarkdown);
+    setValuesJson(data.valuesJson || null);
+    localStorage.setItem('generated-values', data.valuesMarkdown);
+  };
+
   // Simple private generation (default recommended path)
   const generateSimple = async () => {
     if (responses.length === 0) {
@@ -36,19 +216,7 @@ function ResultsPageContent() {
     setError('');
     
     try {
-      const valuesResponse = await fetch('/api/generate-values', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId: crypto.randomUUID(), responses })
-      });
-      
-      if (!valuesResponse.ok) {
-        throw new Error(`Failed to generate values: ${valuesResponse.status}`);
-      }
-      
-      const data = await valuesResponse.json();
-      setValuesMarkdown(data.valuesMarkdown);
-      localStorage.setItem('generated-values', data.valuesMarkdown);
+      await requestPrivateValues(templateId);
     } catch (err) {
       console.error('Values generation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate values');
@@ -57,38 +225,50 @@ function ResultsPageContent() {
     }
   };
 
+  // Live preview when switching templates - keeps the current document visible while loading
+  const switchTemplate = async (selectedTemplateId: string) => {
+    if (selectedTemplateId === templateId || previewLoading) return;
+
+    setTemplateId(selectedTemplateId);
+    setPreviewLoading(true);
+    setError('');
+
+    try {
+      if (researchSessionId) {
+        await requestStoredValues(researchSessionId, selectedTemplateId);
+      } else {
+        await requestPrivateValues(selectedTemplateId);
+      }
+    } catch (err) {
+      console.error('Template preview error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to render template');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   // Generate with research contribution
   const generateWithResearch = async () => {
     setLoading(true);
     setError('');
     
     try {
-      const sessionId = crypto.randomUUID();
+      const sessionId = getResearchSessionId();
       
       // Save to database for research
       const saveResponse = await fetch('/api/responses', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ responses, sessionId })
+        body: JSON.stringify({ responses, sessionId, token: localStorage.getItem(SESSION_TOKEN_KEY) || undefined })
       });
       
       if (!saveResponse.ok) {
         throw new Error(`Failed to save responses: ${saveResponse.status}`);
       }
       
-      const valuesResponse = await fetch('/api/generate-values', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId })
-      });
-      
-      if (!valuesResponse.ok) {
-        throw new Error(`Failed to generate values: ${valuesResponse.status}`);
-      }
-      
-      const data = await valuesResponse.json();
-      setValuesMarkdown(data.valuesMarkdown);
-      localStorage.setItem('generated-values', data.valuesMarkdown);
+      await storeSessionToken(saveResponse);
+      await submitDemographics(sessionId);
+      await requestStoredValues(sessionId, templateId);
     } catch (err) {
       console.error('Values generation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate values');
@@ -103,31 +283,21 @@ function ResultsPageContent() {
     setError('');
     
     try {
-      const sessionId = crypto.randomUUID();
+      const sessionId = getResearchSessionId();
       
       const saveResponse = await fetch('/api/responses', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ responses, sessionId })
+        body: JSON.stringify({ responses, sessionId, token: localStorage.getItem(SESSION_TOKEN_KEY) || undefined })
       });
       
       if (!saveResponse.ok) {
         throw new Error(`Failed to save responses: ${saveResponse.status}`);
       }
       
-      const valuesResponse = await fetch('/api/generate-values', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId })
-      });
-      
-      if (!valuesResponse.ok) {
-        throw new Error(`Failed to generate values: ${valuesResponse.status}`);
-      }
-      
-      const data = await valuesResponse.json();
-      setValuesMarkdown(data.valuesMarkdown);
-      localStorage.setItem('generated-values', data.valuesMarkdown);
+      await storeSessionToken(saveResponse);
+      await submitDemographics(sessionId);
+      await requestStoredValues(sessionId, templateId);
     } catch (err) {
       console.error('LLM values generation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate values');
@@ -136,26 +306,64 @@ function ResultsPageContent() {
     }
   };
 
-  const downloadValues = () => {
-    const blob = new Blob([valuesMarkdown], { type: 'text/markdown' });
+  const downloadFile = (content: string, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'values.md';
+    a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const downloadValues = () => downloadFile(valuesMarkdown, 'text/markdown', 'values.md');
+
+  const downloadValuesJson = () => {
+    if (!valuesJson) return;
+    downloadFile(JSON.stringify(valuesJson, null, 2), 'application/json', 'values.json');
+  };
+
+  const exportSessionData = async (format: 'json' | 'csv') => {
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (!researchSessionId || !token) return;
+
+    try {
+      const exportResponse = await fetch('/api/session/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: researchSessionId, token, format })
+      });
+      if (!exportResponse.ok) {
+        throw new Error(`Failed to export data: ${exportResponse.status}`);
+      }
+
+      const data = await exportResponse.json();
+      if (format === 'json') {
+        downloadFile(JSON.stringify(data, null, 2), 'application/json', 'my-data.json');
+        return;
+      }
+      for (const [filename, content] of Object.entries(data.files as Record<string, string>)) {
+        if (content) downloadFile(content, 'text/csv', filename);
+      }
+    } catch (err) {
+      console.error('Export error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export data');
+    }
+  };
+
   const shareWithResearch = async () => {
     try {
-      const sessionId = crypto.randomUUID();
+      // Shared under the research session so it can be withdrawn later
+      const sessionId = getResearchSessionId();
       const response = await fetch('/api/responses', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ responses, sessionId })
+        body: JSON.stringify({ responses, sessionId, token: localStorage.getItem(SESSION_TOKEN_KEY) || undefined })
       });
       
       if (response.ok) {
+        await storeSessionToken(response);
+        await submitDemographics(sessionId);
         alert('Thank you! Your anonymous data has been shared with researchers to improve ethical AI systems.');
       } else {
         alert('Failed to share data. Please try again later.');
@@ -172,6 +380,8 @@ function ResultsPageContent() {
     localStorage.removeItem('dilemma_responses');
     localStorage.removeItem('user_session');
     localStorage.removeItem('dilemma-session');
+    localStorage.removeItem(RESEARCH_SESSION_KEY);
+    localStorage.removeItem(SESSION_TOKEN_KEY);
     router.push('/start');
   };
 
@@ -340,6 +550,16 @@ function ResultsPageContent() {
                   >
                     📥 Download VALUES.md
                   </Button>
+
+                  {valuesJson && (
+                    <Button
+                      onClick={downloadValuesJson}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Download values.json (machine-readable)
+                    </Button>
+                  )}
                   
                   <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
                     <p className="text-sm text-blue-800 mb-3">
@@ -374,10 +594,111 @@ function ResultsPageContent() {
               </CardContent>
             </Card>
 
+            {/* Template switcher with live preview */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Choose a Format</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-4">
+                  The same values can be written for different agents. Pick the format that suits yours.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {TEMPLATE_OPTIONS.map(option => (
+                    <Button
+                      key={option.id || 'standard'}
+                      variant={templateId === option.id ? 'default' : 'outline'}
+                      onClick={() => switchTemplate(option.id)}
+                      disabled={previewLoading}
+                      className="h-auto py-2 flex flex-col items-start text-left whitespace-normal"
+                    >
+                      <span className="font-medium text-sm">{option.name}</span>
+                      <span className="text-xs opacity-80">{option.description}</span>
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Stored versions with a semantic diff against the previous one */}
+            {history.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Version History</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {history.map(entry => (
+                    <div key={entry.documentId} className="p-3 rounded-lg border">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <span className="font-medium">{entry.templateId}</span>
+                          <span className="text-muted-foreground">
+                            {' '}· {entry.responseCount} responses · {new Date(entry.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setValuesMarkdown(entry.valuesMarkdown);
+                            setValuesJson(entry.valuesJson);
+                          }}
+                        >
+                          View
+                        </Button>
+                      </div>
+                      {entry.diffFromPrevious && (
+                        <ul className="mt-2 text-xs text-muted-foreground space-y-1">
+                          {entry.diffFromPrevious.topMotifChanged && (
+                            <li>Top priority changed</li>
+                          )}
+                          {entry.diffFromPrevious.motifChanges.map(change => (
+                            <li key={change.motifId}>
+                              {change.change === 'rose' || change.change === 'new' ? '▲' : '▼'} {change.name}:{' '}
+                              {change.before}% → {change.after}%
+                            </li>
+                          ))}
+                          {entry.diffFromPrevious.frameworkShifts.map(shift => (
+                            <li key={shift.framework}>
+                              {shift.framework} alignment {shift.delta > 0 ? '+' : ''}{shift.delta} pts
+                            </li>
+                          ))}
+                          {entry.diffFromPrevious.motifChanges.length === 0 &&
+                            entry.diffFromPrevious.frameworkShifts.length === 0 && (
+                            <li>Same values, different format</li>
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Where this session sits among consenting participants */}
+            {position && position.dimensions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">How You Compare</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Your position (blue, with its uncertainty) among {position.sessionCount} participants who shared their responses for research.
+                  </p>
+                  <EthicalPositionPlot {...position} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* VALUES.md preview - collapsed by default */}
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Your VALUES.md File</CardTitle>
+                <CardTitle className="text-lg">
+                  Your VALUES.md File
+                  {previewLoading && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">Updating preview...</span>
+                  )}
+                </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="bg-muted/50 p-3 sm:p-4 rounded-lg border overflow-hidden max-h-64 sm:max-h-96 overflow-y-auto">
@@ -387,6 +708,32 @@ function ResultsPageContent() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Research participation can be withdrawn at any time */}
+            {researchSessionId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Research Participation</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <p className="text-sm text-muted-foreground">
+                    Your responses are stored for research under an anonymous session. You can download everything
+                    stored for it, or withdraw, which deletes your responses, demographics and VALUES.md history.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => exportSessionData('json')}>
+                      Export my data (JSON)
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportSessionData('csv')}>
+                      Export my data (CSV)
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={withdrawFromResearch}>
+                      Withdraw from research
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
       </div>
@@ -1,17 +1,35 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DemographicsForm } from '@/components/demographics-form';
+import { DEMOGRAPHICS_STORAGE_KEY, readStoredDemographics, type StoredDemographics } from '@/lib/demographics';
 
 export default function StartPage() {
   const router = useRouter();
+  // Asked once per session; answers (or a skip) are remembered until Start Over
+  const [askDemographics, setAskDemographics] = useState<boolean | null>(null);
 
   useEffect(() => {
+    setAskDemographics(readStoredDemographics() === null);
+  }, []);
+
+  const saveDemographics = (demographics: StoredDemographics) => {
+    localStorage.setItem(DEMOGRAPHICS_STORAGE_KEY, JSON.stringify(demographics));
+    setAskDemographics(false);
+  };
+
+  useEffect(() => {
+    if (askDemographics !== false) return;
+
     const startSession = async () => {
       try {
+        // ?mode=adaptive carries through to an information-gain driven session
+        const adaptive = new URLSearchParams(window.location.search).get('mode') === 'adaptive';
+
         // Get a random dilemma ID from the API
-        const response = await fetch('/api/dilemmas/random');
+        const response = await fetch(`/api/dilemmas/random${adaptive ? '?mode=adaptive' : ''}`);
         
         if (!response.ok) {
           throw new Error(`API error: ${response.status}`);
@@ -21,7 +39,7 @@ export default function StartPage() {
         
         if (data.dilemmaId) {
           // Redirect to the explore page with the dilemma ID
-          router.push(`/explore/${data.dilemmaId}`);
+          router.push(`/explore/${data.dilemmaId}${adaptive ? '?mode=adaptive' : ''}`);
         } else {
           throw new Error('No dilemma ID received from API');
         }
@@ -34,7 +52,20 @@ export default function StartPage() {
     };
 
     startSession();
-  }, [router]);
+  }, [router, askDemographics]);
+
+  if (askDemographics) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted p-6">
+        <div className="max-w-2xl mx-auto py-16">
+          <DemographicsForm
+            onSubmit={demographics => saveDemographics(demographics)}
+            onSkip={() => saveDemographics({ skipped: true })}
+          />
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted p-6">
@@ -350,7 +350,7 @@ export default function DataSelectionWidget({
             <Button 
               variant="outline" 
               size="sm"
-              onClick={() => updateConfig({ motifFilter: ['NUMBERS_FIRST', 'PERSON_FIRST'] })}
+              onClick={() => updateConfig({ motifFilter: ['UTIL_CALC', 'CARE_PARTICULAR'] })}
             >
               Key Motifs
             </Button>
@@ -0,0 +1,123 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  AGE_RANGES,
+  EDUCATION_LEVELS,
+  GEOGRAPHIC_REGIONS,
+  PROFESSIONAL_CONTEXTS,
+  DemographicsSchema,
+  formatOption,
+  type DemographicsInput
+} from '@/lib/demographics'
+
+interface DemographicsFormProps {
+  onSubmit: (demographics: DemographicsInput) => void
+  onSkip: () => void
+}
+
+const SELECT_FIELDS = [
+  { name: 'ageRange', label: 'Age range', options: AGE_RANGES },
+  { name: 'educationLevel', label: 'Education', options: EDUCATION_LEVELS },
+  { name: 'geographicRegion', label: 'Region', options: GEOGRAPHIC_REGIONS },
+  { name: 'professionalContext', label: 'Mostly deciding in a', options: PROFESSIONAL_CONTEXTS }
+] as const
+
+const TEXT_FIELDS = [
+  { name: 'culturalBackground', label: 'Cultural background', placeholder: 'e.g. British Indian' },
+  { name: 'profession', label: 'Profession', placeholder: 'e.g. Nurse' },
+  { name: 'primaryLanguage', label: 'Primary language', placeholder: 'e.g. Spanish' }
+] as const
+
+// Optional questions before the first dilemma - every field, and the whole step, can be skipped
+export function DemographicsForm({ onSubmit, onSkip }: DemographicsFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [consentResearch, setConsentResearch] = useState(false)
+  const [error, setError] = useState('')
+
+  const update = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }))
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const result = DemographicsSchema.safeParse({ ...values, consentResearch })
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || 'Please check your answers')
+      return
+    }
+    onSubmit(result.data)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-center">A Little About You (Optional)</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            These answers help researchers see how values differ across groups. Leave anything blank, or skip this step entirely.
+            Nothing leaves your browser unless you later choose to contribute your responses to research.
+          </p>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {SELECT_FIELDS.map(field => (
+              <div key={field.name} className="space-y-1">
+                <Label htmlFor={field.name}>{field.label}</Label>
+                <select
+                  id={field.name}
+                  value={values[field.name] || ''}
+                  onChange={e => update(field.name, e.target.value)}
+                  className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm"
+                >
+                  <option value="">Prefer not to say</option>
+                  {field.options.map(option => (
+                    <option key={option} value={option}>{formatOption(option)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            {TEXT_FIELDS.map(field => (
+              <div key={field.name} className="space-y-1">
+                <Label htmlFor={field.name}>{field.label}</Label>
+                <Input
+                  id={field.name}
+                  value={values[field.name] || ''}
+                  placeholder={field.placeholder}
+                  maxLength={100}
+                  onChange={e => update(field.name, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={consentResearch}
+              onChange={e => setConsentResearch(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              I consent to my anonymous responses and these answers being used in aggregate research.
+              I can withdraw at any time from the results page, which deletes them.
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onSkip}>
+              Skip
+            </Button>
+            <Button type="submit">Continue</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
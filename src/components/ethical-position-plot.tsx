@@ -0,0 +1,100 @@
+'use client'
+
+import React from 'react'
+import type { PopulationDensityCell } from '@/lib/population-manifold'
+
+export interface EthicalPositionPlotProps {
+  coordinates: number[]
+  standardErrors: number[]
+  dimensions: { name: string; interpretation: string; varianceExplained: number }[]
+  populationDensity: PopulationDensityCell[]
+}
+
+const SIZE = 280
+const PADDING = 28
+
+// User vs binned population density on the first two manifold dimensions, with a 2σ uncertainty ellipse
+export function EthicalPositionPlot({
+  coordinates,
+  standardErrors,
+  dimensions,
+  populationDensity
+}: EthicalPositionPlotProps) {
+  // A one-dimensional manifold is drawn as a strip
+  const twoD = dimensions.length > 1
+  const x = (point: number[]) => point[0]
+  const y = (point: number[]) => (twoD ? point[1] : 0)
+
+  const xs = [...populationDensity.flatMap(cell => cell.x), x(coordinates) - 2 * standardErrors[0], x(coordinates) + 2 * standardErrors[0]]
+  const ys = twoD
+    ? [...populationDensity.flatMap(cell => cell.y || []), y(coordinates) - 2 * standardErrors[1], y(coordinates) + 2 * standardErrors[1]]
+    : [-1, 1]
+  const maxCount = Math.max(1, ...populationDensity.map(cell => cell.count))
+  const extent = (values: number[]) => {
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    return max - min > 1e-9 ? [min, max] : [min - 1, max + 1]
+  }
+  const [xMin, xMax] = extent(xs)
+  const [yMin, yMax] = extent(ys)
+
+  const scaleX = (v: number) => PADDING + ((v - xMin) / (xMax - xMin)) * (SIZE - 2 * PADDING)
+  const scaleY = (v: number) => SIZE - PADDING - ((v - yMin) / (yMax - yMin)) * (SIZE - 2 * PADDING)
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full max-w-sm mx-auto border rounded-lg bg-muted/30"
+        role="img"
+        aria-label="Your position compared with other participants"
+      >
+        {populationDensity.map((cell, i) => {
+          const [yLow, yHigh] = cell.y || [yMin, yMax]
+          return (
+            <rect
+              key={i}
+              x={scaleX(cell.x[0])}
+              y={scaleY(yHigh)}
+              width={scaleX(cell.x[1]) - scaleX(cell.x[0])}
+              height={scaleY(yLow) - scaleY(yHigh)}
+              className="fill-gray-400"
+              opacity={0.1 + 0.5 * (cell.count / maxCount)}
+            />
+          )
+        })}
+        <ellipse
+          cx={scaleX(x(coordinates))}
+          cy={scaleY(y(coordinates))}
+          rx={Math.max(2, (2 * standardErrors[0] / (xMax - xMin)) * (SIZE - 2 * PADDING))}
+          ry={twoD ? Math.max(2, (2 * standardErrors[1] / (yMax - yMin)) * (SIZE - 2 * PADDING)) : 6}
+          className="fill-blue-500 stroke-blue-600"
+          fillOpacity={0.15}
+        />
+        <circle cx={scaleX(x(coordinates))} cy={scaleY(y(coordinates))} r={5} className="fill-blue-600" />
+        <text x={SIZE / 2} y={SIZE - 6} textAnchor="middle" className="fill-muted-foreground text-[9px]">
+          {dimensions[0].name}
+        </text>
+        {twoD && (
+          <text
+            x={10}
+            y={SIZE / 2}
+            textAnchor="middle"
+            transform={`rotate(-90 10 ${SIZE / 2})`}
+            className="fill-muted-foreground text-[9px]"
+          >
+            {dimensions[1].name}
+          </text>
+        )}
+      </svg>
+      <ul className="text-xs text-muted-foreground space-y-1">
+        {dimensions.slice(0, 2).map(dimension => (
+          <li key={dimension.name}>
+            <span className="font-medium">{dimension.name}</span> ({dimension.varianceExplained.toFixed(0)}% of variation):{' '}
+            {dimension.interpretation}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
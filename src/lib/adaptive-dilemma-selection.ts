@@ -0,0 +1,156 @@
+/**
+ * Adaptive Dilemma Selection
+ *
+ * Chooses the next dilemma to maximise expected information gain about the
+ * respondent's motif distribution, and stops once the leading motif is
+ * clearly separated or no remaining dilemma would teach us much.
+ */
+
+import { informationTheoreticUncertainty } from './information-theoretic-uncertainty';
+
+export interface AdaptiveCandidate {
+  dilemmaId: string;
+  choiceAMotif: string | null;
+  choiceBMotif: string | null;
+  choiceCMotif: string | null;
+  choiceDMotif: string | null;
+}
+
+export interface AnsweredDilemma {
+  dilemmaId: string;
+  chosenOption: string;
+}
+
+export interface AdaptiveSelectionConfig {
+  minQuestions: number;
+  maxQuestions: number;
+  minInformationGain: number; // nats; below this a question isn't worth asking
+  confidenceZ: number; // lead separation needed to stop early
+  priorAlpha: number; // symmetric Dirichlet prior per motif
+}
+
+export type AdaptiveStopReason = 'confident' | 'low_information' | 'max_questions' | 'exhausted';
+
+export interface AdaptiveSelection {
+  dilemmaId: string | null;
+  done: boolean;
+  reason: AdaptiveStopReason | null;
+  expectedInformationGain: number;
+  answeredCount: number;
+  leadingMotif: string | null;
+  confidence: number; // 0-1, probability the leading motif really leads
+}
+
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveSelectionConfig = {
+  minQuestions: 6,
+  maxQuestions: 24,
+  minInformationGain: 0.01,
+  confidenceZ: 2,
+  priorAlpha: 1
+};
+
+const OPTIONS = ['a', 'b', 'c', 'd'] as const;
+
+function optionMotifs(candidate: AdaptiveCandidate): (string | null)[] {
+  return [candidate.choiceAMotif, candidate.choiceBMotif, candidate.choiceCMotif, candidate.choiceDMotif];
+}
+
+export class AdaptiveDilemmaSelector {
+
+  /**
+   * Pick the most informative unanswered dilemma, or report why asking more isn't useful
+   */
+  selectNext(
+    candidates: AdaptiveCandidate[],
+    answered: AnsweredDilemma[],
+    config: Partial<AdaptiveSelectionConfig> = {},
+    random: () => number = Math.random
+  ): AdaptiveSelection {
+    const settings = { ...DEFAULT_ADAPTIVE_CONFIG, ...config };
+
+    // The motif universe is every motif the pool can offer
+    const motifIds = Array.from(new Set(
+      candidates.flatMap(c => optionMotifs(c).filter((m): m is string => !!m))
+    )).sort();
+    const motifIndex = new Map(motifIds.map((id, i) => [id, i]));
+
+    const alpha = this.posteriorAlpha(candidates, answered, motifIndex, settings.priorAlpha);
+    const separation = informationTheoreticUncertainty.calculateLeadSeparation(alpha);
+    const confidence = motifIds.length < 2 ? 1 : this.normalCdf(separation.zScore);
+    const leadingMotif = motifIds[separation.leader] || null;
+
+    const answeredIds = new Set(answered.map(a => a.dilemmaId));
+    const base = { answeredCount: answered.length, leadingMotif, confidence };
+    const stop = (reason: AdaptiveStopReason, expectedInformationGain = 0): AdaptiveSelection =>
+      ({ ...base, dilemmaId: null, done: true, reason, expectedInformationGain });
+
+    if (answered.length >= settings.maxQuestions) return stop('max_questions');
+    if (answered.length >= settings.minQuestions && separation.zScore >= settings.confidenceZ) {
+      return stop('confident');
+    }
+
+    const remaining = candidates.filter(c => !answeredIds.has(c.dilemmaId));
+    if (remaining.length === 0) return stop('exhausted');
+
+    const scored = remaining.map(candidate => ({
+      candidate,
+      gain: informationTheoreticUncertainty.expectedInformationGain(
+        alpha,
+        optionMotifs(candidate).map(m => (m ? motifIndex.get(m) ?? -1 : -1))
+      )
+    }));
+    const bestGain = Math.max(...scored.map(s => s.gain));
+
+    if (answered.length >= settings.minQuestions && bestGain < settings.minInformationGain) {
+      return stop('low_information', bestGain);
+    }
+
+    // Many dilemmas tie (e.g. all four-motif dilemmas before the first answer) - spread them randomly
+    const best = scored.filter(s => bestGain - s.gain < 1e-9);
+    const chosen = best[Math.floor(random() * best.length)] || scored[0];
+
+    return {
+      ...base,
+      dilemmaId: chosen.candidate.dilemmaId,
+      done: false,
+      reason: null,
+      expectedInformationGain: chosen.gain
+    };
+  }
+
+  /**
+   * Dirichlet posterior over motif weights: prior plus one count per chosen motif
+   */
+  private posteriorAlpha(
+    candidates: AdaptiveCandidate[],
+    answered: AnsweredDilemma[],
+    motifIndex: Map<string, number>,
+    priorAlpha: number
+  ): number[] {
+    const alpha = new Array(motifIndex.size).fill(priorAlpha);
+    const byId = new Map(candidates.map(c => [c.dilemmaId, c]));
+
+    for (const response of answered) {
+      const candidate = byId.get(response.dilemmaId);
+      const optionIndex = OPTIONS.indexOf(response.chosenOption.toLowerCase() as typeof OPTIONS[number]);
+      if (!candidate || optionIndex === -1) continue;
+
+      const motif = optionMotifs(candidate)[optionIndex];
+      const index = motif ? motifIndex.get(motif) : undefined;
+      if (index !== undefined) alpha[index] += 1;
+    }
+
+    return alpha;
+  }
+
+  // Abramowitz-Stegun 7.1.26 approximation of erf
+  private normalCdf(z: number): number {
+    if (!Number.isFinite(z)) return z > 0 ? 1 : 0;
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+  }
+}
+
+export const adaptiveDilemmaSelector = new AdaptiveDilemmaSelector();
@@ -401,7 +401,7 @@ ${this.formatDetailedFrameworkAnalysis(profile.frameworkAlignment)}
     }
   }
 
-  private getDefaultConfig(): CombinatorialGenerationConfig {
+  getDefaultConfig(): CombinatorialGenerationConfig {
     return {
       useDetailedMotifAnalysis: true,
       includeFrameworkAlignment: true,
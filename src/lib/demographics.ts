@@ -0,0 +1,77 @@
+/**
+ * Demographics
+ *
+ * Options and validation for the optional demographics step. Every field may
+ * be left blank; only consentResearch is required, and it defaults to false.
+ */
+
+import { z } from 'zod';
+
+// Answers are kept locally under this key until responses are shared for research
+export const DEMOGRAPHICS_STORAGE_KEY = 'demographics';
+
+export const AGE_RANGES = ['18-24', '25-34', '35-44', '45-54', '55-64', '65+'] as const;
+
+export const EDUCATION_LEVELS = [
+  'secondary',
+  'vocational',
+  'bachelors',
+  'masters',
+  'doctorate',
+  'other'
+] as const;
+
+export const PROFESSIONAL_CONTEXTS = ['workplace', 'academic', 'personal'] as const;
+
+export const GEOGRAPHIC_REGIONS = [
+  'africa',
+  'asia',
+  'europe',
+  'latin_america',
+  'middle_east',
+  'north_america',
+  'oceania'
+] as const;
+
+const freeText = z.string().trim().max(100).optional().nullable();
+
+// Mirrors user_demographics; blank selects arrive as '' and are stored as null
+const optionalEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.preprocess(value => (value === '' ? null : value), z.enum(values).optional().nullable());
+
+export const DemographicsSchema = z.object({
+  ageRange: optionalEnum(AGE_RANGES),
+  educationLevel: optionalEnum(EDUCATION_LEVELS),
+  culturalBackground: freeText,
+  profession: freeText,
+  professionalContext: optionalEnum(PROFESSIONAL_CONTEXTS),
+  geographicRegion: optionalEnum(GEOGRAPHIC_REGIONS),
+  primaryLanguage: freeText,
+  consentResearch: z.boolean().default(false)
+});
+
+export type DemographicsInput = z.infer<typeof DemographicsSchema>;
+
+/**
+ * What the start page stores locally - either answers or a record that the step was skipped
+ */
+export type StoredDemographics = (DemographicsInput & { skipped?: false }) | { skipped: true };
+
+export function readStoredDemographics(): StoredDemographics | null {
+  try {
+    const stored = localStorage.getItem(DEMOGRAPHICS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Human-readable label for an option value, e.g. 'latin_america' -> 'Latin America'
+ */
+export function formatOption(value: string): string {
+  return value
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,356 @@
+/**
+ * Dilemma Corpus
+ *
+ * One reader and writer for corpus files. Imports accept the snake_case
+ * layout of striated/dilemmas.csv, the camelCase layout of new-dilemmas.csv
+ * and JSONL with either key style. Every row is validated before anything is
+ * written, so a dry run returns the full row-level report and a real import
+ * with any invalid row writes nothing. Rows upsert on their external ID - the
+ * file's dilemma_id (DM001), or a slug of the title when the file has no IDs -
+ * so re-importing a file updates dilemmas instead of duplicating them. A
+ * dilemma stored before it had an external ID is matched on title and
+ * scenario and given one. New dilemmas wait in the review queue, and an
+ * import never rewords a dilemma that is past review or changes a status.
+ * Exports write the dilemmas, motifs and frameworks tables back in the
+ * striated CSV layout (or JSONL).
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { db } from './db';
+import { dilemmas, frameworks, motifs, type Dilemma } from './schema';
+import { DILEMMA_STATUSES, EDITABLE_STATUSES, GENERATED_DILEMMA_STATUS, type DilemmaStatus } from './dilemma-review';
+import { loadMotifOntology } from './motif-ontology';
+
+export const CORPUS_FORMATS = ['csv', 'jsonl'] as const;
+export type CorpusFormat = typeof CORPUS_FORMATS[number];
+
+export const CORPUS_TABLES = ['dilemmas', 'motifs', 'frameworks'] as const;
+export type CorpusTable = typeof CORPUS_TABLES[number];
+
+// Column order of the striated CSVs; dilemmas gain a trailing status column, which an import only applies to new dilemmas
+export const CORPUS_COLUMNS: Record<CorpusTable, string[]> = {
+  dilemmas: [
+    'dilemma_id', 'domain', 'generator_type', 'difficulty', 'title', 'scenario',
+    'choice_a', 'choice_a_motif', 'choice_b', 'choice_b_motif', 'choice_c', 'choice_c_motif', 'choice_d', 'choice_d_motif',
+    'target_motifs', 'stakeholders', 'cultural_context', 'validation_score', 'realism_score', 'tension_strength', 'status'
+  ],
+  motifs: [
+    'motif_id', 'name', 'category', 'subcategory', 'description', 'lexical_indicators', 'behavioral_indicators',
+    'logical_patterns', 'conflicts_with', 'synergies_with', 'weight', 'cultural_variance', 'cognitive_load'
+  ],
+  frameworks: [
+    'framework_id', 'name', 'tradition', 'key_principle', 'decision_method', 'lexical_indicators',
+    'computational_signature', 'historical_figure', 'modern_application'
+  ]
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Blank CSV cells and JSON nulls both mean "not given"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' || value === null ? undefined : value), schema.optional());
+
+// JSONL may carry lists as arrays; the tables store them comma-separated
+const list = optional(z.preprocess(value => (Array.isArray(value) ? value.join(',') : value), z.string().trim()));
+
+const text = z.string({ required_error: 'is required' }).trim().min(1, 'is required');
+
+const CorpusDilemmaSchema = z.object({
+  dilemma_id: optional(z.string().trim().max(64)),
+  domain: optional(z.string().trim()),
+  generator_type: optional(z.string().trim()),
+  difficulty: optional(z.coerce.number().int().min(1).max(10)),
+  title: text,
+  scenario: text,
+  choice_a: text,
+  choice_a_motif: optional(z.string().trim()),
+  choice_b: text,
+  choice_b_motif: optional(z.string().trim()),
+  choice_c: text,
+  choice_c_motif: optional(z.string().trim()),
+  choice_d: text,
+  choice_d_motif: optional(z.string().trim()),
+  target_motifs: list,
+  stakeholders: list,
+  cultural_context: optional(z.string().trim()),
+  validation_score: optional(z.coerce.number().nonnegative()),
+  realism_score: optional(z.coerce.number().nonnegative()),
+  tension_strength: optional(z.coerce.number().nonnegative()),
+  status: optional(z.enum(DILEMMA_STATUSES))
+});
+
+export type CorpusDilemma = z.infer<typeof CorpusDilemmaSchema>;
+
+export const CorpusImportRequestSchema = z.object({
+  format: z.enum(CORPUS_FORMATS).default('csv'),
+  content: z.string().min(1),
+  dryRun: z.boolean().default(true)
+});
+
+export interface CorpusRowIssue {
+  row: number; // line number in the file
+  externalId: string | null;
+  messages: string[];
+}
+
+export interface ParsedCorpusRow {
+  row: number;
+  externalId: string;
+  dilemma: CorpusDilemma;
+}
+
+export interface CorpusImportReport {
+  format: CorpusFormat;
+  dryRun: boolean;
+  applied: boolean; // false on a dry run, or when any row was invalid
+  total: number;
+  inserted: number;
+  updated: number;
+  unchanged: number; // match a dilemma past review without changing its wording
+  errors: CorpusRowIssue[];
+  refused: CorpusRowIssue[]; // would reword a dilemma past review; skipped
+  warnings: CorpusRowIssue[];
+}
+
+// choiceAMotif → choice_a_motif; snake_case keys pass through unchanged
+export function normalizeCorpusKey(key: string): string {
+  const snake = key.trim().replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`).replace(/^_/, '');
+  return snake === 'external_id' ? 'dilemma_id' : snake;
+}
+
+const normalizeRecord = (record: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [normalizeCorpusKey(key), value]));
+
+const slug = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 64);
+
+export function externalIdFor(dilemma: CorpusDilemma): string {
+  return dilemma.dilemma_id || slug(dilemma.title);
+}
+
+function readRecords(content: string, format: CorpusFormat): { records: { row: number; record: Record<string, unknown> }[]; errors: CorpusRowIssue[] } {
+  if (format === 'jsonl') {
+    const records: { row: number; record: Record<string, unknown> }[] = [];
+    const errors: CorpusRowIssue[] = [];
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const record = JSON.parse(line);
+        if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error('expected a JSON object');
+        records.push({ row: index + 1, record });
+      } catch (error) {
+        errors.push({ row: index + 1, externalId: null, messages: [`Invalid JSON: ${error instanceof Error ? error.message : error}`] });
+      }
+    });
+    return { records, errors };
+  }
+
+  try {
+    const parsed: { record: Record<string, unknown>; info: { lines: number } }[] = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      info: true
+    });
+    return { records: parsed.map(({ record, info }) => ({ row: info.lines, record })), errors: [] };
+  } catch (error) {
+    // A malformed CSV can't be read past the broken line
+    const row = (error as { lines?: number }).lines ?? 0;
+    return { records: [], errors: [{ row, externalId: null, messages: [`Invalid CSV: ${error instanceof Error ? error.message : error}`] }] };
+  }
+}
+
+/**
+ * Read and validate a corpus file without touching the database
+ */
+export function parseCorpus(content: string, format: CorpusFormat): { rows: ParsedCorpusRow[]; errors: CorpusRowIssue[] } {
+  const { records, errors } = readRecords(content, format);
+  const rows: ParsedCorpusRow[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { row, record } of records) {
+    const normalized = normalizeRecord(record);
+    const parsed = CorpusDilemmaSchema.safeParse(normalized);
+    if (!parsed.success) {
+      const rawId = normalized.dilemma_id;
+      errors.push({
+        row,
+        externalId: typeof rawId === 'string' && rawId ? rawId : null,
+        messages: parsed.error.errors.map(issue => `${issue.path.join('.')} ${issue.message}`)
+      });
+      continue;
+    }
+
+    const externalId = externalIdFor(parsed.data);
+    const firstRow = seen.get(externalId);
+    if (firstRow !== undefined) {
+      errors.push({ row, externalId, messages: [`duplicates the ID of row ${firstRow}`] });
+      continue;
+    }
+    seen.set(externalId, row);
+    rows.push({ row, externalId, dilemma: parsed.data });
+  }
+
+  return { rows, errors: errors.sort((a, b) => a.row - b.row) };
+}
+
+// Scores the file leaves out are kept - reviewers and the quality job write them too
+const score = <K extends string>(key: K, value: number | undefined) =>
+  (value === undefined ? {} : { [key]: value.toString() }) as Partial<Record<K, string>>;
+
+function toDilemmaValues(dilemma: CorpusDilemma) {
+  return {
+    domain: dilemma.domain ?? null,
+    generatorType: dilemma.generator_type ?? null,
+    difficulty: dilemma.difficulty ?? null,
+    title: dilemma.title,
+    scenario: dilemma.scenario,
+    choiceA: dilemma.choice_a,
+    choiceAMotif: dilemma.choice_a_motif ?? null,
+    choiceB: dilemma.choice_b,
+    choiceBMotif: dilemma.choice_b_motif ?? null,
+    choiceC: dilemma.choice_c,
+    choiceCMotif: dilemma.choice_c_motif ?? null,
+    choiceD: dilemma.choice_d,
+    choiceDMotif: dilemma.choice_d_motif ?? null,
+    targetMotifs: dilemma.target_motifs ?? null,
+    stakeholders: dilemma.stakeholders ?? null,
+    culturalContext: dilemma.cultural_context ?? null,
+    ...score('validationScore', dilemma.validation_score),
+    ...score('realismScore', dilemma.realism_score),
+    ...score('tensionStrength', dilemma.tension_strength)
+  };
+}
+
+// What a reviewer approved; a dilemma past review keeps it
+const WORDING_FIELDS = [
+  'title', 'scenario', 'choiceA', 'choiceAMotif', 'choiceB', 'choiceBMotif',
+  'choiceC', 'choiceCMotif', 'choiceD', 'choiceDMotif'
+] as const;
+
+type ImportPlan =
+  | { action: 'insert' }
+  | { action: 'update' | 'unchanged' | 'refuse'; match: Dilemma };
+
+const titleAndScenario = (title: string, scenario: string) => `${title.trim()}\n${scenario.trim()}`;
+
+// A new dilemma waits for review unless the file holds it back as a draft or retired
+const insertStatus = (dilemma: CorpusDilemma): DilemmaStatus =>
+  dilemma.status && dilemma.status !== 'published' ? dilemma.status : GENERATED_DILEMMA_STATUS;
+
+/**
+ * Validate a corpus file and, unless it's a dry run or any row is invalid,
+ * upsert every row. Rows whose ID is one of our UUIDs (an export of this
+ * database) match on dilemma_id; all others match on external_id, then on
+ * title and scenario among dilemmas without one. Rows that would reword a
+ * dilemma past review are refused, like edits in the review queue.
+ */
+export async function importCorpus(content: string, format: CorpusFormat, { dryRun = true }: { dryRun?: boolean } = {}): Promise<CorpusImportReport> {
+  const { rows, errors } = parseCorpus(content, format);
+  const [ontology, existing] = await Promise.all([
+    loadMotifOntology(),
+    db.select().from(dilemmas)
+  ]);
+
+  // Unknown motifs are reported but don't block - the striated corpus itself references a few
+  const warnings: CorpusRowIssue[] = [];
+  for (const { row, externalId, dilemma } of rows) {
+    const unknown = (['choice_a_motif', 'choice_b_motif', 'choice_c_motif', 'choice_d_motif'] as const)
+      .filter(field => dilemma[field] && !ontology.ids.has(dilemma[field]!))
+      .map(field => `${field} ${dilemma[field]} is not in the motifs table`);
+    if (unknown.length > 0) warnings.push({ row, externalId, messages: unknown });
+  }
+
+  const byExternalId = new Map(existing.filter(d => d.externalId).map(d => [d.externalId!, d]));
+  const byUuid = new Map(existing.map(d => [d.dilemmaId, d]));
+  // Dilemmas seeded before external IDs existed
+  const byTitleAndScenario = new Map(existing.filter(d => !d.externalId).map(d => [titleAndScenario(d.title, d.scenario), d]));
+
+  const refused: CorpusRowIssue[] = [];
+  const plans = rows.map(({ row, externalId, dilemma }): ImportPlan => {
+    const values = toDilemmaValues(dilemma);
+    const match = byExternalId.get(externalId) ??
+      (UUID_PATTERN.test(externalId) ? byUuid.get(externalId) : undefined) ??
+      byTitleAndScenario.get(titleAndScenario(dilemma.title, dilemma.scenario));
+    if (!match) return { action: 'insert' };
+    if (EDITABLE_STATUSES.includes(match.status as DilemmaStatus)) return { action: 'update', match };
+
+    // Blank and missing are the same wording
+    const reworded = WORDING_FIELDS.filter(field => (match[field] || null) !== (values[field] || null));
+    if (reworded.length === 0) return { action: 'unchanged', match };
+    refused.push({ row, externalId, messages: [`would reword a ${match.status} dilemma (${reworded.join(', ')}) - retire it and restore it for review first`] });
+    return { action: 'refuse', match };
+  });
+
+  const report: CorpusImportReport = {
+    format,
+    dryRun,
+    applied: false,
+    total: rows.length + errors.length,
+    inserted: plans.filter(plan => plan.action === 'insert').length,
+    updated: plans.filter(plan => plan.action === 'update').length,
+    unchanged: plans.filter(plan => plan.action === 'unchanged').length,
+    errors,
+    refused,
+    warnings
+  };
+  if (dryRun || errors.length > 0) return report;
+
+  for (const [index, { externalId, dilemma }] of rows.entries()) {
+    const plan = plans[index];
+    const values = toDilemmaValues(dilemma);
+    // A match found on title and scenario takes the file's ID, so the next import matches it directly
+    const ownId = UUID_PATTERN.test(externalId) ? {} : { externalId };
+
+    if (plan.action === 'update') {
+      await db.update(dilemmas).set({ ...values, ...ownId }).where(eq(dilemmas.dilemmaId, plan.match.dilemmaId));
+    } else if (plan.action === 'unchanged') {
+      if (!plan.match.externalId && 'externalId' in ownId) {
+        await db.update(dilemmas).set(ownId).where(eq(dilemmas.dilemmaId, plan.match.dilemmaId));
+      }
+    } else if (plan.action === 'insert') {
+      const status = insertStatus(dilemma);
+      await db.insert(dilemmas).values(UUID_PATTERN.test(externalId)
+        ? { ...values, status, dilemmaId: externalId }
+        : { ...values, status, externalId });
+    }
+  }
+
+  return { ...report, applied: true };
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const field = String(value);
+  return /[",\r\n]/.test(field) || field !== field.trim() ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export function toCorpusCsv(columns: string[], records: Record<string, unknown>[]): string {
+  return [columns.join(','), ...records.map(record => columns.map(column => csvField(record[column])).join(','))].join('\n') + '\n';
+}
+
+export function toCorpusJsonl(columns: string[], records: Record<string, unknown>[]): string {
+  return records.map(record => JSON.stringify(Object.fromEntries(columns.map(column => [column, record[column] ?? null])))).join('\n') + '\n';
+}
+
+// Table rows keyed by their striated column names
+async function loadTableRecords(table: CorpusTable): Promise<Record<string, unknown>[]> {
+  if (table === 'dilemmas') {
+    const rows = await db.select().from(dilemmas).orderBy(asc(dilemmas.externalId), asc(dilemmas.createdAt));
+    return rows.map(({ dilemmaId, externalId, ...row }) => ({
+      ...normalizeRecord(row),
+      dilemma_id: externalId ?? dilemmaId
+    }));
+  }
+
+  const rows = table === 'motifs'
+    ? await db.select().from(motifs).orderBy(asc(motifs.motifId))
+    : await db.select().from(frameworks).orderBy(asc(frameworks.frameworkId));
+  return rows.map(row => normalizeRecord(row));
+}
+
+export async function exportCorpus(table: CorpusTable, format: CorpusFormat = 'csv'): Promise<string> {
+  const records = await loadTableRecords(table);
+  const columns = CORPUS_COLUMNS[table];
+  return format === 'jsonl' ? toCorpusJsonl(columns, records) : toCorpusCsv(columns, records);
+}
@@ -0,0 +1,302 @@
+/**
+ * Dilemma Coverage
+ *
+ * How evenly the corpus exercises the motif ontology and the domain range.
+ * Two grids are counted: each conflicting motif pair from motifs.csv (a
+ * dilemma covers a pair when two of its choices carry those motifs) and each
+ * domain × difficulty band. The batch generator aims new candidates at the
+ * emptiest cells, drops candidates whose choices miss the target motif pair or
+ * that repeat an existing title or scenario, and stages the rest in the
+ * review queue - nothing it makes is served until a reviewer approves it.
+ */
+
+import { inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from './db';
+import { dilemmas, frameworks, motifs, type Dilemma, type Motif } from './schema';
+import { GENERATED_DILEMMA_STATUS, type DilemmaStatus } from './dilemma-review';
+import { CATEGORY_TO_TRADITION } from './values-generation';
+import { openRouter, type OpenRouterService } from './openrouter';
+
+// Queued candidates count towards coverage so repeated runs don't pile onto the same gap
+export const COVERAGE_STATUSES: DilemmaStatus[] = ['in_review', 'published'];
+
+export const COVERAGE_GENERATOR_TYPE = 'coverage_gap';
+
+export const DIFFICULTY_BANDS = [
+  { band: 'low', min: 1, max: 4, target: 3 },
+  { band: 'medium', min: 5, max: 7, target: 6 },
+  { band: 'high', min: 8, max: 10, target: 9 }
+] as const;
+
+export type DifficultyBand = typeof DIFFICULTY_BANDS[number]['band'];
+
+// Scenarios sharing at least this share of their words are treated as the same dilemma
+export const SCENARIO_SIMILARITY_THRESHOLD = 0.6;
+
+export const CoverageBatchRequestSchema = z.object({
+  count: z.number().int().min(1).max(20).default(5),
+  domains: z.array(z.string().trim().min(1)).optional() // defaults to the domains already in the corpus
+});
+
+export type CoverageBatchRequest = z.infer<typeof CoverageBatchRequestSchema>;
+
+export interface MotifPairCell {
+  motifs: [string, string];
+  count: number;
+}
+
+export interface DomainDifficultyCell {
+  domain: string;
+  band: DifficultyBand;
+  count: number;
+}
+
+export interface CoverageReport {
+  dilemmas: number;
+  motifPairs: MotifPairCell[];          // emptiest first
+  domainDifficulty: DomainDifficultyCell[]; // emptiest first
+  emptyMotifPairs: number;
+  emptyDomainCells: number;
+}
+
+export interface GenerationTarget {
+  motifs: [string, string];
+  domain: string;
+  band: DifficultyBand;
+  difficulty: number;
+}
+
+export type CoverageDilemma = Pick<Dilemma, 'title' | 'scenario' | 'domain' | 'difficulty' | 'choiceAMotif' | 'choiceBMotif' | 'choiceCMotif' | 'choiceDMotif'>;
+
+export interface CoverageBatchResult {
+  before: CoverageReport;
+  after: CoverageReport;
+  targets: GenerationTarget[];
+  staged: { dilemmaId: string; title: string; target: GenerationTarget }[];
+  offTarget: { title: string; motifs: string[]; target: GenerationTarget }[]; // choices don't carry both target motifs
+  duplicates: { title: string; duplicateOf: string; target: GenerationTarget }[];
+  failed: { target: GenerationTarget; error: string }[];
+}
+
+type DilemmaGenerator = OpenRouterService['generateDilemma'];
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+const choiceMotifs = (dilemma: CoverageDilemma): string[] =>
+  [dilemma.choiceAMotif, dilemma.choiceBMotif, dilemma.choiceCMotif, dilemma.choiceDMotif]
+    .filter((motif): motif is string => !!motif);
+
+export function difficultyBand(difficulty: number | null): DifficultyBand | null {
+  if (difficulty === null) return null;
+  return DIFFICULTY_BANDS.find(band => difficulty >= band.min && difficulty <= band.max)?.band ?? null;
+}
+
+/**
+ * Conflicting motif pairs, each once. Conflicts naming a motif that isn't in
+ * the ontology are skipped - there is nothing to generate against.
+ */
+export function conflictPairs(motifRows: Pick<Motif, 'motifId' | 'conflictsWith'>[]): [string, string][] {
+  const known = new Set(motifRows.map(motif => motif.motifId));
+  const pairs = new Map<string, [string, string]>();
+  for (const motif of motifRows) {
+    for (const other of (motif.conflictsWith || '').split(',').map(id => id.trim())) {
+      if (!known.has(other) || other === motif.motifId) continue;
+      const [a, b] = [motif.motifId, other].sort();
+      pairs.set(pairKey(a, b), [a, b]);
+    }
+  }
+  return Array.from(pairs.values());
+}
+
+// Ties keep a stable, alphabetical order so the same corpus always yields the same targets
+const byCountThenName = <T extends { count: number }>(name: (cell: T) => string) =>
+  (a: T, b: T) => a.count - b.count || name(a).localeCompare(name(b));
+
+export function computeCoverage(
+  corpus: CoverageDilemma[],
+  motifRows: Pick<Motif, 'motifId' | 'conflictsWith'>[],
+  domains?: string[]
+): CoverageReport {
+  const pairCounts = new Map(conflictPairs(motifRows).map(pair => [pairKey(...pair), { motifs: pair, count: 0 }]));
+  const domainList = domains ?? Array.from(new Set(corpus.map(d => d.domain).filter((d): d is string => !!d))).sort();
+  const cellCounts = new Map<string, DomainDifficultyCell>();
+  domainList.forEach(domain => DIFFICULTY_BANDS.forEach(({ band }) => {
+    cellCounts.set(`${domain}|${band}`, { domain, band, count: 0 });
+  }));
+
+  for (const dilemma of corpus) {
+    const present = Array.from(new Set(choiceMotifs(dilemma)));
+    for (let i = 0; i < present.length; i++) {
+      for (let j = i + 1; j < present.length; j++) {
+        const cell = pairCounts.get(pairKey(present[i], present[j]));
+        if (cell) cell.count++;
+      }
+    }
+
+    const band = difficultyBand(dilemma.difficulty);
+    const cell = band && dilemma.domain ? cellCounts.get(`${dilemma.domain}|${band}`) : undefined;
+    if (cell) cell.count++;
+  }
+
+  const motifPairs = Array.from(pairCounts.values()).sort(byCountThenName(cell => cell.motifs.join('|')));
+  const domainDifficulty = Array.from(cellCounts.values()).sort(byCountThenName(cell => `${cell.domain}|${cell.band}`));
+  return {
+    dilemmas: corpus.length,
+    motifPairs,
+    domainDifficulty,
+    emptyMotifPairs: motifPairs.filter(cell => cell.count === 0).length,
+    emptyDomainCells: domainDifficulty.filter(cell => cell.count === 0).length
+  };
+}
+
+/**
+ * Pair the emptiest motif pairs with the emptiest domain × difficulty cells,
+ * one target each, so a batch spreads across both grids at once
+ */
+export function selectTargets(report: CoverageReport, count: number): GenerationTarget[] {
+  const { motifPairs, domainDifficulty } = report;
+  if (motifPairs.length === 0 || domainDifficulty.length === 0) return [];
+
+  return Array.from({ length: count }, (_, i) => {
+    const cell = domainDifficulty[i % domainDifficulty.length];
+    const difficulty = DIFFICULTY_BANDS.find(band => band.band === cell.band)!.target;
+    return { motifs: motifPairs[i % motifPairs.length].motifs, domain: cell.domain, band: cell.band, difficulty };
+  });
+}
+
+const words = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(word => word.length > 2));
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Jaccard similarity of the two texts' word sets
+export function scenarioSimilarity(a: string, b: string): number {
+  const first = words(a);
+  const second = words(b);
+  if (first.size === 0 || second.size === 0) return 0;
+  let shared = 0;
+  first.forEach(word => { if (second.has(word)) shared++; });
+  return shared / (first.size + second.size - shared);
+}
+
+/**
+ * The existing dilemma a candidate repeats - same title once case and
+ * punctuation are ignored, or a near-identical scenario - if any
+ */
+export function findDuplicate(
+  candidate: { title: string; scenario: string },
+  existing: { title: string; scenario: string }[]
+): { title: string; scenario: string } | null {
+  const title = normalizeTitle(candidate.title);
+  return existing.find(other =>
+    normalizeTitle(other.title) === title ||
+    scenarioSimilarity(candidate.scenario, other.scenario) >= SCENARIO_SIMILARITY_THRESHOLD
+  ) ?? null;
+}
+
+async function loadCoverageCorpus(): Promise<CoverageDilemma[]> {
+  return db
+    .select({
+      title: dilemmas.title,
+      scenario: dilemmas.scenario,
+      domain: dilemmas.domain,
+      difficulty: dilemmas.difficulty,
+      choiceAMotif: dilemmas.choiceAMotif,
+      choiceBMotif: dilemmas.choiceBMotif,
+      choiceCMotif: dilemmas.choiceCMotif,
+      choiceDMotif: dilemmas.choiceDMotif
+    })
+    .from(dilemmas)
+    .where(inArray(dilemmas.status, COVERAGE_STATUSES));
+}
+
+export async function buildCoverageReport(domains?: string[]): Promise<CoverageReport> {
+  const [corpus, motifRows] = await Promise.all([loadCoverageCorpus(), db.select().from(motifs)]);
+  return computeCoverage(corpus, motifRows, domains);
+}
+
+/**
+ * Generate candidates for the emptiest coverage cells and stage the ones that
+ * aren't duplicates for review. Candidates are generated one at a time so
+ * each is checked against the ones staged before it.
+ */
+export async function generateCoverageBatch(
+  request: CoverageBatchRequest,
+  generate: DilemmaGenerator = openRouter.generateDilemma.bind(openRouter)
+): Promise<CoverageBatchResult> {
+  const [corpus, motifRows, frameworkRows] = await Promise.all([
+    loadCoverageCorpus(),
+    db.select().from(motifs),
+    db.select({ frameworkId: frameworks.frameworkId, tradition: frameworks.tradition }).from(frameworks)
+  ]);
+  const before = computeCoverage(corpus, motifRows, request.domains);
+  const targets = selectTargets(before, request.count);
+  const categories = new Map(motifRows.map(motif => [motif.motifId, motif.category]));
+
+  const seen: CoverageDilemma[] = [...corpus];
+  const result: CoverageBatchResult = { before, after: before, targets, staged: [], offTarget: [], duplicates: [], failed: [] };
+
+  for (const target of targets) {
+    // The frameworks behind the two motifs, matched on tradition
+    const traditions = new Set(target.motifs.flatMap(id => {
+      const category = categories.get(id);
+      return category ? [CATEGORY_TO_TRADITION[category] || category] : [];
+    }));
+    const targetFrameworks = frameworkRows.filter(f => !!f.tradition && traditions.has(f.tradition)).map(f => f.frameworkId);
+
+    try {
+      const candidate = await generate(
+        targetFrameworks,
+        target.motifs,
+        target.domain,
+        target.difficulty,
+        seen.filter(d => d.domain === target.domain).map(d => d.title)
+      );
+
+      // It would fill no gap - and would count towards a pair it doesn't cover
+      const motifs = candidate.choices.map(choice => choice.motif).filter(Boolean);
+      if (!target.motifs.every(motif => motifs.includes(motif))) {
+        result.offTarget.push({ title: candidate.title, motifs, target });
+        continue;
+      }
+
+      const duplicate = findDuplicate(candidate, seen);
+      if (duplicate) {
+        result.duplicates.push({ title: candidate.title, duplicateOf: duplicate.title, target });
+        continue;
+      }
+
+      const row = {
+        domain: target.domain,
+        generatorType: COVERAGE_GENERATOR_TYPE,
+        difficulty: target.difficulty,
+        title: candidate.title,
+        scenario: candidate.scenario,
+        choiceA: candidate.choices[0]?.text || '',
+        choiceAMotif: candidate.choices[0]?.motif || '',
+        choiceB: candidate.choices[1]?.text || '',
+        choiceBMotif: candidate.choices[1]?.motif || '',
+        choiceC: candidate.choices[2]?.text || '',
+        choiceCMotif: candidate.choices[2]?.motif || '',
+        choiceD: candidate.choices[3]?.text || '',
+        choiceDMotif: candidate.choices[3]?.motif || '',
+        targetMotifs: target.motifs.join(','),
+        stakeholders: candidate.stakeholders.join(','),
+        culturalContext: candidate.culturalContext,
+        // Scored by the reviewer before it can be approved
+        tensionStrength: null,
+        status: GENERATED_DILEMMA_STATUS
+      };
+      const [saved] = await db.insert(dilemmas).values(row).returning({ dilemmaId: dilemmas.dilemmaId });
+
+      seen.push(row);
+      result.staged.push({ dilemmaId: saved.dilemmaId, title: candidate.title, target });
+    } catch (error) {
+      result.failed.push({ target, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  result.after = computeCoverage(seen, motifRows, request.domains);
+  return result;
+}
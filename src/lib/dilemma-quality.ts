@@ -0,0 +1,263 @@
+/**
+ * Dilemma Quality
+ *
+ * Item statistics for each dilemma from consented responses: how evenly the
+ * options are chosen (entropy), options almost nobody picks, how long people
+ * take, how hard they found it against the authored difficulty, and
+ * discrimination - whether picking an option tracks the respondent's leaning
+ * towards that option's motif across their other answers. A dilemma whose
+ * choices don't follow anyone's profile tells us little about their values.
+ *
+ * The scoring job stores the statistics in dilemma_quality and writes
+ * discrimination back to the dilemma as validationScore. realismScore and
+ * tensionStrength stay reviewer judgements - option balance is only kept
+ * here, as entropy.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { dilemmaQuality, dilemmas, userDemographics, userResponses, type Dilemma, type UserResponse } from './schema';
+
+// Fewer responses than this and the shares are mostly noise - the dilemma isn't scored
+export const MIN_QUALITY_RESPONSES = 20;
+
+// An option chosen by fewer than this share of respondents isn't doing any work
+export const DEAD_OPTION_SHARE = 0.02;
+
+// Discrimination needs each respondent's leaning from at least this many other answers
+export const MIN_PROFILE_RESPONSES = 3;
+export const MIN_DISCRIMINATION_RESPONDENTS = 10;
+
+export const QUALITY_THRESHOLDS = {
+  lowEntropy: 0.5,        // normalized entropy below this: one option dominates
+  difficultyMismatch: 3,  // |perceived - authored| at or above this, on the 1-10 scale
+  lowDiscrimination: 0.1
+};
+
+export type QualityFlag = 'dead_options' | 'low_entropy' | 'difficulty_mismatch' | 'low_discrimination';
+
+const OPTIONS = ['a', 'b', 'c', 'd'] as const;
+
+export type QualityResponse = Pick<UserResponse, 'sessionId' | 'dilemmaId' | 'chosenOption' | 'responseTime' | 'perceivedDifficulty'>;
+
+export type QualityDilemma = Pick<Dilemma,
+  'dilemmaId' | 'difficulty' | 'choiceA' | 'choiceB' | 'choiceC' | 'choiceD' |
+  'choiceAMotif' | 'choiceBMotif' | 'choiceCMotif' | 'choiceDMotif'>;
+
+export interface DilemmaQualityScore {
+  dilemmaId: string;
+  responses: number;
+  optionShares: Record<string, number>;
+  entropy: number;           // bits
+  normalizedEntropy: number; // 0-1; 1 when every real option is chosen equally
+  deadOptions: string[];
+  meanResponseTime: number | null;
+  meanPerceivedDifficulty: number | null;
+  authoredDifficulty: number | null;
+  discrimination: number | null; // -1 to 1
+  flags: QualityFlag[];
+}
+
+export interface QualityRunSummary {
+  scored: number;
+  flagged: number;
+  skipped: number; // dilemmas with responses, but fewer than MIN_QUALITY_RESPONSES
+}
+
+const round = (value: number, places: number = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+function pearson(x: number[], y: number[]): number | null {
+  const mx = mean(x)!;
+  const my = mean(y)!;
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - mx) * (y[i] - my);
+    vx += (x[i] - mx) ** 2;
+    vy += (y[i] - my) ** 2;
+  }
+  return vx === 0 || vy === 0 ? null : covariance / Math.sqrt(vx * vy);
+}
+
+const motifOf = (dilemma: QualityDilemma, option: string): string | null =>
+  ({ a: dilemma.choiceAMotif, b: dilemma.choiceBMotif, c: dilemma.choiceCMotif, d: dilemma.choiceDMotif })[option] ?? null;
+
+// Options with real text - placeholders like "Not applicable" can't be dead
+const realOptions = (dilemma: QualityDilemma): string[] =>
+  OPTIONS.filter(option => {
+    const text = { a: dilemma.choiceA, b: dilemma.choiceB, c: dilemma.choiceC, d: dilemma.choiceD }[option];
+    return !!text && text.trim().toLowerCase() !== 'not applicable';
+  });
+
+/**
+ * Share-weighted mean over options of the correlation between choosing the
+ * option and the respondent's share of other answers on that option's motif
+ */
+function itemDiscrimination(
+  dilemma: QualityDilemma,
+  answers: QualityResponse[],
+  motifsBySession: Map<string, { dilemmaId: string; motif: string }[]>,
+  shares: Record<string, number>
+): number | null {
+  const respondents = answers.flatMap(answer => {
+    const others = (motifsBySession.get(answer.sessionId) || []).filter(r => r.dilemmaId !== dilemma.dilemmaId);
+    return others.length >= MIN_PROFILE_RESPONSES ? [{ option: answer.chosenOption.toLowerCase(), others }] : [];
+  });
+  if (respondents.length < MIN_DISCRIMINATION_RESPONDENTS) return null;
+
+  let weighted = 0;
+  let weight = 0;
+  for (const option of realOptions(dilemma)) {
+    const motif = motifOf(dilemma, option);
+    if (!motif) continue;
+    const chose = respondents.map(r => (r.option === option ? 1 : 0));
+    const leaning = respondents.map(r => r.others.filter(other => other.motif === motif).length / r.others.length);
+    const correlation = pearson(chose, leaning);
+    if (correlation === null) continue;
+    weighted += correlation * shares[option];
+    weight += shares[option];
+  }
+  return weight > 0 ? round(weighted / weight) : null;
+}
+
+export function computeDilemmaQuality(responses: QualityResponse[], dilemmaRows: QualityDilemma[]): DilemmaQualityScore[] {
+  const byId = new Map(dilemmaRows.map(dilemma => [dilemma.dilemmaId, dilemma]));
+
+  // Every session's chosen motifs, for the rest-of-profile leaning
+  const motifsBySession = new Map<string, { dilemmaId: string; motif: string }[]>();
+  const answersByDilemma = new Map<string, QualityResponse[]>();
+  for (const response of responses) {
+    const dilemma = byId.get(response.dilemmaId);
+    if (!dilemma) continue;
+    const motif = motifOf(dilemma, response.chosenOption.toLowerCase());
+    if (motif) {
+      if (!motifsBySession.has(response.sessionId)) motifsBySession.set(response.sessionId, []);
+      motifsBySession.get(response.sessionId)!.push({ dilemmaId: response.dilemmaId, motif });
+    }
+    if (!answersByDilemma.has(response.dilemmaId)) answersByDilemma.set(response.dilemmaId, []);
+    answersByDilemma.get(response.dilemmaId)!.push(response);
+  }
+
+  const scores: DilemmaQualityScore[] = [];
+  for (const [dilemmaId, answers] of answersByDilemma) {
+    if (answers.length < MIN_QUALITY_RESPONSES) continue;
+    const dilemma = byId.get(dilemmaId)!;
+    const options = realOptions(dilemma);
+
+    const optionShares = Object.fromEntries(options.map(option => [
+      option,
+      round(answers.filter(answer => answer.chosenOption.toLowerCase() === option).length / answers.length)
+    ]));
+    const entropy = options.reduce((sum, option) => (optionShares[option] > 0 ? sum - optionShares[option] * Math.log2(optionShares[option]) : sum), 0);
+    const normalizedEntropy = options.length > 1 ? entropy / Math.log2(options.length) : 0;
+    const deadOptions = options.filter(option => optionShares[option] < DEAD_OPTION_SHARE);
+
+    // The responses API stores 0 when the client didn't time the answer
+    const meanResponseTime = mean(answers.map(a => a.responseTime).filter((t): t is number => !!t && t > 0));
+    const meanPerceivedDifficulty = mean(answers.map(a => a.perceivedDifficulty).filter((d): d is number => d !== null));
+    const discrimination = itemDiscrimination(dilemma, answers, motifsBySession, optionShares);
+
+    const flags: QualityFlag[] = [];
+    if (deadOptions.length > 0) flags.push('dead_options');
+    if (normalizedEntropy < QUALITY_THRESHOLDS.lowEntropy) flags.push('low_entropy');
+    if (meanPerceivedDifficulty !== null && dilemma.difficulty !== null &&
+        Math.abs(meanPerceivedDifficulty - dilemma.difficulty) >= QUALITY_THRESHOLDS.difficultyMismatch) {
+      flags.push('difficulty_mismatch');
+    }
+    if (discrimination !== null && discrimination < QUALITY_THRESHOLDS.lowDiscrimination) flags.push('low_discrimination');
+
+    scores.push({
+      dilemmaId,
+      responses: answers.length,
+      optionShares,
+      entropy: round(entropy),
+      normalizedEntropy: round(normalizedEntropy),
+      deadOptions,
+      meanResponseTime: meanResponseTime === null ? null : Math.round(meanResponseTime),
+      meanPerceivedDifficulty: meanPerceivedDifficulty === null ? null : round(meanPerceivedDifficulty, 1),
+      authoredDifficulty: dilemma.difficulty,
+      discrimination,
+      flags
+    });
+  }
+  return scores;
+}
+
+/**
+ * Score every dilemma with enough consented responses, store the statistics
+ * and write validationScore back to the dilemma
+ */
+export async function scoreDilemmaQuality(): Promise<QualityRunSummary> {
+  const [consented, dilemmaRows] = await Promise.all([
+    db
+      .select({
+        sessionId: userResponses.sessionId,
+        dilemmaId: userResponses.dilemmaId,
+        chosenOption: userResponses.chosenOption,
+        responseTime: userResponses.responseTime,
+        perceivedDifficulty: userResponses.perceivedDifficulty
+      })
+      .from(userResponses)
+      .innerJoin(userDemographics, eq(userDemographics.sessionId, userResponses.sessionId))
+      .where(eq(userDemographics.consentResearch, true)),
+    db.select().from(dilemmas)
+  ]);
+
+  const scores = computeDilemmaQuality(consented, dilemmaRows);
+
+  for (const score of scores) {
+    const values = {
+      responses: score.responses,
+      optionShares: score.optionShares,
+      entropy: score.entropy.toString(),
+      normalizedEntropy: score.normalizedEntropy.toString(),
+      deadOptions: score.deadOptions,
+      meanResponseTime: score.meanResponseTime,
+      meanPerceivedDifficulty: score.meanPerceivedDifficulty?.toString() ?? null,
+      authoredDifficulty: score.authoredDifficulty,
+      discrimination: score.discrimination?.toString() ?? null,
+      flags: score.flags,
+      computedAt: new Date()
+    };
+    await db
+      .insert(dilemmaQuality)
+      .values({ dilemmaId: score.dilemmaId, ...values })
+      .onConflictDoUpdate({ target: dilemmaQuality.dilemmaId, set: values });
+
+    // On the 0-10 scale the reviewer scores use
+    if (score.discrimination !== null) {
+      await db
+        .update(dilemmas)
+        .set({ validationScore: round(Math.max(0, score.discrimination) * 10, 1).toString() })
+        .where(eq(dilemmas.dilemmaId, score.dilemmaId));
+    }
+  }
+
+  const answered = new Set(consented.map(response => response.dilemmaId));
+  return {
+    scored: scores.length,
+    flagged: scores.filter(score => score.flags.length > 0).length,
+    skipped: answered.size - scores.length
+  };
+}
+
+export interface DilemmaQualityRow {
+  dilemmaId: string;
+  title: string;
+  status: string;
+  quality: typeof dilemmaQuality.$inferSelect;
+}
+
+// Stored statistics, dilemmas with the most reasons to rewrite first
+export async function listDilemmaQuality(): Promise<DilemmaQualityRow[]> {
+  const rows = await db
+    .select({ dilemmaId: dilemmas.dilemmaId, title: dilemmas.title, status: dilemmas.status, quality: dilemmaQuality })
+    .from(dilemmaQuality)
+    .innerJoin(dilemmas, eq(dilemmas.dilemmaId, dilemmaQuality.dilemmaId));
+
+  const flagCount = (row: DilemmaQualityRow) => (row.quality.flags as QualityFlag[]).length;
+  return rows.sort((a, b) => flagCount(b) - flagCount(a) || a.title.localeCompare(b.title));
+}
@@ -0,0 +1,140 @@
+/**
+ * Dilemma Review
+ *
+ * Generated dilemmas don't reach participants until a reviewer publishes
+ * them. A dilemma moves draft → in_review → published → retired; a reviewer
+ * can edit its text and motifs and score its realism and tension while it is
+ * not live, then approve it (publish) or reject it back to draft with notes.
+ * Participant-facing routes filter on PUBLISHED_DILEMMA.
+ */
+
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from './db';
+import { dilemmas, type Dilemma } from './schema';
+
+export const DILEMMA_STATUSES = ['draft', 'in_review', 'published', 'retired'] as const;
+
+export type DilemmaStatus = typeof DILEMMA_STATUSES[number];
+
+// Where generated dilemmas start - waiting for a reviewer
+export const GENERATED_DILEMMA_STATUS: DilemmaStatus = 'in_review';
+
+// Condition for every query that serves dilemmas to participants
+export const PUBLISHED_DILEMMA = eq(dilemmas.status, 'published');
+
+export type ReviewAction = 'submit' | 'approve' | 'reject' | 'retire' | 'restore';
+
+// Status each action moves a dilemma from and to
+export const REVIEW_ACTIONS: Record<ReviewAction, { from: DilemmaStatus[]; to: DilemmaStatus }> = {
+  submit: { from: ['draft'], to: 'in_review' },
+  approve: { from: ['in_review'], to: 'published' },
+  reject: { from: ['in_review'], to: 'draft' },
+  retire: { from: ['published'], to: 'retired' },
+  restore: { from: ['retired'], to: 'in_review' }
+};
+
+// Published dilemmas are live and have responses, so their wording is frozen
+export const EDITABLE_STATUSES: DilemmaStatus[] = ['draft', 'in_review'];
+
+const optionalText = z.string().trim().min(1).optional();
+const optionalMotif = z.string().trim().min(1).max(64).optional();
+const score = z.number().min(1).max(10);
+
+export const DilemmaReviewSchema = z.object({
+  action: z.enum(['submit', 'approve', 'reject', 'retire', 'restore']).optional(),
+  edits: z.object({
+    title: optionalText,
+    scenario: optionalText,
+    domain: optionalText,
+    difficulty: z.number().int().min(1).max(10).optional(),
+    choiceA: optionalText,
+    choiceAMotif: optionalMotif,
+    choiceB: optionalText,
+    choiceBMotif: optionalMotif,
+    choiceC: optionalText,
+    choiceCMotif: optionalMotif,
+    choiceD: optionalText,
+    choiceDMotif: optionalMotif
+  }).optional(),
+  realismScore: score.optional(),
+  tensionStrength: score.optional(),
+  notes: z.string().trim().max(2000).optional()
+}).refine(review => review.action !== 'reject' || !!review.notes, {
+  message: 'Rejecting a dilemma needs notes for whoever reworks it',
+  path: ['notes']
+});
+
+export type DilemmaReview = z.infer<typeof DilemmaReviewSchema>;
+
+export type ReviewOutcome =
+  | { ok: true; dilemma: Dilemma }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/**
+ * Dilemmas waiting in a status, oldest first so the queue is worked in order
+ */
+export async function listDilemmasByStatus(status: DilemmaStatus, limit: number = 50): Promise<Dilemma[]> {
+  return db
+    .select()
+    .from(dilemmas)
+    .where(eq(dilemmas.status, status))
+    .orderBy(asc(dilemmas.createdAt))
+    .limit(limit);
+}
+
+export async function countDilemmasByStatus(): Promise<Record<DilemmaStatus, number>> {
+  const rows = await db
+    .select({ status: dilemmas.status, count: sql<number>`count(*)::int` })
+    .from(dilemmas)
+    .groupBy(dilemmas.status);
+  const counts = Object.fromEntries(DILEMMA_STATUSES.map(status => [status, 0])) as Record<DilemmaStatus, number>;
+  rows.forEach(row => { counts[row.status as DilemmaStatus] = row.count; });
+  return counts;
+}
+
+/**
+ * Apply a reviewer's edits, scores and decision in one update. The update
+ * only lands if the dilemma is still in the status it was read in, so two
+ * reviewers acting at once can't both move it.
+ */
+export async function reviewDilemma(dilemmaId: string, review: DilemmaReview, reviewerId: string | null): Promise<ReviewOutcome> {
+  const [current] = await db.select().from(dilemmas).where(eq(dilemmas.dilemmaId, dilemmaId)).limit(1);
+  if (!current) return { ok: false, status: 404, error: 'Dilemma not found' };
+
+  const status = current.status as DilemmaStatus;
+  const transition = review.action ? REVIEW_ACTIONS[review.action] : null;
+  if (transition && !transition.from.includes(status)) {
+    return { ok: false, status: 409, error: `Cannot ${review.action} a dilemma that is ${status}` };
+  }
+
+  const hasEdits = !!review.edits && Object.values(review.edits).some(value => value !== undefined);
+  if (hasEdits && !EDITABLE_STATUSES.includes(status)) {
+    return { ok: false, status: 409, error: `A ${status} dilemma can't be edited - retire it and restore it for review first` };
+  }
+
+  const realismScore = review.realismScore ?? (current.realismScore ? parseFloat(current.realismScore) : null);
+  const tensionStrength = review.tensionStrength ?? (current.tensionStrength ? parseFloat(current.tensionStrength) : null);
+  if (review.action === 'approve' && (realismScore === null || tensionStrength === null)) {
+    return { ok: false, status: 400, error: 'Score realism and tension before approving' };
+  }
+
+  const [updated] = await db
+    .update(dilemmas)
+    .set({
+      ...(review.edits || {}),
+      ...(review.realismScore !== undefined ? { realismScore: review.realismScore.toString() } : {}),
+      ...(review.tensionStrength !== undefined ? { tensionStrength: review.tensionStrength.toString() } : {}),
+      ...(transition ? {
+        status: transition.to,
+        reviewNotes: review.notes ?? null,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date()
+      } : review.notes !== undefined ? { reviewNotes: review.notes } : {})
+    })
+    .where(and(eq(dilemmas.dilemmaId, dilemmaId), eq(dilemmas.status, status)))
+    .returning();
+
+  if (!updated) return { ok: false, status: 409, error: 'Dilemma was changed by another reviewer - reload it' };
+  return { ok: true, dilemma: updated };
+}
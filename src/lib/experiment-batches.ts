@@ -0,0 +1,436 @@
+/**
+ * Experiment Batches
+ *
+ * Persistence for /admin/experiment runs. Each run is an
+ * alignment_experiment_batches row holding the config a worker needs to run
+ * or resume it; the dilemmas it presents are snapshotted into
+ * experiment_test_scenarios when it is queued, every provider answer goes to
+ * experiment_llm_responses, and on completion each provider gets an
+ * experiment_consistency_analysis row comparing it with the other providers.
+ * VALUES.md A/B batches (values-alignment-experiment.ts) share the batch
+ * lifecycle but write their predictions to llm_alignment_experiments;
+ * framing-robustness batches (framing-robustness-experiment.ts) use the
+ * scenario and response tables like a standard run.
+ */
+
+import { and, asc, desc, eq, inArray, lt, or } from 'drizzle-orm';
+import { db } from './db';
+import { isValidChoice } from './llm-choice-parsing';
+import {
+  alignmentExperimentBatches,
+  experimentConsistencyAnalysis,
+  experimentLlmResponses,
+  experimentTestScenarios,
+  llmAlignmentExperiments,
+  type AlignmentExperimentBatch,
+  type Dilemma,
+  type ExperimentTestScenario
+} from './schema';
+
+export const EXPERIMENT_TYPE = 'llm_ethical_reasoning';
+
+export type BatchStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'complete' | 'failed';
+
+// Statuses a batch can still leave; the rest are final
+export const ACTIVE_STATUSES: BatchStatus[] = ['queued', 'running', 'paused'];
+
+// A running batch whose worker hasn't reported for this long is presumed dead and can be reclaimed
+export const STALE_HEARTBEAT_MS = 5 * 60 * 1000;
+
+// Prompt condition a response was collected under; values_document means a full VALUES.md was in the prompt
+export type AlignmentCondition = 'baseline' | 'values_context' | 'values_document';
+
+export interface BatchConfig {
+  providers: string[];
+  temperature: number;
+  maxTokens: number;
+  includeValuesContext: boolean;
+  customInstructions: string;
+  maxSpendUsd?: number | null; // the batch pauses itself rather than spend past this
+  samplesPerPrediction?: number; // draws per scenario and provider
+}
+
+// Batches queued before sampling was added took one sample
+export const samplesOf = (config: { samplesPerPrediction?: number }) => config.samplesPerPrediction ?? 1;
+
+export interface ProviderResponse {
+  provider: string;
+  choice: string;
+  reasoning: string;
+  confidence: number;
+  responseTime: number;
+  cost: number;
+  tokenCount: number;
+  sampleIndex?: number;
+}
+
+/**
+ * Queue a batch with its scenarios planned in order
+ */
+export async function createExperimentBatch(
+  config: BatchConfig,
+  selectedDilemmas: Dilemma[],
+  estimatedCostUsd: number
+): Promise<string> {
+  const [batch] = await db.insert(alignmentExperimentBatches).values({
+    experimentType: EXPERIMENT_TYPE,
+    description: `${selectedDilemmas.length} dilemmas × ${config.providers.length} providers at temperature ${config.temperature}` +
+      (samplesOf(config) > 1 ? `, ${samplesOf(config)} samples each` : '') +
+      (config.includeValuesContext ? ', with values context' : ''),
+    llmProviders: config.providers,
+    testScenariosCount: selectedDilemmas.length,
+    status: 'queued',
+    progressPercent: 0,
+    estimatedCostUsd: estimatedCostUsd.toFixed(4),
+    actualCostUsd: '0',
+    config
+  }).returning({ batchId: alignmentExperimentBatches.batchId });
+
+  // Snapshot of each dilemma as presented, so later edits to it don't change what the batch measured
+  await db.insert(experimentTestScenarios).values(selectedDilemmas.map((dilemma, sequence) => ({
+    batchId: batch.batchId,
+    sourceDilemmaId: dilemma.dilemmaId,
+    variationType: 'original',
+    sequence,
+    scenarioText: dilemma.scenario,
+    choiceA: dilemma.choiceA,
+    choiceB: dilemma.choiceB,
+    choiceC: dilemma.choiceC || '',
+    choiceD: dilemma.choiceD || '',
+    expectedMotifs: {
+      A: dilemma.choiceAMotif,
+      B: dilemma.choiceBMotif,
+      C: dilemma.choiceCMotif,
+      D: dilemma.choiceDMotif
+    },
+    difficultyRating: dilemma.difficulty,
+    domain: dilemma.domain
+  })));
+
+  return batch.batchId;
+}
+
+export async function getBatch(batchId: string): Promise<AlignmentExperimentBatch | null> {
+  const [batch] = await db
+    .select()
+    .from(alignmentExperimentBatches)
+    .where(eq(alignmentExperimentBatches.batchId, batchId));
+  return batch || null;
+}
+
+export async function getBatchScenarios(batchId: string): Promise<ExperimentTestScenario[]> {
+  return db
+    .select()
+    .from(experimentTestScenarios)
+    .where(eq(experimentTestScenarios.batchId, batchId))
+    .orderBy(asc(experimentTestScenarios.sequence));
+}
+
+export async function getBatchResponses(batchId: string) {
+  return db
+    .select()
+    .from(experimentLlmResponses)
+    .where(eq(experimentLlmResponses.batchId, batchId));
+}
+
+export function isHeartbeatStale(batch: Pick<AlignmentExperimentBatch, 'status' | 'heartbeatAt'>, now: number = Date.now()): boolean {
+  return batch.status === 'running' &&
+    (!batch.heartbeatAt || now - new Date(batch.heartbeatAt).getTime() > STALE_HEARTBEAT_MS);
+}
+
+/**
+ * Atomically take a queued batch, or a running one whose worker went quiet.
+ * Returns null if another worker holds it or it is paused or finished.
+ */
+export async function claimExperimentBatch(batchId: string): Promise<AlignmentExperimentBatch | null> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_HEARTBEAT_MS);
+
+  const [batch] = await db
+    .update(alignmentExperimentBatches)
+    .set({ status: 'running', statusReason: null, heartbeatAt: now })
+    .where(and(
+      eq(alignmentExperimentBatches.batchId, batchId),
+      or(
+        eq(alignmentExperimentBatches.status, 'queued'),
+        and(eq(alignmentExperimentBatches.status, 'running'), lt(alignmentExperimentBatches.heartbeatAt, staleBefore))
+      )
+    ))
+    .returning();
+
+  if (batch && !batch.startedAt) {
+    await db
+      .update(alignmentExperimentBatches)
+      .set({ startedAt: now })
+      .where(eq(alignmentExperimentBatches.batchId, batchId));
+  }
+
+  return batch || null;
+}
+
+/**
+ * Batches a worker should pick up: queued ones and running ones that lost their worker
+ */
+export async function findClaimableBatches(): Promise<string[]> {
+  const staleBefore = new Date(Date.now() - STALE_HEARTBEAT_MS);
+  const batches = await db
+    .select({ batchId: alignmentExperimentBatches.batchId })
+    .from(alignmentExperimentBatches)
+    .where(or(
+      eq(alignmentExperimentBatches.status, 'queued'),
+      and(eq(alignmentExperimentBatches.status, 'running'), lt(alignmentExperimentBatches.heartbeatAt, staleBefore))
+    ))
+    .orderBy(asc(alignmentExperimentBatches.createdAt));
+  return batches.map(batch => batch.batchId);
+}
+
+/**
+ * Move a batch to a new status only if it is currently in one of `from`.
+ * Returns the updated batch, or null if it was in some other status.
+ */
+export async function transitionBatch(
+  batchId: string,
+  from: BatchStatus[],
+  to: BatchStatus,
+  statusReason: string | null = null
+): Promise<AlignmentExperimentBatch | null> {
+  const [batch] = await db
+    .update(alignmentExperimentBatches)
+    .set({
+      status: to,
+      statusReason,
+      ...(to === 'cancelled' ? { completedAt: new Date() } : {})
+    })
+    .where(and(
+      eq(alignmentExperimentBatches.batchId, batchId),
+      inArray(alignmentExperimentBatches.status, from)
+    ))
+    .returning();
+  return batch || null;
+}
+
+export function failurePauseReason(failed: number, lastError: unknown): string {
+  const message = lastError instanceof Error ? lastError.message : String(lastError);
+  return `${failed} ${failed === 1 ? 'call' : 'calls'} failed, last with: ${message}. Resume to retry them.`;
+}
+
+/**
+ * Pause a run that left items unanswered after errors. Completing it would drop
+ * them for good, since a complete batch can't be resumed.
+ */
+export async function pauseForFailures(batchId: string, failed: number, lastError: unknown): Promise<void> {
+  await transitionBatch(batchId, ['running'], 'paused', failurePauseReason(failed, lastError));
+}
+
+/**
+ * Change a batch's spend cap, e.g. to resume one paused for budget; null removes the cap
+ */
+export async function setBatchBudget(batch: AlignmentExperimentBatch, maxSpendUsd: number | null): Promise<void> {
+  await db
+    .update(alignmentExperimentBatches)
+    .set({ config: { ...(batch.config as object), maxSpendUsd } })
+    .where(eq(alignmentExperimentBatches.batchId, batch.batchId));
+}
+
+export async function recordProviderResponses(
+  batchId: string,
+  scenario: ExperimentTestScenario,
+  condition: AlignmentCondition,
+  responses: ProviderResponse[]
+): Promise<void> {
+  if (responses.length === 0) return;
+
+  const expectedMotifs = (scenario.expectedMotifs || {}) as Record<string, string | null>;
+
+  await db.insert(experimentLlmResponses).values(responses.map(response => {
+    const motif = expectedMotifs[response.choice.trim().toUpperCase()];
+    return {
+      batchId,
+      scenarioId: scenario.scenarioId,
+      llmProvider: response.provider,
+      alignmentCondition: condition,
+      sampleIndex: response.sampleIndex ?? 0,
+      chosenOption: response.choice,
+      reasoning: response.reasoning,
+      confidenceScore: Math.round(response.confidence),
+      responseTimeMs: response.responseTime,
+      tokenCount: response.tokenCount,
+      costUsd: response.cost.toFixed(4),
+      identifiedMotifs: motif ? [motif] : []
+    };
+  }));
+}
+
+/**
+ * Report progress; returns false once the batch is no longer running (paused or cancelled), so the worker stops
+ */
+export async function heartbeatBatch(batchId: string, progressPercent: number, actualCost: number): Promise<boolean> {
+  const updated = await db
+    .update(alignmentExperimentBatches)
+    .set({
+      progressPercent: Math.round(progressPercent),
+      actualCostUsd: actualCost.toFixed(4),
+      heartbeatAt: new Date()
+    })
+    .where(and(
+      eq(alignmentExperimentBatches.batchId, batchId),
+      eq(alignmentExperimentBatches.status, 'running')
+    ))
+    .returning({ batchId: alignmentExperimentBatches.batchId });
+  return updated.length > 0;
+}
+
+export interface StoredResponse {
+  scenarioId: string | null;
+  llmProvider: string;
+  chosenOption: string;
+  identifiedMotifs: string[] | null;
+}
+
+export interface ProviderConsistency {
+  llmProvider: string;
+  scenarioCount: number;
+  consistentChoices: number;
+  consistencyPercentage: number;
+  conflictingChoices: number;
+  motifConsistency: Record<string, number>;
+  dominantMotifs: string[];
+  sampleSize: number;
+}
+
+/**
+ * Per provider: how often it picked the consensus (most common) choice
+ * across providers for a scenario, and the spread of motifs it chose.
+ * Conflicting choices counts scenarios where providers did not all agree.
+ * Unparseable (invalid) responses are left out entirely.
+ */
+export function analyzeBatchConsistency(allResponses: StoredResponse[]): ProviderConsistency[] {
+  const responses = allResponses.filter(r => isValidChoice(r.chosenOption));
+
+  const byScenario = new Map<string, StoredResponse[]>();
+  for (const response of responses) {
+    const key = response.scenarioId || '';
+    if (!byScenario.has(key)) byScenario.set(key, []);
+    byScenario.get(key)!.push(response);
+  }
+
+  const consensus = new Map<string, { choice: string; unanimous: boolean }>();
+  for (const [scenarioId, scenarioResponses] of byScenario) {
+    const counts: Record<string, number> = {};
+    scenarioResponses.forEach(r => { counts[r.chosenOption] = (counts[r.chosenOption] || 0) + 1; });
+    // Ties go to the alphabetically first choice so the result is deterministic
+    const [choice] = Object.entries(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b))[0];
+    consensus.set(scenarioId, { choice, unanimous: Object.keys(counts).length === 1 });
+  }
+
+  const providers = [...new Set(responses.map(r => r.llmProvider))].sort();
+
+  return providers.map(llmProvider => {
+    const own = responses.filter(r => r.llmProvider === llmProvider);
+    const scenarioIds = new Set(own.map(r => r.scenarioId || ''));
+
+    const consistentChoices = own.filter(r => consensus.get(r.scenarioId || '')?.choice === r.chosenOption).length;
+    const conflictingChoices = [...scenarioIds].filter(id => !consensus.get(id)?.unanimous).length;
+
+    const motifCounts: Record<string, number> = {};
+    own.forEach(r => (r.identifiedMotifs || []).forEach(motif => {
+      motifCounts[motif] = (motifCounts[motif] || 0) + 1;
+    }));
+    const motifConsistency = Object.fromEntries(
+      Object.entries(motifCounts).map(([motif, count]) => [motif, Math.round((count / own.length) * 1000) / 1000])
+    );
+    const dominantMotifs = Object.entries(motifCounts)
+      .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+      .slice(0, 3)
+      .map(([motif]) => motif);
+
+    return {
+      llmProvider,
+      scenarioCount: scenarioIds.size,
+      consistentChoices,
+      consistencyPercentage: own.length > 0 ? Math.round((consistentChoices / own.length) * 10000) / 100 : 0,
+      conflictingChoices,
+      motifConsistency,
+      dominantMotifs,
+      sampleSize: own.length
+    };
+  });
+}
+
+/**
+ * Close the batch and, if it finished with responses, write its consistency analysis
+ */
+export async function completeExperimentBatch(
+  batchId: string,
+  status: 'complete' | 'failed' = 'complete',
+  statusReason: string | null = null
+): Promise<ProviderConsistency[]> {
+  const responses = await db
+    .select({
+      scenarioId: experimentLlmResponses.scenarioId,
+      llmProvider: experimentLlmResponses.llmProvider,
+      chosenOption: experimentLlmResponses.chosenOption,
+      identifiedMotifs: experimentLlmResponses.identifiedMotifs,
+      costUsd: experimentLlmResponses.costUsd
+    })
+    .from(experimentLlmResponses)
+    .where(eq(experimentLlmResponses.batchId, batchId));
+
+  const analysis = status === 'complete' ? analyzeBatchConsistency(responses) : [];
+  if (analysis.length > 0) {
+    await db.insert(experimentConsistencyAnalysis).values(analysis.map(row => ({
+      batchId,
+      llmProvider: row.llmProvider,
+      scenarioCount: row.scenarioCount,
+      consistentChoices: row.consistentChoices,
+      consistencyPercentage: row.consistencyPercentage.toString(),
+      motifConsistency: row.motifConsistency,
+      dominantMotifs: row.dominantMotifs,
+      conflictingChoices: row.conflictingChoices,
+      sampleSize: row.sampleSize
+    })));
+  }
+
+  // VALUES.md A/B batches store their predictions in llm_alignment_experiments instead
+  const predictions = await db
+    .select({ costUsd: llmAlignmentExperiments.costUsd })
+    .from(llmAlignmentExperiments)
+    .where(eq(llmAlignmentExperiments.batchId, batchId));
+
+  const actualCost = [...responses, ...predictions].reduce((sum, r) => sum + parseFloat(r.costUsd || '0'), 0);
+  await db
+    .update(alignmentExperimentBatches)
+    .set({
+      status,
+      statusReason,
+      ...(status === 'complete' ? { progressPercent: 100 } : {}),
+      actualCostUsd: actualCost.toFixed(4),
+      completedAt: new Date()
+    })
+    .where(eq(alignmentExperimentBatches.batchId, batchId));
+
+  return analysis;
+}
+
+/**
+ * Most recent batches with their consistency rows, for comparing runs
+ */
+export async function listExperimentBatches(limit: number = 20) {
+  const batches = await db
+    .select()
+    .from(alignmentExperimentBatches)
+    .orderBy(desc(alignmentExperimentBatches.createdAt))
+    .limit(limit);
+
+  if (batches.length === 0) return [];
+
+  const analyses = await db
+    .select()
+    .from(experimentConsistencyAnalysis)
+    .where(inArray(experimentConsistencyAnalysis.batchId, batches.map(batch => batch.batchId)));
+
+  return batches.map(batch => ({
+    ...batch,
+    consistency: analyses.filter(analysis => analysis.batchId === batch.batchId)
+  }));
+}
@@ -0,0 +1,105 @@
+/**
+ * Experiment Budgets
+ *
+ * Pre-flight cost estimates and the spend cap enforced while a batch runs.
+ * Estimates price every planned prompt at LLM_PROVIDERS rates, counting
+ * prompt tokens with estimateTokens and assuming each answer uses its full
+ * maxTokens, so they err high. A running batch checks the cap before each
+ * call, pricing every repair attempt the call may make, and pauses itself,
+ * with the reason on the batch, rather than overspend.
+ */
+
+import { estimateTokens } from './llm-adapters';
+import { estimateCallCost } from './llm-providers';
+import { buildRepairPrompt, MAX_REPAIR_ATTEMPTS } from './llm-choice-parsing';
+import { transitionBatch } from './experiment-batches';
+
+export interface PlannedPrompt {
+  system: string;
+  user: string;
+}
+
+export interface CostEstimate {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  perProvider: Record<string, number>;
+}
+
+const roundUsd = (usd: number) => Math.round(usd * 10000) / 10000;
+
+/**
+ * Worst-case cost of one call, before it is made. An unparseable reply gets up
+ * to MAX_REPAIR_ATTEMPTS follow-up turns, each resending the conversation so
+ * far with the last reply and a repair prompt added.
+ */
+export function estimatePromptCallCost(provider: string, prompt: PlannedPrompt, maxTokens: number): number {
+  const promptTokens = estimateTokens(`${prompt.system}\n${prompt.user}`);
+  const repairTokens = maxTokens + estimateTokens(buildRepairPrompt(''));
+  let cost = 0;
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    cost += estimateCallCost(provider, promptTokens + attempt * repairTokens, maxTokens);
+  }
+  return cost;
+}
+
+/**
+ * Cost of sending every prompt to every provider
+ */
+export function estimatePromptCost(providers: string[], prompts: PlannedPrompt[], maxTokens: number): CostEstimate {
+  const promptTokens = prompts.map(prompt => estimateTokens(`${prompt.system}\n${prompt.user}`));
+  const inputTokens = promptTokens.reduce((sum, tokens) => sum + tokens, 0);
+  const outputTokens = prompts.length * maxTokens;
+
+  const perProvider = Object.fromEntries(
+    providers.map(provider => [provider, roundUsd(estimateCallCost(provider, inputTokens, outputTokens))])
+  );
+
+  return {
+    calls: prompts.length * providers.length,
+    inputTokens: inputTokens * providers.length,
+    outputTokens: outputTokens * providers.length,
+    estimatedCostUsd: roundUsd(Object.values(perProvider).reduce((sum, cost) => sum + cost, 0)),
+    perProvider
+  };
+}
+
+/**
+ * Scale an estimate made on a sample up to the full plan
+ */
+export function scaleEstimate(estimate: CostEstimate, factor: number): CostEstimate {
+  return {
+    calls: Math.round(estimate.calls * factor),
+    inputTokens: Math.round(estimate.inputTokens * factor),
+    outputTokens: Math.round(estimate.outputTokens * factor),
+    estimatedCostUsd: roundUsd(estimate.estimatedCostUsd * factor),
+    perProvider: Object.fromEntries(
+      Object.entries(estimate.perProvider).map(([provider, cost]) => [provider, roundUsd(cost * factor)])
+    )
+  };
+}
+
+/**
+ * Whether spending `nextCostUsd` more would take the batch past its cap; no cap never exceeds
+ */
+export function exceedsBudget(spentUsd: number, nextCostUsd: number, maxSpendUsd?: number | null): boolean {
+  return maxSpendUsd !== null && maxSpendUsd !== undefined && spentUsd + nextCostUsd > maxSpendUsd;
+}
+
+export function budgetPauseReason(spentUsd: number, nextCostUsd: number, maxSpendUsd: number): string {
+  return `Budget cap reached: $${spentUsd.toFixed(4)} spent of $${maxSpendUsd.toFixed(4)}, ` +
+    `next call estimated at $${nextCostUsd.toFixed(4)}. Raise the cap to resume.`;
+}
+
+/**
+ * Pause a running batch because its next call would exceed the cap
+ */
+export async function pauseForBudget(
+  batchId: string,
+  spentUsd: number,
+  nextCostUsd: number,
+  maxSpendUsd: number
+): Promise<void> {
+  await transitionBatch(batchId, ['running'], 'paused', budgetPauseReason(spentUsd, nextCostUsd, maxSpendUsd));
+}
@@ -0,0 +1,214 @@
+/**
+ * Experiment Statistics
+ *
+ * Significance tests for paired experiment outcomes: McNemar's test for
+ * whether a condition changes correctness on the same items, percentile
+ * bootstrap intervals on the accuracy delta, Cohen's kappa for agreement
+ * between two raters (a person and a model), and p-value correction for
+ * reporting many template × provider comparisons at once, plus the spread of
+ * repeated samples of one choice. The bootstrap is seeded, so the same
+ * results always give the same interval.
+ */
+
+// One item answered under both conditions; true means the answer was correct
+export interface PairedOutcome {
+  baseline: boolean;
+  aligned: boolean;
+}
+
+// Expected correctness under each condition (0-1), e.g. the share of samples that were correct
+export interface PairedScore {
+  baseline: number;
+  aligned: number;
+}
+
+export interface ChoiceDistribution {
+  samples: number;
+  counts: Record<string, number>;
+  majorityChoice: string | null; // ties go to the alphabetically first choice
+  agreementRate: number;         // share of samples that picked the majority choice, 0-1
+  entropy: number;               // bits; 0 when every sample agrees
+}
+
+export interface McNemarResult {
+  baselineOnly: number;     // correct without the treatment, wrong with it
+  alignedOnly: number;      // wrong without, correct with
+  statistic: number | null; // continuity-corrected chi-square; null when the exact test was used
+  pValue: number;           // two-sided
+  exact: boolean;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export type CorrectionMethod = 'holm' | 'benjamini-hochberg';
+
+// Below this many discordant pairs the chi-square approximation is poor, so the exact binomial test is used
+export const MCNEMAR_EXACT_THRESHOLD = 25;
+
+// Abramowitz-Stegun 7.1.26 approximation of erf
+function normalCdf(z: number): number {
+  if (!Number.isFinite(z)) return z > 0 ? 1 : 0;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+}
+
+// mulberry32: small, fast and good enough for resampling
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * McNemar's test on paired correctness. Only discordant pairs carry
+ * information; with fewer than MCNEMAR_EXACT_THRESHOLD of them the exact
+ * binomial version is used.
+ */
+export function mcnemarTest(pairs: PairedOutcome[]): McNemarResult {
+  const baselineOnly = pairs.filter(p => p.baseline && !p.aligned).length;
+  const alignedOnly = pairs.filter(p => !p.baseline && p.aligned).length;
+  const discordant = baselineOnly + alignedOnly;
+
+  if (discordant === 0) {
+    return { baselineOnly, alignedOnly, statistic: null, pValue: 1, exact: true };
+  }
+
+  if (discordant < MCNEMAR_EXACT_THRESHOLD) {
+    let tail = 0;
+    for (let k = 0; k <= Math.min(baselineOnly, alignedOnly); k++) tail += binomial(discordant, k);
+    return {
+      baselineOnly,
+      alignedOnly,
+      statistic: null,
+      pValue: Math.min(1, (2 * tail) / Math.pow(2, discordant)),
+      exact: true
+    };
+  }
+
+  const statistic = Math.pow(Math.abs(baselineOnly - alignedOnly) - 1, 2) / discordant;
+  // A chi-square with one degree of freedom is a squared standard normal
+  return { baselineOnly, alignedOnly, statistic, pValue: 2 * (1 - normalCdf(Math.sqrt(statistic))), exact: false };
+}
+
+/**
+ * Percentile bootstrap interval on the accuracy delta (aligned minus
+ * baseline, in percentage points), resampling pairs so the pairing is kept
+ */
+export function bootstrapDeltaInterval(
+  pairs: (PairedOutcome | PairedScore)[],
+  { iterations = 1000, confidence = 0.95, seed = 1 }: { iterations?: number; confidence?: number; seed?: number } = {}
+): ConfidenceInterval {
+  if (pairs.length === 0) return { lower: 0, upper: 0 };
+
+  const random = seededRandom(seed);
+  const deltas: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let difference = 0;
+    for (let j = 0; j < pairs.length; j++) {
+      const pair = pairs[Math.floor(random() * pairs.length)];
+      difference += Number(pair.aligned) - Number(pair.baseline);
+    }
+    deltas.push((difference / pairs.length) * 100);
+  }
+  deltas.sort((a, b) => a - b);
+
+  const alpha = 1 - confidence;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    lower: round(deltas[Math.floor((alpha / 2) * iterations)]),
+    upper: round(deltas[Math.max(0, Math.ceil((1 - alpha / 2) * iterations) - 1)])
+  };
+}
+
+/**
+ * Cohen's kappa for two raters labelling the same items. Null when chance
+ * agreement is already certain (both always gave the same single label), where
+ * kappa is undefined.
+ */
+export function cohensKappa(ratings: [string, string][]): number | null {
+  if (ratings.length === 0) return null;
+
+  const first: Record<string, number> = {};
+  const second: Record<string, number> = {};
+  let agreements = 0;
+  for (const [a, b] of ratings) {
+    first[a] = (first[a] || 0) + 1;
+    second[b] = (second[b] || 0) + 1;
+    if (a === b) agreements++;
+  }
+
+  const n = ratings.length;
+  const observed = agreements / n;
+  const expected = Object.keys(first).reduce((sum, label) => sum + (first[label] / n) * ((second[label] || 0) / n), 0);
+  if (expected === 1) return null;
+
+  return Math.round(((observed - expected) / (1 - expected)) * 1000) / 1000;
+}
+
+/**
+ * Correct a family of p-values, returned in the input order. Holm controls
+ * the chance of any false positive; Benjamini-Hochberg the expected share of
+ * false positives, which is less conservative for large families.
+ */
+export function adjustPValues(pValues: number[], method: CorrectionMethod = 'holm'): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  if (method === 'holm') {
+    let running = 0;
+    order.forEach(({ p, index }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[index] = running;
+    });
+  } else {
+    let running = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const { p, index } = order[rank];
+      running = Math.min(running, Math.min(1, (m / (rank + 1)) * p));
+      adjusted[index] = running;
+    }
+  }
+
+  return adjusted;
+}
+
+/**
+ * Spread of repeated samples of the same choice
+ */
+export function summarizeChoices(choices: string[]): ChoiceDistribution {
+  const counts: Record<string, number> = {};
+  choices.forEach(choice => { counts[choice] = (counts[choice] || 0) + 1; });
+
+  const ranked = Object.entries(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+  const samples = choices.length;
+  const entropy = ranked.reduce((sum, [, count]) => {
+    const p = count / samples;
+    return sum - p * Math.log2(p);
+  }, 0);
+
+  return {
+    samples,
+    counts,
+    majorityChoice: ranked[0]?.[0] ?? null,
+    agreementRate: samples > 0 ? ranked[0][1] / samples : 0,
+    // -0 when every sample agrees
+    entropy: Math.abs(Math.round(entropy * 1000) / 1000)
+  };
+}
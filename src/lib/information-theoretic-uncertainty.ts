@@ -110,6 +110,70 @@ export class InformationTheoreticUncertainty {
     };
   }
 
+  /**
+   * Expected information gain (nats) about motif weights from observing one choice.
+   *
+   * `optionMotifs` holds the index into `alpha` of each option's motif. The
+   * respondent is assumed to pick among the offered motifs with probability
+   * proportional to their weights; with a Dirichlet belief the weights
+   * restricted to the offered motifs are again Dirichlet, so the mutual
+   * information between choice and weights has a closed form:
+   *   I = H(predictive) − E[H(choice | weights)]
+   *     = −Σ pᵢ log pᵢ − ψ(A + 1) + Σ pᵢ ψ(αᵢ + 1),  pᵢ = αᵢ / A
+   */
+  expectedInformationGain(alpha: number[], optionMotifs: number[]): number {
+    // Options sharing a motif are indistinguishable for the update
+    const offered = Array.from(new Set(optionMotifs.filter(i => i >= 0 && i < alpha.length)));
+    if (offered.length < 2) return 0;
+
+    const offeredMass = offered.reduce((s, i) => s + alpha[i], 0);
+    const probabilities = offered.map(i => alpha[i] / offeredMass);
+
+    const predictiveEntropy = -probabilities.reduce((s, p) => s + (p > 0 ? p * Math.log(p) : 0), 0);
+    const expectedChoiceEntropy = this.digamma(offeredMass + 1) -
+      offered.reduce((s, i, k) => s + probabilities[k] * this.digamma(alpha[i] + 1), 0);
+
+    return Math.max(0, predictiveEntropy - expectedChoiceEntropy);
+  }
+
+  /**
+   * How clearly the leading motif is separated from the runner-up, as a z-score
+   * of the difference in their Dirichlet posterior means
+   */
+  calculateLeadSeparation(alpha: number[]): { leader: number; runnerUp: number; zScore: number } {
+    if (alpha.length < 2) return { leader: 0, runnerUp: -1, zScore: Infinity };
+
+    const alphaSum = alpha.reduce((s, a) => s + a, 0);
+    const ranked = alpha.map((a, i) => ({ i, mean: a / alphaSum })).sort((a, b) => b.mean - a.mean);
+    const [first, second] = ranked;
+
+    // Var(θi − θj) for a Dirichlet, using Var(θi) = m(1−m)/(α0+1) and Cov(θi, θj) = −mi·mj/(α0+1)
+    const variance = (
+      first.mean * (1 - first.mean) +
+      second.mean * (1 - second.mean) +
+      2 * first.mean * second.mean
+    ) / (alphaSum + 1);
+
+    return {
+      leader: first.i,
+      runnerUp: second.i,
+      zScore: variance > 0 ? (first.mean - second.mean) / Math.sqrt(variance) : 0
+    };
+  }
+
+  // Recurrence up to x >= 6, then the asymptotic series
+  private digamma(x: number): number {
+    let result = 0;
+    while (x < 6) {
+      result -= 1 / x;
+      x += 1;
+    }
+    const inv = 1 / x;
+    const inv2 = inv * inv;
+    return result + Math.log(x) - 0.5 * inv -
+      inv2 * (1 / 12 - inv2 * (1 / 120 - inv2 * (1 / 252 - inv2 * (1 / 240 - inv2 / 132))));
+  }
+
   /**
    * Calculate semantic uncertainty using information theory
    */
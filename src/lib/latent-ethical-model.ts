@@ -24,6 +24,8 @@ export interface EthicalDimension {
 }
 
 export interface EthicalManifold {
+  motifIds: string[];              // Motif order used by dimension loadings
+  motifMeans: number[];            // Population mean choice share per motif
   dimensions: EthicalDimension[];  // Discovered ethical dimensions
   correlationStructure: number[][]; // Correlation matrix between dimensions
   populationDistribution: {
@@ -52,6 +54,7 @@ export interface ProcessedDilemma {
   difficulty: number;              // Cognitive difficulty
   discrimination: number[];        // How well it separates ethical positions
   choiceVectors: number[][];       // Ethical position implied by each choice
+  choiceMotifs: (string | null)[]; // Motif behind each choice, a-d
   contextualFactors: {
     domain: string;
     stakeholders: string[];
@@ -77,6 +80,7 @@ export interface LatentEthicalModel {
 export class LatentEthicalEngine {
   private manifold: EthicalManifold | null = null;
   private populationData: UserResponse[] = [];
+  private populationScores: number[][] = [];
   
   /**
    * Initialize the engine with population data to discover ethical dimensions
@@ -93,6 +97,27 @@ export class LatentEthicalEngine {
     console.log(`Discovered ${this.manifold.dimensions.length} ethical dimensions`);
     console.log(`Total variance explained: ${this.manifold.dimensions.reduce((sum, d) => sum + d.varianceExplained, 0).toFixed(1)}%`);
   }
+
+  /**
+   * The fitted manifold, for persisting between processes
+   */
+  getManifold(): EthicalManifold | null {
+    return this.manifold;
+  }
+
+  /**
+   * Restore a previously fitted manifold instead of refitting on population data
+   */
+  loadManifold(manifold: EthicalManifold): void {
+    this.manifold = manifold;
+  }
+
+  /**
+   * Coordinates of every session the manifold was fitted on, without session IDs
+   */
+  getPopulationScores(): number[][] {
+    return this.populationScores;
+  }
   
   /**
    * Estimate individual's latent ethical position
@@ -148,6 +173,7 @@ export class LatentEthicalEngine {
         difficulty: dilemma.difficulty || 5,
         discrimination,
         choiceVectors,
+        choiceMotifs: [dilemma.choiceAMotif, dilemma.choiceBMotif, dilemma.choiceCMotif, dilemma.choiceDMotif],
         contextualFactors: {
           domain: dilemma.domain || 'general',
           stakeholders: this.extractStakeholders(dilemma),
@@ -164,21 +190,31 @@ export class LatentEthicalEngine {
     responses: UserResponse[],
     processedDilemmas: ProcessedDilemma[]
   ): Promise<EthicalManifold> {
-    // Create response matrix (individuals x dilemmas)
-    const responseMatrix = this.createResponseMatrix(responses, processedDilemmas);
+    const motifIds = Array.from(new Set(
+      processedDilemmas.flatMap(d => d.choiceMotifs.filter((m): m is string => !!m))
+    )).sort();
+
+    // Create response matrix (individuals x motif choice shares)
+    const responseMatrix = this.createResponseMatrix(responses, processedDilemmas, motifIds);
+    if (responseMatrix.length < 2 || motifIds.length < 2) {
+      throw new Error('Need responses from at least 2 sessions across at least 2 motifs to discover dimensions');
+    }
     
     // Perform factor analysis
     const factorAnalysis = await this.performFactorAnalysis(responseMatrix);
+    this.populationScores = factorAnalysis.factors;
     
     // Interpret discovered dimensions
-    const dimensions = await this.interpretDimensions(factorAnalysis, processedDilemmas);
+    const dimensions = await this.interpretDimensions(factorAnalysis, motifIds);
     
     // Compute population distribution
-    const populationDistribution = await this.computePopulationDistribution(responseMatrix, dimensions);
+    const populationDistribution = await this.computePopulationDistribution(factorAnalysis.factors, dimensions);
     
     return {
+      motifIds,
+      motifMeans: factorAnalysis.means,
       dimensions,
-      correlationStructure: factorAnalysis.correlations,
+      correlationStructure: this.computeCorrelationMatrix(factorAnalysis.factors),
       populationDistribution
     };
   }
@@ -334,66 +370,101 @@ export class LatentEthicalEngine {
   }
   
   // Helper methods for mathematical operations
-  private createResponseMatrix(responses: UserResponse[], dilemmas: ProcessedDilemma[]): number[][] {
-    // Create matrix where rows are individuals, columns are dilemmas
-    const dilemmaMap = new Map(dilemmas.map(d => [d.id, d]));
+  private createResponseMatrix(
+    responses: UserResponse[],
+    dilemmas: ProcessedDilemma[],
+    motifIds: string[]
+  ): number[][] {
+    // Rows are individuals, columns the share of their choices expressing each motif
     const userSessions = [...new Set(responses.map(r => r.sessionId))];
     
-    return userSessions.map(sessionId => {
-      const userResponses = responses.filter(r => r.sessionId === sessionId);
-      return dilemmas.map(dilemma => {
-        const response = userResponses.find(r => r.dilemmaId === dilemma.id);
-        if (!response) return 0;
-        
-        // Convert choice to numerical value
-        const choiceMap = { 'a': 0, 'b': 1, 'c': 2, 'd': 3 };
-        return choiceMap[response.chosenOption as keyof typeof choiceMap] || 0;
-      });
+    return userSessions
+      .map(sessionId => this.motifShares(responses.filter(r => r.sessionId === sessionId), dilemmas, motifIds))
+      .filter((row): row is number[] => row !== null);
+  }
+
+  /**
+   * Share of an individual's choices that expressed each motif, or null if none map to a known motif
+   */
+  private motifShares(responses: UserResponse[], dilemmas: ProcessedDilemma[], motifIds: string[]): number[] | null {
+    const dilemmaMap = new Map(dilemmas.map(d => [d.id, d]));
+    const motifIndex = new Map(motifIds.map((id, i) => [id, i]));
+    const choiceMap = { 'a': 0, 'b': 1, 'c': 2, 'd': 3 };
+    const counts = new Array(motifIds.length).fill(0);
+    let total = 0;
+    
+    responses.forEach(response => {
+      const dilemma = dilemmaMap.get(response.dilemmaId);
+      const choice = choiceMap[response.chosenOption?.toLowerCase() as keyof typeof choiceMap];
+      const motif = dilemma && choice !== undefined ? dilemma.choiceMotifs[choice] : null;
+      const index = motif ? motifIndex.get(motif) : undefined;
+      if (index === undefined) return;
+      counts[index]++;
+      total++;
     });
+    
+    return total > 0 ? counts.map(c => c / total) : null;
   }
   
   private async performFactorAnalysis(responseMatrix: number[][]): Promise<{
     factors: number[][];
     loadings: number[][];
-    correlations: number[][];
+    means: number[];
     eigenvalues: number[];
+    totalVariance: number;
   }> {
-    // Simplified factor analysis implementation
-    // In production, would use proper statistical library
+    // Principal components of the motif-share covariance
+    const n = responseMatrix.length;
+    const numCols = responseMatrix[0].length;
+    const means = new Array(numCols).fill(0).map((_, j) =>
+      responseMatrix.reduce((sum, row) => sum + row[j], 0) / n
+    );
+    const centered = responseMatrix.map(row => row.map((v, j) => v - means[j]));
+    
+    const covariance = new Array(numCols).fill(0).map((_, i) =>
+      new Array(numCols).fill(0).map((_, j) =>
+        centered.reduce((sum, row) => sum + row[i] * row[j], 0) / (n - 1)
+      )
+    );
     
-    const numFactors = Math.min(5, Math.floor(responseMatrix[0].length / 3));
-    const factors = this.generateRandomMatrix(responseMatrix.length, numFactors);
-    const loadings = this.generateRandomMatrix(responseMatrix[0].length, numFactors);
-    const correlations = this.computeCorrelationMatrix(responseMatrix);
-    const eigenvalues = new Array(numFactors).fill(0).map(() => Math.random());
+    const { values, vectors } = this.symmetricEigen(covariance);
+    const totalVariance = values.reduce((sum, v) => sum + Math.max(0, v), 0);
     
-    return { factors, loadings, correlations, eigenvalues };
+    // Shares sum to 1, so at most numCols - 1 components carry variance
+    const numFactors = Math.max(1, Math.min(5, values.filter(v => v > 1e-9).length));
+    const eigenvalues = values.slice(0, numFactors);
+    const loadings = vectors.map(row => row.slice(0, numFactors));
+    const factors = centered.map(row =>
+      eigenvalues.map((_, k) => row.reduce((sum, v, j) => sum + v * loadings[j][k], 0))
+    );
+    
+    return { factors, loadings, means, eigenvalues, totalVariance };
   }
   
   private async interpretDimensions(
-    factorAnalysis: any,
-    dilemmas: ProcessedDilemma[]
+    factorAnalysis: { loadings: number[][]; eigenvalues: number[]; totalVariance: number; factors: number[][] },
+    motifIds: string[]
   ): Promise<EthicalDimension[]> {
-    // Interpret factors as ethical dimensions
-    const dimensionNames = [
-      'individual-collective',
-      'consequentialist-deontological',
-      'certain-uncertain',
-      'immediate-long-term',
-      'rational-emotional'
-    ];
-    
-    return factorAnalysis.eigenvalues.map((eigenvalue: number, i: number) => ({
-      name: dimensionNames[i] || `dimension-${i}`,
-      loadings: factorAnalysis.loadings.map((loading: number[]) => loading[i]),
-      varianceExplained: (eigenvalue / factorAnalysis.eigenvalues.reduce((sum: number, ev: number) => sum + ev, 0)) * 100,
-      interpretation: `Ethical dimension ${i + 1}`,
-      orthogonality: 1 - Math.abs(this.computeCorrelationWithOthers(factorAnalysis.factors, i))
-    }));
+    // Name each dimension after the motifs at either pole
+    return factorAnalysis.eigenvalues.map((eigenvalue, i) => {
+      const loadings = factorAnalysis.loadings.map(row => row[i]);
+      const ranked = loadings.map((loading, j) => ({ motifId: motifIds[j], loading }))
+        .sort((a, b) => a.loading - b.loading);
+      const negative = ranked[0].motifId;
+      const positive = ranked[ranked.length - 1].motifId;
+      
+      return {
+        name: `${negative}-${positive}`,
+        loadings,
+        varianceExplained: factorAnalysis.totalVariance > 0 ? (eigenvalue / factorAnalysis.totalVariance) * 100 : 0,
+        interpretation: `Higher values mean choosing ${positive} more often and ${negative} less often`,
+        orthogonality: 1 - Math.abs(this.computeCorrelationWithOthers(factorAnalysis.factors, i))
+      };
+    });
   }
   
   private async computePopulationDistribution(
-    responseMatrix: number[][],
+    scores: number[][],
     dimensions: EthicalDimension[]
   ): Promise<{
     mean: number[];
@@ -401,9 +472,19 @@ export class LatentEthicalEngine {
     support: [number, number][];
   }> {
     const numDimensions = dimensions.length;
-    const mean = new Array(numDimensions).fill(0);
-    const covariance = this.generateIdentityMatrix(numDimensions);
-    const support = new Array(numDimensions).fill(0).map(() => [-3, 3] as [number, number]);
+    const n = scores.length;
+    const mean = new Array(numDimensions).fill(0).map((_, k) =>
+      scores.reduce((sum, row) => sum + row[k], 0) / n
+    );
+    const covariance = new Array(numDimensions).fill(0).map((_, i) =>
+      new Array(numDimensions).fill(0).map((_, j) =>
+        scores.reduce((sum, row) => sum + (row[i] - mean[i]) * (row[j] - mean[j]), 0) / (n - 1)
+      )
+    );
+    const support = mean.map((_, k) => {
+      const column = scores.map(row => row[k]);
+      return [Math.min(...column), Math.max(...column)] as [number, number];
+    });
     
     return { mean, covariance, support };
   }
@@ -412,12 +493,39 @@ export class LatentEthicalEngine {
     responses: UserResponse[],
     dilemmas: ProcessedDilemma[]
   ): Promise<{ mean: number[]; precision: number[][] }> {
-    // Simplified likelihood computation
-    const numDimensions = this.manifold?.dimensions.length || 3;
-    const mean = new Array(numDimensions).fill(0);
-    const precision = this.generateIdentityMatrix(numDimensions);
+    if (!this.manifold) throw new Error('Manifold not initialized');
+    const { motifIds, motifMeans, dimensions } = this.manifold;
+    const numDimensions = dimensions.length;
+    
+    const shares = this.motifShares(responses, dilemmas, motifIds);
+    if (!shares) {
+      // No usable responses: an uninformative likelihood leaves the prior untouched
+      return { mean: new Array(numDimensions).fill(0), precision: this.generateZeroMatrix(numDimensions) };
+    }
+    
+    const loadings = motifIds.map((_, j) => dimensions.map(d => d.loadings[j]));
+    const mean = dimensions.map((_, k) =>
+      shares.reduce((sum, share, j) => sum + (share - motifMeans[j]) * loadings[j][k], 0)
+    );
     
-    return { mean, precision };
+    // Multinomial sampling covariance of the shares, smoothed toward the population
+    // so a motif never chosen still carries some variance, projected onto the dimensions
+    const count = responses.length;
+    const p = shares.map((share, j) => (share * count + motifMeans[j]) / (count + 1));
+    const projected = new Array(numDimensions).fill(0).map((_, a) =>
+      new Array(numDimensions).fill(0).map((_, b) => {
+        let total = 0;
+        for (let i = 0; i < p.length; i++) {
+          for (let j = 0; j < p.length; j++) {
+            const sigma = ((i === j ? p[i] : 0) - p[i] * p[j]) / count;
+            total += loadings[i][a] * sigma * loadings[j][b];
+          }
+        }
+        return total + (a === b ? 1e-6 : 0);
+      })
+    );
+    
+    return { mean, precision: this.matrixInverse(projected) };
   }
   
   private async bayesianUpdate(
@@ -444,10 +552,8 @@ export class LatentEthicalEngine {
     return a.reduce((sum, ai, i) => sum + ai * b[i], 0);
   }
   
-  private generateRandomMatrix(rows: number, cols: number): number[][] {
-    return new Array(rows).fill(0).map(() => 
-      new Array(cols).fill(0).map(() => Math.random() * 2 - 1)
-    );
+  private generateZeroMatrix(size: number): number[][] {
+    return new Array(size).fill(0).map(() => new Array(size).fill(0));
   }
   
   private generateIdentityMatrix(size: number): number[][] {
@@ -509,12 +615,84 @@ export class LatentEthicalEngine {
   }
   
   private matrixInverse(matrix: number[][]): number[][] {
-    // Simplified matrix inversion (would use proper library in production)
+    // Gauss-Jordan elimination with partial pivoting
+    const n = matrix.length;
+    const augmented = matrix.map((row, i) => [...row, ...this.generateIdentityMatrix(n)[i]]);
+    
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+      }
+      if (Math.abs(augmented[pivot][col]) < 1e-12) {
+        throw new Error('Matrix is singular');
+      }
+      [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+      
+      const divisor = augmented[col][col];
+      augmented[col] = augmented[col].map(v => v / divisor);
+      
+      for (let row = 0; row < n; row++) {
+        if (row === col) continue;
+        const factor = augmented[row][col];
+        augmented[row] = augmented[row].map((v, j) => v - factor * augmented[col][j]);
+      }
+    }
+    
+    return augmented.map(row => row.slice(n));
+  }
+  
+  /**
+   * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations;
+   * eigenvalues descending, eigenvectors as columns
+   */
+  private symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
     const n = matrix.length;
-    const identity = this.generateIdentityMatrix(n);
+    const a = matrix.map(row => [...row]);
+    const v = this.generateIdentityMatrix(n);
     
-    // For now, return identity (placeholder)
-    return identity;
+    for (let sweep = 0; sweep < 100; sweep++) {
+      let offDiagonal = 0;
+      for (let p = 0; p < n; p++) {
+        for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+      }
+      if (offDiagonal < 1e-20) break;
+      
+      for (let p = 0; p < n; p++) {
+        for (let q = p + 1; q < n; q++) {
+          if (Math.abs(a[p][q]) < 1e-15) continue;
+          const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+          const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+          const c = 1 / Math.sqrt(t * t + 1);
+          const s = t * c;
+          
+          for (let k = 0; k < n; k++) {
+            const akp = a[k][p];
+            const akq = a[k][q];
+            a[k][p] = c * akp - s * akq;
+            a[k][q] = s * akp + c * akq;
+          }
+          for (let k = 0; k < n; k++) {
+            const apk = a[p][k];
+            const aqk = a[q][k];
+            a[p][k] = c * apk - s * aqk;
+            a[q][k] = s * apk + c * aqk;
+          }
+          for (let k = 0; k < n; k++) {
+            const vkp = v[k][p];
+            const vkq = v[k][q];
+            v[k][p] = c * vkp - s * vkq;
+            v[k][q] = s * vkp + c * vkq;
+          }
+        }
+      }
+    }
+    
+    const order = a.map((row, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+    return {
+      values: order.map(i => a[i][i]),
+      vectors: v.map(row => order.map(i => row[i]))
+    };
   }
   
   private matrixAdd(a: number[][], b: number[][]): number[][] {
@@ -0,0 +1,363 @@
+/**
+ * LLM Provider Adapters
+ *
+ * Every model call in the platform goes through an LLMProvider: a single
+ * chat-completion method over a vendor API. Besides the live vendors there is
+ * a deterministic mock and a record/replay wrapper that saves transcripts to
+ * disk, so experiments and dilemma generation can run with no network.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object reply; vendors without a JSON mode rely on the prompt alone
+  responseFormat?: 'json';
+}
+
+export interface LLMCompletion {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Set when the provider knows the real cost (e.g. free mock or local models); otherwise priced by the caller
+  cost?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+// Rough token estimate for APIs that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Any /chat/completions API in the OpenAI format - OpenAI itself, OpenRouter and
+ * local servers such as Ollama, llama.cpp and vLLM
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name || 'openai';
+    this.options = options;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await fetch(`${this.options.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+        ...this.options.headers
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens,
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.name} API error: ${response.status} - ${error}`);
+    }
+
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || '';
+
+    return {
+      content,
+      inputTokens: data.usage?.prompt_tokens ?? estimateTokens(request.messages.map(m => m.content).join('\n')),
+      outputTokens: data.usage?.completion_tokens ?? estimateTokens(content)
+    };
+  }
+
+  /**
+   * Model IDs served by the endpoint (GET /models)
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.options.baseUrl}/models`, {
+      headers: {
+        ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+        ...this.options.headers
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} model list error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id).sort();
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(private apiKey: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens ?? 1000,
+        temperature: request.temperature ?? 0.7,
+        ...(system ? { system } : {}),
+        messages: request.messages.filter(m => m.role !== 'system')
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      content: data.content[0].text,
+      inputTokens: data.usage.input_tokens,
+      outputTokens: data.usage.output_tokens
+    };
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'google';
+
+  constructor(private apiKey: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const fullPrompt = request.messages.map(m => m.content).join('\n\n');
+
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{ text: fullPrompt }]
+        }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens,
+          ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {})
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const content: string = data.candidates[0].content.parts[0].text;
+
+    // Gemini doesn't always report usage, so estimate
+    return {
+      content,
+      inputTokens: estimateTokens(fullPrompt),
+      outputTokens: estimateTokens(content)
+    };
+  }
+}
+
+// Real motif IDs so mock dilemmas pass validation downstream
+const MOCK_MOTIFS = ['UTIL_CALC', 'DEONT_ABSOLUTE', 'CARE_PARTICULAR', 'JUST_PROCEDURAL'];
+
+function hashRequest(request: LLMCompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      request.model,
+      request.messages,
+      request.temperature ?? null,
+      request.maxTokens ?? null,
+      // Only part of the key when set, so transcripts recorded before JSON mode still replay
+      ...(request.responseFormat ? [request.responseFormat] : [])
+    ]))
+    .digest('hex');
+}
+
+/**
+ * Offline provider whose output depends only on the request. It answers in
+ * whichever format the prompt asks for - a choice JSON object, CHOICE lines,
+ * a chosenOption JSON object or a generated dilemma - unless given its own responder.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  constructor(private respond?: (request: LLMCompletionRequest) => string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const prompt = request.messages.map(m => m.content).join('\n\n');
+    const content = this.respond ? this.respond(request) : this.defaultResponse(request, prompt);
+
+    return {
+      content,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(content),
+      cost: 0
+    };
+  }
+
+  private defaultResponse(request: LLMCompletionRequest, prompt: string): string {
+    const seed = parseInt(hashRequest(request).slice(0, 8), 16);
+    const options = ['A', 'B', 'C', 'D'].filter(letter => new RegExp(`^${letter}\\)`, 'mi').test(prompt));
+    const choice = (options.length > 0 ? options : ['A', 'B'])[seed % Math.max(options.length, 2)];
+    const confidence = 5 + (seed % 5);
+
+    if (request.responseFormat === 'json' && prompt.includes('"choice"')) {
+      return JSON.stringify({
+        choice,
+        reasoning: `Mock reasoning for option ${choice}.`,
+        confidence,
+        valuesApplied: ['mock']
+      });
+    }
+
+    if (prompt.includes('CHOICE:')) {
+      return [
+        `CHOICE: ${choice}`,
+        `REASONING: Mock reasoning for option ${choice}.`,
+        `CONFIDENCE: ${confidence}`,
+        'VALUES_APPLIED: mock'
+      ].join('\n');
+    }
+
+    if (prompt.includes('"chosenOption"')) {
+      return JSON.stringify({
+        chosenOption: choice.toLowerCase(),
+        reasoning: `Mock reasoning for option ${choice}.`,
+        confidence: confidence / 10
+      });
+    }
+
+    if (prompt.includes('"scenario"')) {
+      return JSON.stringify({
+        title: `Mock dilemma ${seed.toString(16)}`,
+        scenario: 'A mock scenario generated offline for testing.',
+        choices: MOCK_MOTIFS.map((motif, index) => ({ text: `Mock option ${'ABCD'[index]}`, motif })),
+        stakeholders: ['mock stakeholder'],
+        culturalContext: 'universal',
+        tensionStrength: 0.7
+      });
+    }
+
+    return `Mock response ${seed.toString(16)}`;
+  }
+}
+
+export type TranscriptMode = 'record' | 'replay';
+
+export interface Transcript {
+  provider: string;
+  request: LLMCompletionRequest;
+  completion: LLMCompletion;
+  recordedAt: string;
+}
+
+/**
+ * Wraps a live provider. In record mode every completion is saved as a JSON
+ * transcript keyed by a hash of the request; in replay mode completions are
+ * served from those transcripts and a missing one is an error.
+ */
+export class RecordReplayProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: LLMProvider,
+    private mode: TranscriptMode,
+    private directory: string
+  ) {
+    this.name = inner.name;
+  }
+
+  transcriptPath(request: LLMCompletionRequest): string {
+    return path.join(this.directory, `${this.inner.name}-${hashRequest(request).slice(0, 24)}.json`);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const file = this.transcriptPath(request);
+
+    if (this.mode === 'replay') {
+      let stored: string;
+      try {
+        stored = await fs.readFile(file, 'utf8');
+      } catch {
+        throw new Error(`No recorded transcript for ${request.model} request at ${file}`);
+      }
+      return (JSON.parse(stored) as Transcript).completion;
+    }
+
+    const completion = await this.inner.complete(request);
+    const transcript: Transcript = {
+      provider: this.inner.name,
+      request,
+      completion,
+      recordedAt: new Date().toISOString()
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(transcript, null, 2));
+    return completion;
+  }
+}
+
+export const DEFAULT_TRANSCRIPT_DIR = 'llm-transcripts';
+
+/**
+ * Apply LLM_PROVIDER_MODE (live | mock | record | replay) to a live provider.
+ * The live provider is only built when it will actually be called, so mock
+ * and replay runs need no API keys.
+ */
+export function resolveLLMProvider(name: string, createLive: () => LLMProvider): LLMProvider {
+  const mode = process.env.LLM_PROVIDER_MODE || 'live';
+  const directory = process.env.LLM_TRANSCRIPT_DIR || DEFAULT_TRANSCRIPT_DIR;
+
+  switch (mode) {
+    case 'mock':
+      return new MockProvider();
+    case 'record':
+      return new RecordReplayProvider(createLive(), 'record', directory);
+    case 'replay':
+      return new RecordReplayProvider({
+        name,
+        complete: () => Promise.reject(new Error('Replay mode never calls the live provider'))
+      }, 'replay', directory);
+    case 'live':
+      return createLive();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER_MODE: ${mode}`);
+  }
+}
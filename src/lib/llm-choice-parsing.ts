@@ -0,0 +1,100 @@
+/**
+ * Structured LLM Choices
+ *
+ * Experiment prompts ask for a JSON object; replies are validated against
+ * LLMChoiceSchema rather than scraped. A reply that doesn't validate gets a
+ * bounded number of repair turns, and if it still fails it is recorded as the
+ * INVALID_CHOICE outcome, which analyses exclude instead of counting it as an
+ * answer.
+ */
+
+import { z } from 'zod';
+
+// Recorded in place of an option letter when no valid choice could be parsed
+export const INVALID_CHOICE = 'invalid';
+
+// Follow-up turns asking the model to fix an unparseable reply
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export const LLMChoiceSchema = z.object({
+  choice: z.string().trim().toUpperCase().pipe(z.enum(['A', 'B', 'C', 'D'])),
+  reasoning: z.string().trim().min(1),
+  confidence: z.coerce.number().min(1).max(10),
+  valuesApplied: z.array(z.string()).optional().default([])
+});
+
+export type LLMChoice = z.infer<typeof LLMChoiceSchema>;
+
+export type ChoiceParseResult =
+  | { success: true; choice: LLMChoice }
+  | { success: false; error: string };
+
+// Appended to experiment system prompts
+export const CHOICE_FORMAT_INSTRUCTIONS = `Respond with only a JSON object, no other text:
+{
+  "choice": "A" | "B" | "C" | "D",
+  "reasoning": "your reasoning",
+  "confidence": 1-10,
+  "valuesApplied": ["values or principles you used"]
+}`;
+
+export const isValidChoice = (choice: string) => choice !== INVALID_CHOICE;
+
+// The outermost {...} in a reply, ignoring code fences and surrounding prose
+function extractJsonObject(content: string): string | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start >= 0 && end > start ? content.slice(start, end + 1) : null;
+}
+
+// Older prompts and recorded transcripts use labelled lines (CHOICE: A, CONFIDENCE: 7, ...)
+function readLabelledLines(content: string): Record<string, unknown> | null {
+  const fields: Record<string, unknown> = {};
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*(CHOICE|REASONING|CONFIDENCE|VALUES_APPLIED):\s*(.*)$/);
+    if (!match) continue;
+    const [, label, value] = match;
+    if (label === 'CHOICE') fields.choice = value;
+    if (label === 'REASONING') fields.reasoning = value;
+    if (label === 'CONFIDENCE') fields.confidence = value;
+    if (label === 'VALUES_APPLIED') fields.valuesApplied = value.split(',').map(v => v.trim()).filter(v => v);
+  }
+  return 'choice' in fields ? fields : null;
+}
+
+/**
+ * Validate a reply as a choice; the error says what to fix
+ */
+export function parseChoiceResponse(content: string): ChoiceParseResult {
+  let candidate: unknown = readLabelledLines(content);
+
+  const json = extractJsonObject(content);
+  if (json) {
+    try {
+      candidate = JSON.parse(json);
+    } catch (error) {
+      if (!candidate) {
+        return { success: false, error: `Reply is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+      }
+    }
+  }
+
+  if (!candidate) {
+    return { success: false, error: 'Reply contains no JSON object' };
+  }
+
+  const parsed = LLMChoiceSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.errors.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`).join('; ')
+    };
+  }
+  return { success: true, choice: parsed.data };
+}
+
+export function buildRepairPrompt(error: string): string {
+  return `Your previous reply could not be used (${error}).
+
+${CHOICE_FORMAT_INSTRUCTIONS}`;
+}
@@ -1,18 +1,40 @@
 // Multi-LLM Provider Integration for Experiments
 
+import {
+  AnthropicProvider,
+  GeminiProvider,
+  OpenAICompatibleProvider,
+  resolveLLMProvider,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider
+} from './llm-adapters';
+import {
+  buildRepairPrompt,
+  INVALID_CHOICE,
+  MAX_REPAIR_ATTEMPTS,
+  parseChoiceResponse
+} from './llm-choice-parsing';
+
 interface LLMResponse {
-  choice: string;
+  choice: string; // an option letter, or INVALID_CHOICE when no valid reply was parsed
   reasoning: string;
   confidence: number;
   valuesApplied?: string[];
+  valid: boolean;
+  parseError?: string;
+  attempts: number; // 1 + repair turns used
   tokenCount: number;
   cost: number;
   responseTime: number;
   rawResponse: string;
 }
 
-interface LLMProvider {
+type LLMVendor = 'openai' | 'anthropic' | 'google' | 'local';
+
+export interface LLMProviderConfig {
   name: string;
+  vendor: LLMVendor;
   modelName: string;
   costPerInputToken: number;
   costPerOutputToken: number;
@@ -20,9 +42,10 @@ interface LLMProvider {
   rateLimit: number; // requests per minute
 }
 
-export const LLM_PROVIDERS: Record<string, LLMProvider> = {
+export const LLM_PROVIDERS: Record<string, LLMProviderConfig> = {
   'openai-gpt4': {
     name: 'OpenAI GPT-4',
+    vendor: 'openai',
     modelName: 'gpt-4-turbo-preview',
     costPerInputToken: 0.00001, // $0.01 per 1K tokens
     costPerOutputToken: 0.00003, // $0.03 per 1K tokens
@@ -31,6 +54,7 @@ export const LLM_PROVIDERS: Record<string, LLMProvider> = {
   },
   'openai-gpt35': {
     name: 'OpenAI GPT-3.5 Turbo',
+    vendor: 'openai',
     modelName: 'gpt-3.5-turbo',
     costPerInputToken: 0.0000015, // $0.0015 per 1K tokens
     costPerOutputToken: 0.000002, // $0.002 per 1K tokens
@@ -39,6 +63,7 @@ export const LLM_PROVIDERS: Record<string, LLMProvider> = {
   },
   'anthropic-claude': {
     name: 'Anthropic Claude',
+    vendor: 'anthropic',
     modelName: 'claude-3-5-sonnet-20241022',
     costPerInputToken: 0.000003, // $3 per 1M tokens
     costPerOutputToken: 0.000015, // $15 per 1M tokens
@@ -47,6 +72,7 @@ export const LLM_PROVIDERS: Record<string, LLMProvider> = {
   },
   'google-gemini': {
     name: 'Google Gemini Pro',
+    vendor: 'google',
     modelName: 'gemini-1.5-pro',
     costPerInputToken: 0.00000125, // $1.25 per 1M tokens
     costPerOutputToken: 0.000005, // $5 per 1M tokens
@@ -55,12 +81,78 @@ export const LLM_PROVIDERS: Record<string, LLMProvider> = {
   }
 };
 
+// Local models are addressed as `local:<model id>` against LOCAL_LLM_BASE_URL
+export const LOCAL_PROVIDER_PREFIX = 'local:';
+
+/**
+ * The OpenAI-compatible endpoint of a locally hosted server (Ollama, llama.cpp, vLLM), if configured
+ */
+export function getLocalEndpoint(): { baseUrl: string; apiKey?: string } | null {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) return null;
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: process.env.LOCAL_LLM_API_KEY || undefined
+  };
+}
+
+function createLocalProvider(): OpenAICompatibleProvider {
+  const endpoint = getLocalEndpoint();
+  if (!endpoint) {
+    throw new Error('LOCAL_LLM_BASE_URL is not set');
+  }
+  return new OpenAICompatibleProvider({ name: 'local', ...endpoint });
+}
+
+/**
+ * Model IDs the local endpoint serves, as experiment provider IDs
+ */
+export async function discoverLocalModels(): Promise<string[]> {
+  const models = await createLocalProvider().listModels();
+  return models.map(model => `${LOCAL_PROVIDER_PREFIX}${model}`);
+}
+
+/**
+ * Config for a hosted provider key or a `local:` model - local models cost nothing
+ */
+export function getProviderConfig(provider: string): LLMProviderConfig | undefined {
+  if (!provider.startsWith(LOCAL_PROVIDER_PREFIX)) {
+    return LLM_PROVIDERS[provider];
+  }
+
+  const modelName = provider.slice(LOCAL_PROVIDER_PREFIX.length);
+  if (!modelName) return undefined;
+  return {
+    name: `Local ${modelName}`,
+    vendor: 'local',
+    modelName,
+    costPerInputToken: 0,
+    costPerOutputToken: 0,
+    maxTokens: 4096,
+    rateLimit: 600
+  };
+}
+
+/**
+ * Price a call at the provider's per-token rates
+ */
+export function estimateCallCost(provider: string, inputTokens: number, outputTokens: number): number {
+  const config = getProviderConfig(provider);
+  if (!config) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+  return (inputTokens * config.costPerInputToken) + (outputTokens * config.costPerOutputToken);
+}
+
 export class LLMExperimentRunner {
   private apiKeys: Record<string, string>;
+  private adapters: Partial<Record<LLMVendor, LLMProvider>>;
   private rateLimiters: Map<string, RateLimiter>;
 
-  constructor(apiKeys: Record<string, string>) {
+  // Adapters default to the live vendor APIs (subject to LLM_PROVIDER_MODE); pass them to run offline
+  constructor(apiKeys: Record<string, string>, adapters: Partial<Record<LLMVendor, LLMProvider>> = {}) {
     this.apiKeys = apiKeys;
+    this.adapters = { ...adapters };
     this.rateLimiters = new Map();
     
     // Initialize rate limiters for each provider
@@ -87,13 +179,21 @@ export class LLMExperimentRunner {
     const testPrompt = "Say 'API key valid' if you can read this.";
     
     try {
-      const response = await this.callLLM(provider, testPrompt, testPrompt, 0.1, 50);
-      return response.rawResponse.toLowerCase().includes('api key valid');
+      const { completion } = await this.complete(provider, [
+        { role: 'system', content: testPrompt },
+        { role: 'user', content: testPrompt }
+      ], 0.1, 50, false);
+      return completion.content.toLowerCase().includes('api key valid');
     } catch {
       return false;
     }
   }
 
+  /**
+   * Ask for a choice as JSON and validate it. An unparseable reply gets up to
+   * MAX_REPAIR_ATTEMPTS follow-up turns; if none validates, the response comes
+   * back with choice INVALID_CHOICE. Tokens and cost cover every attempt.
+   */
   async callLLM(
     provider: string,
     systemPrompt: string,
@@ -102,180 +202,113 @@ export class LLMExperimentRunner {
     maxTokens: number = 500
   ): Promise<LLMResponse> {
     const startTime = Date.now();
-    
-    // Wait for rate limit
-    await this.rateLimiters.get(provider)?.wait();
-    
-    let response: any;
-    let cost: number;
-    
-    switch (provider) {
-      case 'openai-gpt4':
-      case 'openai-gpt35':
-        response = await this.callOpenAI(provider, systemPrompt, userPrompt, temperature, maxTokens);
-        break;
-      case 'anthropic-claude':
-        response = await this.callAnthropic(systemPrompt, userPrompt, temperature, maxTokens);
-        break;
-      case 'google-gemini':
-        response = await this.callGemini(systemPrompt, userPrompt, temperature, maxTokens);
-        break;
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
-    }
-    
-    const responseTime = Date.now() - startTime;
-    
-    // Parse structured response
-    const parsed = this.parseStructuredResponse(response.content);
-    
-    // Calculate cost
-    const providerConfig = LLM_PROVIDERS[provider];
-    cost = (response.inputTokens * providerConfig.costPerInputToken) + 
-           (response.outputTokens * providerConfig.costPerOutputToken);
-    
-    return {
-      choice: parsed.choice,
-      reasoning: parsed.reasoning,
-      confidence: parsed.confidence,
-      valuesApplied: parsed.valuesApplied,
-      tokenCount: response.outputTokens,
-      cost,
-      responseTime,
-      rawResponse: response.content
-    };
-  }
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
 
-  private async callOpenAI(provider: string, systemPrompt: string, userPrompt: string, temperature: number, maxTokens: number) {
-    const modelName = LLM_PROVIDERS[provider].modelName;
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKeys.openai}`
-      },
-      body: JSON.stringify({
-        model: modelName,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature,
-        max_tokens: maxTokens
-      })
-    });
+    let tokenCount = 0;
+    let cost = 0;
+    let attempts = 0;
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
+    while (true) {
+      const { completion, cost: attemptCost } = await this.complete(provider, messages, temperature, maxTokens, true);
+      attempts++;
+      tokenCount += completion.outputTokens;
+      cost += attemptCost;
 
-    const data = await response.json();
-    
-    return {
-      content: data.choices[0].message.content,
-      inputTokens: data.usage.prompt_tokens,
-      outputTokens: data.usage.completion_tokens
-    };
-  }
+      const parsed = parseChoiceResponse(completion.content);
+      const responseTime = Date.now() - startTime;
 
-  private async callAnthropic(systemPrompt: string, userPrompt: string, temperature: number, maxTokens: number) {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKeys.anthropic,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-        messages: [
-          { role: 'user', content: userPrompt }
-        ]
-      })
-    });
+      if (parsed.success) {
+        return {
+          ...parsed.choice,
+          valid: true,
+          attempts,
+          tokenCount,
+          cost,
+          responseTime,
+          rawResponse: completion.content
+        };
+      }
 
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.statusText}`);
-    }
+      if (attempts > MAX_REPAIR_ATTEMPTS) {
+        return {
+          choice: INVALID_CHOICE,
+          reasoning: completion.content, // kept so the failure can be inspected
+          confidence: 0,
+          valid: false,
+          parseError: parsed.error,
+          attempts,
+          tokenCount,
+          cost,
+          responseTime,
+          rawResponse: completion.content
+        };
+      }
 
-    const data = await response.json();
-    
-    return {
-      content: data.content[0].text,
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens
-    };
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(parsed.error) }
+      );
+    }
   }
 
-  private async callGemini(systemPrompt: string, userPrompt: string, temperature: number, maxTokens: number) {
-    const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
-    
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent?key=${this.apiKeys.google}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: fullPrompt }]
-        }],
-        generationConfig: {
-          temperature,
-          maxOutputTokens: maxTokens
-        }
-      })
-    });
+  private async complete(
+    provider: string,
+    messages: LLMMessage[],
+    temperature: number,
+    maxTokens: number,
+    json: boolean
+  ): Promise<{ completion: LLMCompletion; cost: number }> {
+    const providerConfig = getProviderConfig(provider);
+    if (!providerConfig) {
+      throw new Error(`Unknown provider: ${provider}`);
+    }
 
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.statusText}`);
+    // Wait for rate limit - local models get a limiter on first use
+    if (!this.rateLimiters.has(provider)) {
+      this.rateLimiters.set(provider, new RateLimiter(providerConfig.rateLimit));
     }
+    await this.rateLimiters.get(provider)!.wait();
 
-    const data = await response.json();
-    
-    // Estimate token usage (Gemini doesn't always provide exact counts)
-    const content = data.candidates[0].content.parts[0].text;
-    const estimatedInputTokens = Math.ceil(fullPrompt.length / 4);
-    const estimatedOutputTokens = Math.ceil(content.length / 4);
-    
-    return {
-      content,
-      inputTokens: estimatedInputTokens,
-      outputTokens: estimatedOutputTokens
-    };
+    const completion = await this.getAdapter(providerConfig.vendor).complete({
+      model: providerConfig.modelName,
+      messages,
+      temperature,
+      maxTokens,
+      ...(json ? { responseFormat: 'json' as const } : {})
+    });
+
+    // Adapters that know their real cost report it; otherwise price the tokens
+    const cost = completion.cost ?? this.estimateCost(provider, completion.inputTokens, completion.outputTokens);
+    return { completion, cost };
   }
 
-  private parseStructuredResponse(response: string): any {
-    const lines = response.split('\n');
-    const result: any = {};
-    
-    for (const line of lines) {
-      if (line.startsWith('CHOICE:')) {
-        result.choice = line.replace('CHOICE:', '').trim();
-      } else if (line.startsWith('REASONING:')) {
-        result.reasoning = line.replace('REASONING:', '').trim();
-      } else if (line.startsWith('CONFIDENCE:')) {
-        result.confidence = parseInt(line.replace('CONFIDENCE:', '').trim()) || 5;
-      } else if (line.startsWith('VALUES_APPLIED:')) {
-        const valuesText = line.replace('VALUES_APPLIED:', '').trim();
-        result.valuesApplied = valuesText.split(',').map(v => v.trim()).filter(v => v);
-      }
+  private getAdapter(vendor: LLMVendor): LLMProvider {
+    if (!this.adapters[vendor]) {
+      this.adapters[vendor] = resolveLLMProvider(vendor, () => {
+        switch (vendor) {
+          case 'openai':
+            return new OpenAICompatibleProvider({
+              name: 'openai',
+              baseUrl: 'https://api.openai.com/v1',
+              apiKey: this.apiKeys.openai
+            });
+          case 'anthropic':
+            return new AnthropicProvider(this.apiKeys.anthropic);
+          case 'google':
+            return new GeminiProvider(this.apiKeys.google);
+          case 'local':
+            return createLocalProvider();
+        }
+      });
     }
-    
-    // Fallbacks for missing fields
-    result.choice = result.choice || 'A';
-    result.reasoning = result.reasoning || response;
-    result.confidence = result.confidence || 5;
-    
-    return result;
+    return this.adapters[vendor]!;
   }
 
   estimateCost(provider: string, inputTokens: number, outputTokens: number): number {
-    const config = LLM_PROVIDERS[provider];
-    return (inputTokens * config.costPerInputToken) + (outputTokens * config.costPerOutputToken);
+    return estimateCallCost(provider, inputTokens, outputTokens);
   }
 }
 
@@ -0,0 +1,170 @@
+/**
+ * Motif Ontology
+ *
+ * The motifs table (seeded from striated/motifs.csv) is the only motif
+ * vocabulary dilemmas may use. Generated dilemmas are checked against it:
+ * each choice's motif must be a known ID - near misses and the old
+ * NUMBERS_FIRST-style IDs are remapped, anything else is rejected - the four
+ * choices must carry four different motifs, and at least one pair of them
+ * must actually conflict according to conflictsWith, otherwise the dilemma
+ * has no tension to measure.
+ */
+
+import { db } from './db';
+import { dilemmas, motifs, type Motif } from './schema';
+
+// The quick-start vocabulary some early seed data used, mapped to the closest ontology motif
+export const LEGACY_MOTIF_ALIASES: Record<string, string> = {
+  NUMBERS_FIRST: 'UTIL_CALC',
+  RULES_FIRST: 'DEONT_ABSOLUTE',
+  PERSON_FIRST: 'CARE_PARTICULAR',
+  SAFETY_FIRST: 'HARM_MINIMIZE',
+  PROCESS_FIRST: 'JUST_PROCEDURAL',
+  UTIL_MAXIMIZE: 'UTIL_CALC',
+  UTIL_MAXIM: 'UTIL_CALC'
+};
+
+export interface MotifOntology {
+  ids: Set<string>;
+  names: Map<string, string>;        // normalised motif name → ID
+  conflicts: Map<string, Set<string>>; // ID → IDs it lists in conflictsWith
+}
+
+export type MotifIssue =
+  | { kind: 'unknown'; choice: string; motif: string }
+  | { kind: 'remapped'; choice: string; motif: string; remappedTo: string }
+  | { kind: 'duplicate'; choice: string; motif: string }
+  | { kind: 'no_conflict'; motifs: string[] };
+
+export interface MotifValidation {
+  valid: boolean;
+  motifs: (string | null)[]; // per choice, after remapping; null where unknown
+  issues: MotifIssue[];      // 'remapped' issues are informational and don't make a dilemma invalid
+}
+
+export interface MissingMotifReference {
+  motifId: string;
+  dilemmas: number;
+  dilemmaIds: string[];
+  suggestion: string | null; // the ontology motif it would remap to
+}
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D'];
+
+const normalize = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export function buildMotifOntology(rows: Pick<Motif, 'motifId' | 'name' | 'conflictsWith'>[]): MotifOntology {
+  return {
+    ids: new Set(rows.map(row => row.motifId)),
+    names: new Map(rows.map(row => [normalize(row.name), row.motifId])),
+    conflicts: new Map(rows.map(row => [
+      row.motifId,
+      new Set((row.conflictsWith || '').split(',').map(id => id.trim()).filter(Boolean))
+    ]))
+  };
+}
+
+export async function loadMotifOntology(): Promise<MotifOntology> {
+  return buildMotifOntology(await db.select().from(motifs));
+}
+
+/**
+ * The ontology ID a motif reference means: the ID itself, the ID with
+ * different case or separators, a motif name, or a legacy alias. Null when
+ * nothing matches.
+ */
+export function resolveMotifId(motif: string, ontology: MotifOntology): string | null {
+  if (ontology.ids.has(motif)) return motif;
+  const normalized = normalize(motif);
+  if (ontology.ids.has(normalized)) return normalized;
+  const byName = ontology.names.get(normalized);
+  if (byName) return byName;
+  const alias = LEGACY_MOTIF_ALIASES[normalized];
+  return alias && ontology.ids.has(alias) ? alias : null;
+}
+
+// Either motif listing the other is enough - conflictsWith isn't kept symmetric in motifs.csv
+export function motifsConflict(a: string, b: string, ontology: MotifOntology): boolean {
+  return !!ontology.conflicts.get(a)?.has(b) || !!ontology.conflicts.get(b)?.has(a);
+}
+
+export function validateDilemmaMotifs(choiceMotifs: string[], ontology: MotifOntology): MotifValidation {
+  const issues: MotifIssue[] = [];
+  const resolved = choiceMotifs.map((motif, index) => {
+    const choice = CHOICE_LETTERS[index];
+    const id = resolveMotifId(motif, ontology);
+    if (!id) {
+      issues.push({ kind: 'unknown', choice, motif });
+    } else if (id !== motif) {
+      issues.push({ kind: 'remapped', choice, motif, remappedTo: id });
+    }
+    return id;
+  });
+
+  const seen = new Set<string>();
+  resolved.forEach((id, index) => {
+    if (!id) return;
+    if (seen.has(id)) issues.push({ kind: 'duplicate', choice: CHOICE_LETTERS[index], motif: id });
+    seen.add(id);
+  });
+
+  const known = Array.from(seen);
+  const hasConflict = known.some((a, i) => known.slice(i + 1).some(b => motifsConflict(a, b, ontology)));
+  if (known.length > 1 && !hasConflict) issues.push({ kind: 'no_conflict', motifs: known });
+
+  return {
+    valid: issues.every(issue => issue.kind === 'remapped'),
+    motifs: resolved,
+    issues
+  };
+}
+
+export function describeMotifIssue(issue: MotifIssue): string {
+  switch (issue.kind) {
+    case 'unknown': return `choice ${issue.choice} uses unknown motif ${issue.motif}`;
+    case 'remapped': return `choice ${issue.choice} motif ${issue.motif} remapped to ${issue.remappedTo}`;
+    case 'duplicate': return `choice ${issue.choice} repeats motif ${issue.motif}`;
+    case 'no_conflict': return `no two of ${issue.motifs.join(', ')} conflict in the ontology`;
+  }
+}
+
+/**
+ * Motif IDs that existing dilemmas reference - in a choice or in
+ * targetMotifs - but that aren't in the motifs table, most-referenced first
+ */
+export async function findMissingMotifReferences(): Promise<MissingMotifReference[]> {
+  const [ontology, rows] = await Promise.all([
+    loadMotifOntology(),
+    db.select({
+      dilemmaId: dilemmas.dilemmaId,
+      choiceAMotif: dilemmas.choiceAMotif,
+      choiceBMotif: dilemmas.choiceBMotif,
+      choiceCMotif: dilemmas.choiceCMotif,
+      choiceDMotif: dilemmas.choiceDMotif,
+      targetMotifs: dilemmas.targetMotifs
+    }).from(dilemmas)
+  ]);
+
+  const missing = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const referenced = [
+      row.choiceAMotif, row.choiceBMotif, row.choiceCMotif, row.choiceDMotif,
+      ...(row.targetMotifs || '').split(',')
+    ].map(motif => motif?.trim()).filter((motif): motif is string => !!motif);
+
+    for (const motif of referenced) {
+      if (ontology.ids.has(motif)) continue;
+      if (!missing.has(motif)) missing.set(motif, new Set());
+      missing.get(motif)!.add(row.dilemmaId);
+    }
+  }
+
+  return Array.from(missing.entries())
+    .map(([motifId, ids]) => ({
+      motifId,
+      dilemmas: ids.size,
+      dilemmaIds: Array.from(ids),
+      suggestion: resolveMotifId(motifId, ontology)
+    }))
+    .sort((a, b) => b.dilemmas - a.dilemmas || a.motifId.localeCompare(b.motifId));
+}
@@ -0,0 +1,223 @@
+/**
+ * Population Manifold
+ *
+ * Fits LatentEthicalEngine on every research-consented session, stores the
+ * resulting manifold, and places individual sessions on the newest one.
+ */
+
+import { desc, eq, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { dilemmas, populationManifolds, userDemographics, userResponses } from './schema';
+import type { Dilemma, PopulationManifoldRecord, UserResponse } from './schema';
+import { LatentEthicalEngine, type EthicalManifold } from './latent-ethical-model';
+import { K_ANONYMITY_THRESHOLD } from './research-aggregates';
+
+// Fewer answers than this say more about noise than about a position
+export const MIN_RESPONSES_PER_SESSION = 3;
+
+// Cells per axis of the population density grid, spanning mean ± 3 SD
+export const DENSITY_GRID_BINS = 8;
+
+export interface ManifoldFitSummary {
+  manifoldId: string;
+  sessionCount: number;
+  responseCount: number;
+  dilemmaCount: number;
+  dimensions: { name: string; varianceExplained: number }[];
+}
+
+export interface PopulationDensityCell {
+  x: [number, number];
+  y: [number, number] | null; // null on a one-dimensional manifold
+  count: number;
+}
+
+export interface SessionPosition {
+  manifoldId: string;
+  coordinates: number[];
+  standardErrors: number[];
+  covariance: number[][];
+  responseCount: number;
+  dimensions: { name: string; interpretation: string; varianceExplained: number }[];
+  population: {
+    mean: number[];
+    covariance: number[][];
+    density: PopulationDensityCell[];
+    sessionCount: number;
+  };
+  fittedAt: Date | null;
+}
+
+/**
+ * Keep only sessions with enough responses to contribute a meaningful row
+ */
+export function filterFittableResponses(responses: UserResponse[]): UserResponse[] {
+  const counts = new Map<string, number>();
+  responses.forEach(r => counts.set(r.sessionId, (counts.get(r.sessionId) || 0) + 1));
+  return responses.filter(r => (counts.get(r.sessionId) || 0) >= MIN_RESPONSES_PER_SESSION);
+}
+
+/**
+ * Bin population points on the first two dimensions. Points outside mean ± 3 SD
+ * fall into the edge cells, and cells with fewer than k sessions are dropped, so
+ * no individual session's coordinates can be read back.
+ */
+export function binPopulationDensity(
+  points: number[][],
+  mean: number[],
+  covariance: number[][],
+  bins: number = DENSITY_GRID_BINS,
+  k: number = K_ANONYMITY_THRESHOLD
+): PopulationDensityCell[] {
+  const axes = mean.slice(0, 2).map((m, a) => {
+    const sd = Math.sqrt(Math.max(0, covariance[a][a])) || 1;
+    return { low: m - 3 * sd, width: (6 * sd) / bins };
+  });
+  const binOf = (value: number, a: number) =>
+    Math.min(bins - 1, Math.max(0, Math.floor((value - axes[a].low) / axes[a].width)));
+  const edges = (index: number, a: number): [number, number] =>
+    [axes[a].low + index * axes[a].width, axes[a].low + (index + 1) * axes[a].width];
+
+  const counts = new Map<string, number>();
+  points.forEach(point => {
+    const key = axes.map((_, a) => binOf(point[a], a)).join(',');
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= k)
+    .map(([key, count]) => {
+      const [i, j] = key.split(',').map(Number);
+      return { x: edges(i, 0), y: axes.length > 1 ? edges(j, 1) : null, count };
+    });
+}
+
+async function loadDilemmasFor(responses: UserResponse[]): Promise<Dilemma[]> {
+  const dilemmaIds = Array.from(new Set(responses.map(r => r.dilemmaId)));
+  if (dilemmaIds.length === 0) return [];
+  return db.select().from(dilemmas).where(inArray(dilemmas.dilemmaId, dilemmaIds));
+}
+
+/**
+ * Fit a fresh manifold on all consented responses and store it
+ */
+export async function fitPopulationManifold(): Promise<ManifoldFitSummary> {
+  const consented = await db
+    .select({ response: userResponses })
+    .from(userResponses)
+    .innerJoin(userDemographics, eq(userDemographics.sessionId, userResponses.sessionId))
+    .where(eq(userDemographics.consentResearch, true));
+
+  const responses = filterFittableResponses(consented.map(row => row.response));
+  const fittedDilemmas = await loadDilemmasFor(responses);
+
+  const engine = new LatentEthicalEngine();
+  await engine.initialize(responses, fittedDilemmas);
+  const manifold = engine.getManifold()!;
+
+  // Rounded so stored points can't be matched back to an exact response pattern
+  const points = engine.getPopulationScores().map(point => point.map(v => Math.round(v * 1000) / 1000));
+  const sessionCount = points.length;
+
+  const [record] = await db
+    .insert(populationManifolds)
+    .values({
+      manifold,
+      populationPoints: points,
+      sessionCount,
+      responseCount: responses.length,
+      dilemmaCount: fittedDilemmas.length
+    })
+    .returning();
+
+  return {
+    manifoldId: record.manifoldId,
+    sessionCount,
+    responseCount: responses.length,
+    dilemmaCount: fittedDilemmas.length,
+    dimensions: manifold.dimensions.map(d => ({ name: d.name, varianceExplained: d.varianceExplained }))
+  };
+}
+
+let runningFit: Promise<ManifoldFitSummary> | null = null;
+
+/**
+ * Start a fit in the background unless one is already running in this process
+ */
+export function startPopulationManifoldFit(): { started: boolean } {
+  if (runningFit) return { started: false };
+
+  runningFit = fitPopulationManifold()
+    .then(summary => {
+      console.log(`Population manifold ${summary.manifoldId} fitted on ${summary.sessionCount} sessions`);
+      return summary;
+    })
+    .catch(error => {
+      console.error('Population manifold fit failed:', error);
+      throw error;
+    })
+    .finally(() => {
+      runningFit = null;
+    });
+  // Failures are logged above; nobody awaits a background fit
+  runningFit.catch(() => {});
+
+  return { started: true };
+}
+
+export function isPopulationManifoldFitRunning(): boolean {
+  return runningFit !== null;
+}
+
+export async function getLatestManifold(): Promise<PopulationManifoldRecord | null> {
+  const [record] = await db
+    .select()
+    .from(populationManifolds)
+    .orderBy(desc(populationManifolds.createdAt))
+    .limit(1);
+  return record || null;
+}
+
+/**
+ * Place a session on the newest manifold; null when no manifold has been fitted yet
+ */
+export async function estimateSessionPosition(sessionId: string): Promise<SessionPosition | null> {
+  const record = await getLatestManifold();
+  if (!record) return null;
+
+  const responses = await db
+    .select()
+    .from(userResponses)
+    .where(eq(userResponses.sessionId, sessionId));
+  const sessionDilemmas = await loadDilemmasFor(responses);
+
+  const manifold = record.manifold as EthicalManifold;
+  const engine = new LatentEthicalEngine();
+  engine.loadManifold(manifold);
+  const { position } = await engine.estimateIndividualPosition(responses, sessionDilemmas);
+
+  return {
+    manifoldId: record.manifoldId,
+    coordinates: position.coordinates,
+    standardErrors: position.uncertainty.map((row, i) => Math.sqrt(Math.max(0, row[i]))),
+    covariance: position.uncertainty,
+    responseCount: responses.length,
+    dimensions: manifold.dimensions.map(d => ({
+      name: d.name,
+      interpretation: d.interpretation,
+      varianceExplained: d.varianceExplained
+    })),
+    // Only the binned density leaves the server - support and raw points pin down the extreme sessions
+    population: {
+      mean: manifold.populationDistribution.mean,
+      covariance: manifold.populationDistribution.covariance,
+      density: binPopulationDensity(
+        record.populationPoints as number[][],
+        manifold.populationDistribution.mean,
+        manifold.populationDistribution.covariance
+      ),
+      sessionCount: record.sessionCount
+    },
+    fittedAt: record.createdAt
+  };
+}
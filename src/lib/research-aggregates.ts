@@ -0,0 +1,241 @@
+/**
+ * Research Aggregates
+ *
+ * Population-level summaries of research-consented sessions: motif
+ * frequencies, dominant framework alignment and per-dilemma choice splits,
+ * optionally broken down by a demographic field. Every count is k-anonymised -
+ * cells drawn from fewer than K_ANONYMITY_THRESHOLD sessions are suppressed,
+ * along with enough neighbouring cells that they can't be recovered by subtraction.
+ */
+
+import { combinatorialGenerator } from './combinatorial-values-generator';
+import { getChosenMotif, toResponsePatterns, type ResolvedResponse } from './values-generation';
+
+export const K_ANONYMITY_THRESHOLD = 5;
+
+export const DEMOGRAPHIC_BREAKDOWNS = ['ageRange', 'culturalBackground', 'geographicRegion'] as const;
+export type DemographicBreakdown = typeof DEMOGRAPHIC_BREAKDOWNS[number];
+
+export const NOT_STATED = 'Not stated';
+export const OTHER_GROUPS = 'Other (smaller groups combined)';
+
+/**
+ * A consented response joined with its dilemma and the session's demographics
+ */
+export interface ConsentedResponseRow extends ResolvedResponse {
+  sessionId: string;
+  dilemmaId: string;
+  ageRange: string | null;
+  culturalBackground: string | null;
+  geographicRegion: string | null;
+}
+
+/**
+ * A count that is null when suppressed
+ */
+export interface AggregateCell {
+  key: string;
+  sessions: number | null;   // distinct contributing sessions
+  count: number | null;      // responses (motifs, choices) or sessions (frameworks)
+  percentage: number | null;
+  suppressed: boolean;
+}
+
+export interface DilemmaChoiceSplit {
+  dilemmaId: string;
+  title: string | null;
+  respondents: number | null;
+  suppressed: boolean;
+  choices: AggregateCell[];
+}
+
+export interface AggregateGroup {
+  value: string;
+  sessionCount: number | null;
+  suppressed: boolean;
+  motifFrequencies: AggregateCell[];
+  frameworkDistribution: AggregateCell[];
+  meanFrameworkAlignment: Record<string, number>;
+  dilemmaSplits: DilemmaChoiceSplit[];
+}
+
+export interface ResearchAggregates {
+  k: number;
+  breakdown: DemographicBreakdown | null;
+  totalSessions: number | null;
+  groups: AggregateGroup[];
+}
+
+interface RawCell {
+  key: string;
+  sessions: Set<string>;
+  count: number;
+}
+
+/**
+ * Turn raw cells into k-anonymised ones. Primary suppression hides cells with
+ * fewer than k sessions; if only one cell would be hidden, the next smallest
+ * is hidden too so the first can't be derived from the total.
+ */
+export function suppressCells(raw: RawCell[], total: number, k = K_ANONYMITY_THRESHOLD): AggregateCell[] {
+  const hidden = new Set(raw.filter(cell => cell.sessions.size < k).map(cell => cell.key));
+
+  if (hidden.size === 1) {
+    const nextSmallest = raw
+      .filter(cell => !hidden.has(cell.key))
+      .sort((a, b) => a.count - b.count)[0];
+    if (nextSmallest) hidden.add(nextSmallest.key);
+  }
+
+  return raw
+    .map(cell => hidden.has(cell.key)
+      ? { key: cell.key, sessions: null, count: null, percentage: null, suppressed: true }
+      : {
+          key: cell.key,
+          sessions: cell.sessions.size,
+          count: cell.count,
+          percentage: total > 0 ? Math.round((cell.count / total) * 1000) / 10 : 0,
+          suppressed: false
+        })
+    .sort((a, b) => (b.count ?? -1) - (a.count ?? -1));
+}
+
+function addToCell(cells: Map<string, RawCell>, key: string, sessionId: string) {
+  const cell = cells.get(key) || { key, sessions: new Set<string>(), count: 0 };
+  cell.sessions.add(sessionId);
+  cell.count++;
+  cells.set(key, cell);
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  });
+  return groups;
+}
+
+function aggregateGroup(value: string, rows: ConsentedResponseRow[], k: number): AggregateGroup {
+  const sessions = groupBy(rows, row => row.sessionId);
+
+  if (sessions.size < k) {
+    return {
+      value,
+      sessionCount: null,
+      suppressed: true,
+      motifFrequencies: [],
+      frameworkDistribution: [],
+      meanFrameworkAlignment: {},
+      dilemmaSplits: []
+    };
+  }
+
+  // Motif frequencies over every response in the group
+  const motifCells = new Map<string, RawCell>();
+  let motifTotal = 0;
+  rows.forEach(row => {
+    const motif = getChosenMotif(row);
+    if (!motif) return;
+    addToCell(motifCells, motif, row.sessionId);
+    motifTotal++;
+  });
+
+  // Each session counts once, under the framework it aligns with most
+  const frameworkCells = new Map<string, RawCell>();
+  const alignmentSums: Record<string, number> = {};
+  sessions.forEach((sessionRows, sessionId) => {
+    const profile = combinatorialGenerator.analyzeResponses(toResponsePatterns(sessionRows));
+    const alignment = Object.entries(profile.frameworkAlignment);
+    alignment.forEach(([framework, percentage]) => {
+      alignmentSums[framework] = (alignmentSums[framework] || 0) + percentage;
+    });
+
+    const dominant = alignment.sort((a, b) => b[1] - a[1])[0];
+    if (dominant) addToCell(frameworkCells, dominant[0], sessionId);
+  });
+
+  const dilemmaSplits = Array.from(groupBy(rows, row => row.dilemmaId).entries()).map(([dilemmaId, dilemmaRows]) => {
+    const respondents = new Set(dilemmaRows.map(row => row.sessionId)).size;
+    if (respondents < k) {
+      return { dilemmaId, title: dilemmaRows[0].title || null, respondents: null, suppressed: true, choices: [] };
+    }
+
+    const choiceCells = new Map<string, RawCell>(
+      ['a', 'b', 'c', 'd'].map(option => [option, { key: option, sessions: new Set<string>(), count: 0 }])
+    );
+    dilemmaRows.forEach(row => {
+      const option = row.chosenOption.toLowerCase();
+      if (choiceCells.has(option)) addToCell(choiceCells, option, row.sessionId);
+    });
+
+    return {
+      dilemmaId,
+      title: dilemmaRows[0].title || null,
+      respondents,
+      suppressed: false,
+      choices: suppressCells(Array.from(choiceCells.values()), dilemmaRows.length, k)
+        .sort((a, b) => a.key.localeCompare(b.key))
+    };
+  }).sort((a, b) => (b.respondents ?? -1) - (a.respondents ?? -1));
+
+  return {
+    value,
+    sessionCount: sessions.size,
+    suppressed: false,
+    motifFrequencies: suppressCells(Array.from(motifCells.values()), motifTotal, k),
+    frameworkDistribution: suppressCells(Array.from(frameworkCells.values()), sessions.size, k),
+    meanFrameworkAlignment: Object.fromEntries(
+      Object.entries(alignmentSums).map(([framework, sum]) => [framework, Math.round(sum / sessions.size)])
+    ),
+    dilemmaSplits
+  };
+}
+
+/**
+ * Aggregate consented responses, overall or per value of a demographic field.
+ * Groups below k are pooled into OTHER_GROUPS rather than dropped, otherwise
+ * their counts could be recovered by subtracting the visible groups from the overall figures.
+ */
+export function buildResearchAggregates(
+  rows: ConsentedResponseRow[],
+  breakdown: DemographicBreakdown | null = null,
+  k = K_ANONYMITY_THRESHOLD
+): ResearchAggregates {
+  const sessionCount = (groupRows: ConsentedResponseRow[]) => new Set(groupRows.map(row => row.sessionId)).size;
+  const totalSessions = sessionCount(rows);
+
+  if (!breakdown) {
+    return {
+      k,
+      breakdown,
+      totalSessions: totalSessions >= k ? totalSessions : null,
+      groups: [aggregateGroup('All', rows, k)]
+    };
+  }
+
+  const visible = Array.from(groupBy(rows, row => row[breakdown] || NOT_STATED).entries())
+    .map(([value, groupRows]) => ({ value, rows: groupRows, sessions: sessionCount(groupRows) }))
+    .sort((a, b) => b.sessions - a.sessions || a.value.localeCompare(b.value));
+
+  let pooled: ConsentedResponseRow[] = [];
+  while (visible.length > 0 && visible[visible.length - 1].sessions < k) {
+    pooled = pooled.concat(visible.pop()!.rows);
+  }
+  // A pool still under k would be exposed by subtraction, so grow it from the smallest visible group
+  while (pooled.length > 0 && sessionCount(pooled) < k && visible.length > 0) {
+    pooled = pooled.concat(visible.pop()!.rows);
+  }
+
+  const groups = visible.map(group => aggregateGroup(group.value, group.rows, k));
+  if (pooled.length > 0) groups.push(aggregateGroup(OTHER_GROUPS, pooled, k));
+
+  return {
+    k,
+    breakdown,
+    totalSessions: totalSessions >= k ? totalSessions : null,
+    groups
+  };
+}
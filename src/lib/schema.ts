@@ -33,6 +33,7 @@ export const motifs = pgTable('motifs', {
 // Ethical dilemma scenarios
 export const dilemmas = pgTable('dilemmas', {
   dilemmaId: uuid('dilemma_id').defaultRandom().primaryKey(),
+  externalId: varchar('external_id'), // corpus ID such as DM001; imports upsert on it
   domain: varchar('domain'),
   generatorType: varchar('generator_type'),
   difficulty: integer('difficulty'),
@@ -52,6 +53,10 @@ export const dilemmas = pgTable('dilemmas', {
   validationScore: decimal('validation_score'),
   realismScore: decimal('realism_score'),
   tensionStrength: decimal('tension_strength'),
+  status: varchar('status').notNull().default('published'), // DilemmaStatus; only published dilemmas are served to participants
+  reviewNotes: text('review_notes'),
+  reviewedBy: varchar('reviewed_by'),
+  reviewedAt: timestamp('reviewed_at'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -95,16 +100,19 @@ export const llmResponses = pgTable('llm_responses', {
 // LLM alignment experiments - testing different values.md compositions
 export const llmAlignmentExperiments = pgTable('llm_alignment_experiments', {
   experimentId: uuid('experiment_id').defaultRandom().primaryKey(),
+  batchId: uuid('batch_id').references(() => alignmentExperimentBatches.batchId),
   humanSessionId: varchar('human_session_id').notNull(),
-  templateType: varchar('template_type').notNull(), // enhanced, narrative, minimalist, framework, stakeholder
+  templateType: varchar('template_type').notNull(), // baseline (no VALUES.md), or a values-templates ID: enhanced, narrative, ...
   modelName: varchar('model_name').notNull(),
+  sampleIndex: integer('sample_index').notNull().default(0), // repeated draws of the same prediction
   valuesDocument: text('values_document').notNull(),
   testDilemmaId: uuid('test_dilemma_id').notNull().references(() => dilemmas.dilemmaId),
   humanChoice: varchar('human_choice').notNull(),
   llmChoice: varchar('llm_choice').notNull(),
   llmReasoning: text('llm_reasoning'),
-  alignmentScore: decimal('alignment_score'), // 0-100 how well LLM matched human
+  alignmentScore: decimal('alignment_score'), // 0-100 how well LLM matched human; with several samples, the share of them that did
   confidenceScore: decimal('confidence_score'),
+  costUsd: decimal('cost_usd', { precision: 8, scale: 4 }),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -163,10 +171,13 @@ export const alignmentExperimentBatches = pgTable('alignment_experiment_batches'
   llmProviders: text('llm_providers').array(),
   testScenariosCount: integer('test_scenarios_count'),
   humanSessionsCount: integer('human_sessions_count'),
-  status: varchar('status').default('queued'),
+  status: varchar('status').default('queued'), // queued | running | paused | cancelled | complete | failed
+  statusReason: text('status_reason'),
   progressPercent: integer('progress_percent').default(0),
-  estimatedCostUsd: decimal('estimated_cost_usd', { precision: 10, scale: 2 }),
-  actualCostUsd: decimal('actual_cost_usd', { precision: 10, scale: 2 }),
+  config: jsonb('config'), // BatchConfig the worker runs with
+  heartbeatAt: timestamp('heartbeat_at'), // a running batch with a stale heartbeat lost its worker
+  estimatedCostUsd: decimal('estimated_cost_usd', { precision: 10, scale: 4 }),
+  actualCostUsd: decimal('actual_cost_usd', { precision: 10, scale: 4 }),
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   createdAt: timestamp('created_at').defaultNow(),
@@ -177,6 +188,9 @@ export const experimentTestScenarios = pgTable('experiment_test_scenarios', {
   batchId: uuid('batch_id').references(() => alignmentExperimentBatches.batchId),
   sourceDilemmaId: uuid('source_dilemma_id').references(() => dilemmas.dilemmaId),
   variationType: varchar('variation_type'),
+  promptsetId: varchar('promptset_id'), // striated/promptsets.csv row a framing variation came from
+  framing: jsonb('framing'), // PromptsetFraming
+  sequence: integer('sequence'), // processing order within the batch
   scenarioText: text('scenario_text').notNull(),
   choiceA: text('choice_a').notNull(),
   choiceB: text('choice_b').notNull(),
@@ -195,6 +209,7 @@ export const experimentLlmResponses = pgTable('experiment_llm_responses', {
   humanSessionId: varchar('human_session_id'),
   llmProvider: varchar('llm_provider').notNull(),
   alignmentCondition: varchar('alignment_condition').notNull(),
+  sampleIndex: integer('sample_index').notNull().default(0), // repeated draws of the same scenario, provider and condition
   valuesDocument: text('values_document'),
   chosenOption: varchar('chosen_option').notNull(),
   reasoning: text('reasoning'),
@@ -213,6 +228,7 @@ export const experimentConsistencyAnalysis = pgTable('experiment_consistency_ana
   batchId: uuid('batch_id').references(() => alignmentExperimentBatches.batchId),
   humanSessionId: varchar('human_session_id'),
   llmProvider: varchar('llm_provider'),
+  templateType: varchar('template_type'), // VALUES.md A/B rows: the template compared with the baseline
   scenarioCount: integer('scenario_count'),
   consistentChoices: integer('consistent_choices'),
   consistencyPercentage: decimal('consistency_percentage'),
@@ -222,11 +238,52 @@ export const experimentConsistencyAnalysis = pgTable('experiment_consistency_ana
   motifConsistency: jsonb('motif_consistency'),
   dominantMotifs: text('dominant_motifs').array(),
   conflictingChoices: integer('conflicting_choices'),
-  statisticalSignificance: decimal('statistical_significance'),
+  statisticalSignificance: decimal('statistical_significance'), // corrected McNemar p-value
   sampleSize: integer('sample_size'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Generated VALUES.md documents, one row per distinct generation for a session
+export const valuesDocuments = pgTable('values_documents', {
+  documentId: uuid('document_id').defaultRandom().primaryKey(),
+  sessionId: varchar('session_id').notNull(),
+  templateId: varchar('template_id').notNull(), // TemplateBlueprint id or combinatorial-<format>
+  generatorVersion: varchar('generator_version').notNull(),
+  responseSetHash: varchar('response_set_hash').notNull(), // sha256 of the responses it was generated from
+  configHash: varchar('config_hash').notNull().default(''), // sha256 of the resolved generation config
+  responseCount: integer('response_count').notNull(),
+  valuesMarkdown: text('values_markdown').notNull(),
+  valuesJson: jsonb('values_json').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Fitted LatentEthicalEngine manifolds; the newest row is the one positions are estimated against
+export const populationManifolds = pgTable('population_manifolds', {
+  manifoldId: uuid('manifold_id').defaultRandom().primaryKey(),
+  manifold: jsonb('manifold').notNull(), // EthicalManifold
+  populationPoints: jsonb('population_points').notNull(), // coordinates of each fitted session, no session IDs
+  sessionCount: integer('session_count').notNull(),
+  responseCount: integer('response_count').notNull(),
+  dilemmaCount: integer('dilemma_count').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Item statistics per dilemma from consented responses, refreshed by scoreDilemmaQuality
+export const dilemmaQuality = pgTable('dilemma_quality', {
+  dilemmaId: uuid('dilemma_id').primaryKey().references(() => dilemmas.dilemmaId, { onDelete: 'cascade' }),
+  responses: integer('responses').notNull(),
+  optionShares: jsonb('option_shares').notNull(), // option letter -> share, 0-1
+  entropy: decimal('entropy').notNull(),
+  normalizedEntropy: decimal('normalized_entropy').notNull(),
+  deadOptions: jsonb('dead_options').notNull(), // option letters chosen under DEAD_OPTION_SHARE
+  meanResponseTime: integer('mean_response_time'),
+  meanPerceivedDifficulty: decimal('mean_perceived_difficulty'),
+  authoredDifficulty: integer('authored_difficulty'),
+  discrimination: decimal('discrimination'),
+  flags: jsonb('flags').notNull(), // QualityFlag[]
+  computedAt: timestamp('computed_at').defaultNow(),
+});
+
 export type Framework = typeof frameworks.$inferSelect;
 export type Motif = typeof motifs.$inferSelect;
 export type Dilemma = typeof dilemmas.$inferSelect;
@@ -237,4 +294,8 @@ export type LlmAlignmentExperiment = typeof llmAlignmentExperiments.$inferSelect
 export type User = typeof users.$inferSelect;
 export type AlignmentExperimentBatch = typeof alignmentExperimentBatches.$inferSelect;
 export type ExperimentTestScenario = typeof experimentTestScenarios.$inferSelect;
-export type ExperimentLlmResponse = typeof experimentLlmResponses.$inferSelect;
\ No newline at end of file
+export type ExperimentLlmResponse = typeof experimentLlmResponses.$inferSelect;
+export type ExperimentConsistencyAnalysisRecord = typeof experimentConsistencyAnalysis.$inferSelect;
+export type ValuesDocumentRecord = typeof valuesDocuments.$inferSelect;
+export type PopulationManifoldRecord = typeof populationManifolds.$inferSelect;
+export type DilemmaQualityRecord = typeof dilemmaQuality.$inferSelect;
@@ -0,0 +1,153 @@
+/**
+ * Session Data Rights
+ *
+ * Anonymous sessions have no account, so control over their stored data is
+ * proven with a session token: an HMAC of the session ID issued once, when
+ * responses are first stored. The token backs export and erasure of every
+ * row keyed by the session.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import {
+  experimentConsistencyAnalysis,
+  experimentLlmResponses,
+  llmAlignmentExperiments,
+  userDemographics,
+  userResponses,
+  valuesDocuments
+} from './schema';
+
+const TOKEN_PURPOSE = 'session-data:v1';
+
+function getTokenSecret(): string {
+  const secret = process.env.SESSION_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_TOKEN_SECRET or NEXTAUTH_SECRET must be set to issue session tokens');
+  }
+  return secret;
+}
+
+/**
+ * Token proving control of a session - deterministic, so it can't be revoked, only the data erased
+ */
+export function issueSessionToken(sessionId: string): string {
+  return createHmac('sha256', getTokenSecret())
+    .update(`${TOKEN_PURPOSE}:${sessionId}`)
+    .digest('base64url');
+}
+
+export function verifySessionToken(sessionId: string, token: string): boolean {
+  const expected = Buffer.from(issueSessionToken(sessionId));
+  const provided = Buffer.from(token);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+export interface SessionDataBundle {
+  sessionId: string;
+  exportedAt: string;
+  tables: {
+    user_responses: Record<string, unknown>[];
+    user_demographics: Record<string, unknown>[];
+    values_documents: Record<string, unknown>[];
+    llm_alignment_experiments: Record<string, unknown>[];
+    experiment_llm_responses: Record<string, unknown>[];
+    experiment_consistency_analysis: Record<string, unknown>[];
+  };
+}
+
+export type SessionDataTable = keyof SessionDataBundle['tables'];
+
+/**
+ * Every stored row keyed by the session, grouped by table
+ */
+export async function collectSessionData(sessionId: string): Promise<SessionDataBundle> {
+  const [responses, demographics, documents, alignment, experimentResponses, consistency] = await Promise.all([
+    db.select().from(userResponses).where(eq(userResponses.sessionId, sessionId)),
+    db.select().from(userDemographics).where(eq(userDemographics.sessionId, sessionId)),
+    db.select().from(valuesDocuments).where(eq(valuesDocuments.sessionId, sessionId)),
+    db.select().from(llmAlignmentExperiments).where(eq(llmAlignmentExperiments.humanSessionId, sessionId)),
+    db.select().from(experimentLlmResponses).where(eq(experimentLlmResponses.humanSessionId, sessionId)),
+    db.select().from(experimentConsistencyAnalysis).where(eq(experimentConsistencyAnalysis.humanSessionId, sessionId))
+  ]);
+
+  return {
+    sessionId,
+    exportedAt: new Date().toISOString(),
+    tables: {
+      user_responses: responses,
+      user_demographics: demographics,
+      values_documents: documents,
+      llm_alignment_experiments: alignment,
+      experiment_llm_responses: experimentResponses,
+      experiment_consistency_analysis: consistency
+    }
+  };
+}
+
+/**
+ * Delete every stored row keyed by the session; returns rows deleted per table
+ */
+export async function eraseSessionData(sessionId: string): Promise<Record<SessionDataTable, number>> {
+  // Experiment rows first - they are derived from the responses
+  const alignment = await db
+    .delete(llmAlignmentExperiments)
+    .where(eq(llmAlignmentExperiments.humanSessionId, sessionId))
+    .returning({ id: llmAlignmentExperiments.experimentId });
+  const experimentResponses = await db
+    .delete(experimentLlmResponses)
+    .where(eq(experimentLlmResponses.humanSessionId, sessionId))
+    .returning({ id: experimentLlmResponses.responseId });
+  const consistency = await db
+    .delete(experimentConsistencyAnalysis)
+    .where(eq(experimentConsistencyAnalysis.humanSessionId, sessionId))
+    .returning({ id: experimentConsistencyAnalysis.analysisId });
+  const documents = await db
+    .delete(valuesDocuments)
+    .where(eq(valuesDocuments.sessionId, sessionId))
+    .returning({ id: valuesDocuments.documentId });
+  const responses = await db
+    .delete(userResponses)
+    .where(eq(userResponses.sessionId, sessionId))
+    .returning({ id: userResponses.responseId });
+  const demographics = await db
+    .delete(userDemographics)
+    .where(eq(userDemographics.sessionId, sessionId))
+    .returning({ id: userDemographics.sessionId });
+
+  return {
+    user_responses: responses.length,
+    user_demographics: demographics.length,
+    values_documents: documents.length,
+    llm_alignment_experiments: alignment.length,
+    experiment_llm_responses: experimentResponses.length,
+    experiment_consistency_analysis: consistency.length
+  };
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function rowsToCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  return [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => toCsvValue(row[column])).join(','))
+  ].join('\n') + '\n';
+}
+
+/**
+ * The bundle as one CSV file per table, keyed by file name
+ */
+export function bundleToCsvFiles(bundle: SessionDataBundle): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(bundle.tables).map(([table, rows]) => [`${table}.csv`, rowsToCsv(rows)])
+  );
+}
@@ -0,0 +1,349 @@
+/**
+ * values.json - Machine-readable VALUES.md Companion
+ *
+ * Structured form of an EthicalProfile so downstream tools don't have to
+ * scrape the markdown. The same document is embedded in VALUES.md as
+ * front-matter and can be parsed back out with parseValuesFrontMatter.
+ */
+
+import matter from 'gray-matter';
+import { z } from 'zod';
+import type { EthicalProfile, MotifFrequency } from './combinatorial-values-generator';
+
+export const VALUES_SCHEMA_VERSION = '1.0.0';
+export const VALUES_SCHEMA_URL = `/api/schema/values?version=${VALUES_SCHEMA_VERSION}`;
+
+const percentage = z.number().min(0).max(100);
+
+const MotifEntrySchema = z.object({
+  motifId: z.string().min(1),
+  name: z.string(),
+  percentage,
+  count: z.number().int().nonnegative(),
+  domains: z.array(z.string())
+});
+
+export const ValuesDocumentSchema = z.object({
+  $schema: z.string().optional(),
+  schemaVersion: z.string(),
+  generatedAt: z.string(),
+  generator: z.object({
+    method: z.enum(['combinatorial', 'template']),
+    templateId: z.string().nullable()
+  }),
+  responseCount: z.number().int().nonnegative(),
+  primaryMotifs: z.array(MotifEntrySchema),
+  secondaryMotifs: z.array(MotifEntrySchema),
+  frameworkAlignment: z.record(z.string(), percentage),
+  decisionPatterns: z.object({
+    consistencyScore: z.number().min(0).max(1),
+    difficultyResponse: z.enum(['consistent', 'adaptive', 'variable']),
+    reasoningStyle: z.enum(['analytical', 'intuitive', 'contextual', 'mixed']),
+    domainSpecificVariation: z.record(z.string(), z.array(z.string()))
+  }),
+  culturalContext: z.object({
+    individualistic: percentage,
+    collectivistic: percentage,
+    hierarchical: percentage,
+    egalitarian: percentage
+  }),
+  conflictResolution: z.object({
+    priorityOrder: z.array(z.string()),
+    rules: z.array(z.object({
+      prefer: z.string(),
+      over: z.string(),
+      rationale: z.string()
+    }))
+  })
+});
+
+export type ValuesDocument = z.infer<typeof ValuesDocumentSchema>;
+
+const percentageSchema = { type: 'number', minimum: 0, maximum: 100 };
+
+const motifEntrySchema = {
+  type: 'object',
+  required: ['motifId', 'name', 'percentage', 'count', 'domains'],
+  properties: {
+    motifId: { type: 'string', minLength: 1, description: 'Motif ID from the striated ontology' },
+    name: { type: 'string' },
+    percentage: percentageSchema,
+    count: { type: 'integer', minimum: 0 },
+    domains: { type: 'array', items: { type: 'string' } }
+  },
+  additionalProperties: false
+};
+
+/**
+ * Published JSON Schemas, keyed by version - old versions stay resolvable once released
+ */
+export const valuesJsonSchemas: Record<string, object> = {
+  '1.0.0': {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: '/api/schema/values?version=1.0.0',
+    title: 'values.json',
+    description: 'Machine-readable companion to a generated VALUES.md',
+    type: 'object',
+    required: [
+      'schemaVersion', 'generatedAt', 'generator', 'responseCount', 'primaryMotifs',
+      'secondaryMotifs', 'frameworkAlignment', 'decisionPatterns', 'culturalContext', 'conflictResolution'
+    ],
+    properties: {
+      $schema: { type: 'string' },
+      schemaVersion: { type: 'string', const: '1.0.0' },
+      generatedAt: { type: 'string', format: 'date-time' },
+      generator: {
+        type: 'object',
+        required: ['method', 'templateId'],
+        properties: {
+          method: { enum: ['combinatorial', 'template'] },
+          templateId: { type: ['string', 'null'] }
+        },
+        additionalProperties: false
+      },
+      responseCount: { type: 'integer', minimum: 0 },
+      primaryMotifs: { type: 'array', items: motifEntrySchema },
+      secondaryMotifs: { type: 'array', items: motifEntrySchema },
+      frameworkAlignment: {
+        type: 'object',
+        description: 'Percentage alignment per framework family',
+        additionalProperties: percentageSchema
+      },
+      decisionPatterns: {
+        type: 'object',
+        required: ['consistencyScore', 'difficultyResponse', 'reasoningStyle', 'domainSpecificVariation'],
+        properties: {
+          consistencyScore: { type: 'number', minimum: 0, maximum: 1 },
+          difficultyResponse: { enum: ['consistent', 'adaptive', 'variable'] },
+          reasoningStyle: { enum: ['analytical', 'intuitive', 'contextual', 'mixed'] },
+          domainSpecificVariation: {
+            type: 'object',
+            additionalProperties: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        additionalProperties: false
+      },
+      culturalContext: {
+        type: 'object',
+        required: ['individualistic', 'collectivistic', 'hierarchical', 'egalitarian'],
+        properties: {
+          individualistic: percentageSchema,
+          collectivistic: percentageSchema,
+          hierarchical: percentageSchema,
+          egalitarian: percentageSchema
+        },
+        additionalProperties: false
+      },
+      conflictResolution: {
+        type: 'object',
+        required: ['priorityOrder', 'rules'],
+        properties: {
+          priorityOrder: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Motif IDs, highest priority first'
+          },
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['prefer', 'over', 'rationale'],
+              properties: {
+                prefer: { type: 'string' },
+                over: { type: 'string' },
+                rationale: { type: 'string' }
+              },
+              additionalProperties: false
+            }
+          }
+        },
+        additionalProperties: false
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+/**
+ * Build the values.json document for a profile
+ */
+export function buildValuesDocument(
+  profile: EthicalProfile,
+  options: { responseCount: number; templateId?: string | null; generatedAt?: string }
+): ValuesDocument {
+  const toEntry = (motif: MotifFrequency) => ({
+    motifId: motif.motifId,
+    name: motif.name,
+    percentage: motif.percentage,
+    count: motif.count,
+    domains: motif.domains
+  });
+
+  return {
+    $schema: VALUES_SCHEMA_URL,
+    schemaVersion: VALUES_SCHEMA_VERSION,
+    generatedAt: options.generatedAt || new Date().toISOString(),
+    generator: {
+      method: options.templateId ? 'template' : 'combinatorial',
+      templateId: options.templateId || null
+    },
+    responseCount: options.responseCount,
+    primaryMotifs: profile.primaryMotifs.map(toEntry),
+    secondaryMotifs: profile.secondaryMotifs.map(toEntry),
+    frameworkAlignment: { ...profile.frameworkAlignment },
+    decisionPatterns: { ...profile.decisionPatterns },
+    culturalContext: { ...profile.culturalContext },
+    conflictResolution: buildConflictResolution(profile)
+  };
+}
+
+/**
+ * Rank motifs by how often they were chosen and state each adjacent pair as a rule;
+ * the ordering is transitive, so adjacent pairs are enough to resolve any conflict
+ */
+function buildConflictResolution(profile: EthicalProfile): ValuesDocument['conflictResolution'] {
+  const ranked = [...profile.primaryMotifs, ...profile.secondaryMotifs]
+    .sort((a, b) => b.count - a.count);
+
+  const rules = ranked.slice(1).map((lower, index) => {
+    const higher = ranked[index];
+    return {
+      prefer: higher.motifId,
+      over: lower.motifId,
+      rationale: `${higher.name} was chosen in ${higher.percentage}% of responses versus ${lower.percentage}% for ${lower.name}`
+    };
+  });
+
+  return {
+    priorityOrder: ranked.map(m => m.motifId),
+    rules
+  };
+}
+
+/**
+ * Embed a values.json document in VALUES.md as YAML front-matter
+ */
+export function embedValuesFrontMatter(markdown: string, document: ValuesDocument): string {
+  // gray-matter's YAML dump rejects undefined values, so round-trip through JSON first
+  return matter.stringify(markdown, JSON.parse(JSON.stringify(document)));
+}
+
+export interface ParsedValuesFrontMatter {
+  document: ValuesDocument | null;
+  body: string;
+  errors: string[];
+}
+
+/**
+ * Read the values.json document back out of a VALUES.md with front-matter
+ */
+export function parseValuesFrontMatter(markdown: string): ParsedValuesFrontMatter {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    // Pass an empty options object so gray-matter doesn't serve a cached result for identical input
+    parsed = matter(markdown, {});
+  } catch (error) {
+    return {
+      document: null,
+      body: markdown,
+      errors: [`Invalid front-matter: ${error instanceof Error ? error.message : String(error)}`]
+    };
+  }
+
+  if (Object.keys(parsed.data).length === 0) {
+    return { document: null, body: parsed.content, errors: ['No front-matter found'] };
+  }
+
+  const result = ValuesDocumentSchema.safeParse(parsed.data);
+  if (!result.success) {
+    return {
+      document: null,
+      body: parsed.content,
+      errors: result.error.errors.map(e => `${e.path.join('.') || 'document'}: ${e.message}`)
+    };
+  }
+
+  return { document: result.data, body: parsed.content, errors: [] };
+}
+
+export interface MotifChange {
+  motifId: string;
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+  change: 'rose' | 'fell' | 'new' | 'dropped';
+}
+
+export interface FrameworkShift {
+  framework: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ValuesDocumentDiff {
+  motifChanges: MotifChange[];
+  frameworkShifts: FrameworkShift[];
+  priorityOrderChanged: boolean;
+  topMotifChanged: boolean;
+}
+
+/**
+ * Semantic diff between two versions of a values.json document; changes
+ * smaller than `threshold` percentage points are treated as noise
+ */
+export function diffValuesDocuments(
+  previous: ValuesDocument,
+  current: ValuesDocument,
+  threshold = 1
+): ValuesDocumentDiff {
+  const toMap = (document: ValuesDocument) => new Map(
+    [...document.primaryMotifs, ...document.secondaryMotifs].map(m => [m.motifId, m])
+  );
+  const before = toMap(previous);
+  const after = toMap(current);
+
+  const motifChanges: MotifChange[] = [];
+  for (const motifId of Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]))) {
+    const old = before.get(motifId);
+    const next = after.get(motifId);
+    const beforePct = old?.percentage || 0;
+    const afterPct = next?.percentage || 0;
+    const delta = afterPct - beforePct;
+
+    if (old && next && Math.abs(delta) < threshold) continue;
+    motifChanges.push({
+      motifId,
+      name: next?.name || old?.name || motifId,
+      before: beforePct,
+      after: afterPct,
+      delta,
+      change: !old ? 'new' : !next ? 'dropped' : delta > 0 ? 'rose' : 'fell'
+    });
+  }
+  motifChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const frameworks = Array.from(new Set([
+    ...Object.keys(previous.frameworkAlignment),
+    ...Object.keys(current.frameworkAlignment)
+  ]));
+  const frameworkShifts = frameworks
+    .map(framework => {
+      const beforePct = previous.frameworkAlignment[framework] || 0;
+      const afterPct = current.frameworkAlignment[framework] || 0;
+      return { framework, before: beforePct, after: afterPct, delta: afterPct - beforePct };
+    })
+    .filter(shift => Math.abs(shift.delta) >= threshold)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const previousOrder = previous.conflictResolution.priorityOrder;
+  const currentOrder = current.conflictResolution.priorityOrder;
+
+  return {
+    motifChanges,
+    frameworkShifts,
+    priorityOrderChanged: previousOrder.join(',') !== currentOrder.join(','),
+    topMotifChanged: previousOrder[0] !== currentOrder[0]
+  };
+}
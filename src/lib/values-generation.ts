@@ -0,0 +1,231 @@
+/**
+ * VALUES.md Generation Inputs
+ *
+ * Turns stored or local responses into the inputs both generators need:
+ * combinatorial ResponsePatterns and the TemplateData consumed by the
+ * TemplateBlueprints in values-templates.ts.
+ */
+
+import { createHash } from 'crypto';
+import type { ResponsePattern, EthicalProfile } from './combinatorial-values-generator';
+import type { TemplateData } from './values-templates';
+import type { Motif, Framework } from './schema';
+
+// Bump when generator output changes so stored documents aren't served for the new version
+export const VALUES_GENERATOR_VERSION = '1.1.0';
+
+/**
+ * A response joined with the dilemma columns needed to interpret it
+ */
+export interface ResolvedResponse {
+  chosenOption: string;
+  reasoning?: string | null;
+  responseTime?: number | null;
+  perceivedDifficulty?: number | null;
+  choiceAMotif: string | null;
+  choiceBMotif: string | null;
+  choiceCMotif: string | null;
+  choiceDMotif: string | null;
+  domain: string | null;
+  difficulty: number | null;
+  title?: string | null;
+  stakeholders?: string | null;
+  culturalContext?: string | null;
+}
+
+// Motif categories whose tradition is named differently in frameworks.csv
+export const CATEGORY_TO_TRADITION: Record<string, string> = {
+  justice: 'political_philosophy',
+  rights: 'political_philosophy',
+  harm_principle: 'consequentialism',
+  autonomy: 'deontological',
+  community: 'communitarianism'
+};
+
+/**
+ * Stable hash of a response set - order-independent, and sensitive to every field the generators read
+ */
+export function hashResponseSet(responses: {
+  dilemmaId: string;
+  chosenOption: string;
+  reasoning?: string | null;
+  responseTime?: number | null;
+  perceivedDifficulty?: number | null;
+}[]): string {
+  const canonical = responses
+    .map(r => JSON.stringify([
+      r.dilemmaId,
+      r.chosenOption.toLowerCase(),
+      r.reasoning || '',
+      r.responseTime || 0,
+      r.perceivedDifficulty || 0
+    ]))
+    .sort();
+  return createHash('sha256').update(canonical.join('\n')).digest('hex');
+}
+
+/**
+ * Stable hash of the resolved generation config - key order doesn't matter, every option does
+ */
+export function hashGenerationConfig(config: object): string {
+  const canonical = JSON.stringify(Object.entries(config).sort(([a], [b]) => a.localeCompare(b)));
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Resolve a response to the motif of the option that was actually chosen
+ */
+export function getChosenMotif(response: ResolvedResponse): string | null {
+  switch (response.chosenOption?.toLowerCase()) {
+    case 'a': return response.choiceAMotif;
+    case 'b': return response.choiceBMotif;
+    case 'c': return response.choiceCMotif;
+    case 'd': return response.choiceDMotif;
+    default: return null;
+  }
+}
+
+/**
+ * Build combinatorial response patterns, skipping answers whose option has no motif
+ */
+export function toResponsePatterns(responses: ResolvedResponse[]): ResponsePattern[] {
+  return responses.flatMap(response => {
+    const motif = getChosenMotif(response);
+    if (!motif) return [];
+
+    return [{
+      chosenOption: response.chosenOption.toLowerCase(),
+      motif,
+      domain: response.domain || 'general',
+      difficulty: response.difficulty || 5,
+      reasoning: response.reasoning || undefined,
+      responseTime: response.responseTime || undefined
+    }];
+  });
+}
+
+/**
+ * Pick the framework whose tradition carries the most weight in the chosen motifs
+ */
+export function selectPrimaryFramework(
+  motifCounts: Record<string, number>,
+  motifRows: Motif[],
+  frameworkRows: Framework[]
+): Framework | null {
+  const traditionWeights = new Map<string, number>();
+
+  for (const [motifId, count] of Object.entries(motifCounts)) {
+    const category = motifRows.find(m => m.motifId === motifId)?.category;
+    if (!category) continue;
+    const tradition = CATEGORY_TO_TRADITION[category] || category;
+    traditionWeights.set(tradition, (traditionWeights.get(tradition) || 0) + count);
+  }
+
+  const ranked = Array.from(traditionWeights.entries()).sort(([, a], [, b]) => b - a);
+  for (const [tradition] of ranked) {
+    const framework = [...frameworkRows]
+      .sort((a, b) => a.frameworkId.localeCompare(b.frameworkId))
+      .find(f => f.tradition === tradition);
+    if (framework) return framework;
+  }
+
+  return null;
+}
+
+/**
+ * Assemble TemplateData from real responses, the motif ontology and the combinatorial profile
+ */
+export function buildTemplateData(
+  responses: ResolvedResponse[],
+  profile: EthicalProfile,
+  motifRows: Motif[],
+  frameworkRows: Framework[]
+): TemplateData {
+  const motifCounts: Record<string, number> = {};
+  const responsePatterns: TemplateData['responsePatterns'] = [];
+
+  for (const response of responses) {
+    const motif = getChosenMotif(response);
+    if (!motif) continue;
+
+    motifCounts[motif] = (motifCounts[motif] || 0) + 1;
+    responsePatterns.push({
+      dilemmaTitle: response.title || 'Untitled dilemma',
+      chosenOption: response.chosenOption.toLowerCase(),
+      chosenMotif: motif,
+      difficulty: response.perceivedDifficulty || response.difficulty || 5,
+      reasoning: response.reasoning || '',
+      stakeholders: response.stakeholders || ''
+    });
+  }
+
+  const topMotifs = Object.entries(motifCounts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([motifId]) => motifId);
+
+  // Prefer the ontology row; fall back to the profile's display name for motifs missing from the table
+  const frequencies = [...profile.primaryMotifs, ...profile.secondaryMotifs];
+  const motifDetails = topMotifs.map(motifId =>
+    motifRows.find(m => m.motifId === motifId) || {
+      motifId,
+      name: frequencies.find(f => f.motifId === motifId)?.name || motifId.replace(/_/g, ' ')
+    }
+  );
+
+  const difficulties = responses.map(r => r.perceivedDifficulty || r.difficulty || 5);
+  const reasonings = responses.map(r => (r.reasoning || '').trim());
+  const averageDifficulty = difficulties.length > 0
+    ? difficulties.reduce((sum, d) => sum + d, 0) / difficulties.length
+    : 5;
+  const reasoningLength = reasonings.length > 0
+    ? reasonings.reduce((sum, r) => sum + r.length, 0) / reasonings.length
+    : 0;
+
+  const culturalContext = Array.from(new Set(
+    responses.map(r => r.culturalContext).filter((c): c is string => !!c)
+  ));
+
+  return {
+    topMotifs,
+    motifCounts,
+    motifDetails,
+    primaryFramework: selectPrimaryFramework(motifCounts, motifRows, frameworkRows),
+    responsePatterns,
+    statisticalAnalysis: {
+      decisionPatterns: {
+        consistencyScore: profile.decisionPatterns.consistencyScore,
+        averageDifficulty,
+        reasoningLength
+      },
+      frameworkAlignment: profile.frameworkAlignment,
+      culturalContext,
+      recommendations: buildRecommendations(responsePatterns.length, topMotifs, motifCounts, reasonings)
+    }
+  };
+}
+
+function buildRecommendations(
+  analyzedCount: number,
+  topMotifs: string[],
+  motifCounts: Record<string, number>,
+  reasonings: string[]
+): string[] {
+  const recommendations: string[] = [];
+
+  if (analyzedCount < 10) {
+    recommendations.push(`Answer more dilemmas to strengthen this profile (currently ${analyzedCount})`);
+  }
+
+  const topShare = analyzedCount > 0 && topMotifs[0] ? motifCounts[topMotifs[0]] / analyzedCount : 0;
+  if (topShare >= 0.6) {
+    recommendations.push(`Strong preference for ${topMotifs[0]} - check it holds in unfamiliar domains`);
+  } else if (topMotifs.length >= 3) {
+    recommendations.push('Values are spread across several motifs - state explicit priorities for conflicts');
+  }
+
+  if (reasonings.filter(r => r.length > 0).length < reasonings.length / 2) {
+    recommendations.push('Add written reasoning to more answers so AI systems can follow your logic');
+  }
+
+  return recommendations;
+}
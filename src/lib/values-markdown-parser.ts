@@ -0,0 +1,474 @@
+/**
+ * VALUES.md Parser and Linter
+ *
+ * Reads an existing VALUES.md back into sections, recognises which generator
+ * format produced it (a TemplateBlueprint or one of the combinatorial formats)
+ * and lints it for missing sections, unknown motif IDs, contradictory
+ * priorities and percentages that don't add up.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import { parseValuesFrontMatter } from './values-document';
+import type { ValuesDocument } from './values-document';
+
+export interface ValuesFormat {
+  id: string;
+  title: string;
+  sections: string[];
+}
+
+/**
+ * Top-level (##) sections each generator emits, keyed by TemplateBlueprint id
+ * or combinatorial templateFormat
+ */
+export const VALUES_FORMATS: ValuesFormat[] = [
+  {
+    id: 'combinatorial-standard',
+    title: 'My Values',
+    sections: ['Core Ethical Framework', 'Decision-Making Patterns', 'Framework Alignment', 'AI Interaction Guidelines', 'Implementation Notes']
+  },
+  {
+    id: 'combinatorial-comprehensive',
+    title: 'My Values',
+    sections: ['Core Ethical Framework', 'Decision-Making Patterns', 'Framework Alignment', 'AI Interaction Guidelines', 'Implementation Notes', 'Detailed Analysis']
+  },
+  {
+    id: 'combinatorial-minimal',
+    title: 'My Values',
+    sections: ['Core Principle', 'AI Guidelines']
+  },
+  {
+    id: 'enhanced',
+    title: 'My Values',
+    sections: ['Core Ethical Framework', 'Decision-Making Patterns', 'Key Behavioral Indicators', 'Reasoning Examples', 'Statistical Analysis', 'Instructions for AI Systems', 'Recommendations from Analysis']
+  },
+  {
+    id: 'narrative',
+    title: 'My Ethical Journey',
+    sections: ['Who I Am', 'My Moral Story', 'Examples from My Journey', 'Guidance for AI Partners']
+  },
+  {
+    id: 'minimalist',
+    title: 'My Values',
+    sections: ['Core Principle', 'Decision Framework', 'AI Instructions']
+  },
+  {
+    id: 'framework',
+    title: 'My Ethical Framework',
+    sections: ['Philosophical Foundation', 'Framework Alignment', 'Moral Motif Analysis', 'Decision-Making Metrics', 'Philosophical Recommendations']
+  },
+  {
+    id: 'stakeholder',
+    title: 'My Values: A Stakeholder-Centered Approach',
+    sections: ['How I See Ethical Decisions', 'My Stakeholder Framework', 'Decision Examples: Stakeholder Impact Analysis', 'Guidance for AI Decision-Making', 'Relationship-Centered Metrics']
+  },
+  {
+    id: 'decision-tree',
+    title: 'My Decision Framework',
+    sections: ['Core Decision Logic', 'Implementation Guidelines']
+  },
+  {
+    id: 'prompt-engineering',
+    title: 'LLM Alignment Prompt: Personal Values',
+    sections: ['Chain-of-Thought Pattern', 'Prompt Engineering Directives', 'Few-Shot Examples']
+  }
+];
+
+// Sections whose bullet percentages describe one distribution and so must not exceed 100%
+const DISTRIBUTION_SECTIONS = /framework alignment|motif distribution|primary moral motifs|decision weights|framework compatibility/i;
+
+// Motif IDs are upper snake case, e.g. UTIL_CALC
+const MOTIF_ID_PATTERN = /\b[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+\b/g;
+
+export interface ValuesSection {
+  level: number;
+  title: string;
+  content: string;
+  line: number;
+}
+
+export interface PercentageItem {
+  label: string;
+  value: number;
+  line: number;
+}
+
+export interface ParsedValuesMarkdown {
+  title: string | null;
+  format: ValuesFormat | null;
+  sections: ValuesSection[];
+  document: ValuesDocument | null;
+  frontMatterErrors: string[];
+  motifReferences: { motifId: string; line: number }[];
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code:
+    | 'invalid_front_matter'
+    | 'unrecognised_format'
+    | 'missing_section'
+    | 'empty_section'
+    | 'unknown_motif'
+    | 'contradictory_priority'
+    | 'percentage_mismatch';
+  message: string;
+  line?: number;
+}
+
+export interface ValuesLintResult {
+  valid: boolean;
+  format: string | null;
+  issues: LintIssue[];
+}
+
+/**
+ * Split VALUES.md into its title, heading sections and embedded values.json
+ */
+export function parseValuesMarkdown(markdown: string): ParsedValuesMarkdown {
+  const hasFrontMatter = markdown.trimStart().startsWith('---');
+  const frontMatter = hasFrontMatter ? parseValuesFrontMatter(markdown) : null;
+  const body = frontMatter ? frontMatter.body : markdown;
+  // Body line numbers are offset by the front-matter block so issues point at the original file
+  const lineOffset = markdown.split('\n').length - body.split('\n').length;
+
+  let title: string | null = null;
+  const sections: ValuesSection[] = [];
+  const motifReferences: ParsedValuesMarkdown['motifReferences'] = [];
+  let inCodeFence = false;
+
+  const lines = body.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const rawLine = lines[index];
+    const line = index + 1 + lineOffset;
+    if (rawLine.trim().startsWith('```')) inCodeFence = !inCodeFence;
+
+    const heading = !inCodeFence && rawLine.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      const headingTitle = heading[2].replace(/:$/, '').trim();
+      if (level === 1 && title === null) {
+        title = headingTitle;
+      } else {
+        sections.push({ level, title: headingTitle, content: '', line });
+      }
+    } else if (sections.length > 0) {
+      const current = sections[sections.length - 1];
+      current.content += (current.content ? '\n' : '') + rawLine;
+    }
+
+    // [PLACEHOLDER] tokens in few-shot examples are not motif references
+    const withoutPlaceholders = rawLine.replace(/\[[A-Z0-9_]+\]/g, '');
+    for (const match of Array.from(withoutPlaceholders.matchAll(MOTIF_ID_PATTERN))) {
+      motifReferences.push({ motifId: match[0], line });
+    }
+  }
+
+  const document = frontMatter?.document || null;
+  const templateId = document?.generator.templateId;
+  const format = (templateId && VALUES_FORMATS.find(f => f.id === templateId)) ||
+    detectFormat(title, sections);
+
+  return {
+    title,
+    format,
+    sections,
+    document,
+    frontMatterErrors: frontMatter?.errors || [],
+    motifReferences
+  };
+}
+
+/**
+ * Pick the format whose sections best match the document; the title breaks ties
+ */
+function detectFormat(title: string | null, sections: ValuesSection[]): ValuesFormat | null {
+  const present = new Set(sections.filter(s => s.level === 2).map(s => s.title.toLowerCase()));
+
+  let best: { format: ValuesFormat; score: number } | null = null;
+  for (const format of VALUES_FORMATS) {
+    const matched = format.sections.filter(s => present.has(s.toLowerCase())).length;
+    if (matched === 0) continue;
+
+    // Coverage first, then absolute matches (comprehensive over standard), then title
+    const score = (matched / format.sections.length) * 100 + matched +
+      (title?.toLowerCase() === format.title.toLowerCase() ? 0.5 : 0);
+    if (!best || score > best.score) best = { format, score };
+  }
+
+  return best?.format || null;
+}
+
+/**
+ * Lint a VALUES.md against its detected format and the motif ontology
+ */
+export function lintValuesMarkdown(
+  markdown: string,
+  options: { knownMotifIds: Set<string> }
+): ValuesLintResult {
+  const parsed = parseValuesMarkdown(markdown);
+  const issues: LintIssue[] = [];
+
+  for (const error of parsed.frontMatterErrors) {
+    // Plain VALUES.md without front-matter is still valid markdown
+    if (error === 'No front-matter found') continue;
+    issues.push({ severity: 'error', code: 'invalid_front_matter', message: error, line: 1 });
+  }
+
+  issues.push(...checkSections(parsed));
+  issues.push(...checkMotifIds(parsed, options.knownMotifIds));
+  issues.push(...checkPriorities(parsed));
+  issues.push(...checkPercentages(parsed));
+
+  return {
+    valid: !issues.some(i => i.severity === 'error'),
+    format: parsed.format?.id || null,
+    issues
+  };
+}
+
+function checkSections(parsed: ParsedValuesMarkdown): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  if (!parsed.format) {
+    issues.push({
+      severity: 'warning',
+      code: 'unrecognised_format',
+      message: 'Sections do not match any known VALUES.md format'
+    });
+  } else {
+    const present = new Set(parsed.sections.filter(s => s.level === 2).map(s => s.title.toLowerCase()));
+    for (const section of parsed.format.sections) {
+      if (!present.has(section.toLowerCase())) {
+        issues.push({
+          severity: 'error',
+          code: 'missing_section',
+          message: `Missing section "${section}" expected by the ${parsed.format.id} format`
+        });
+      }
+    }
+  }
+
+  parsed.sections.forEach((section, index) => {
+    if (section.content.trim().length > 0) return;
+    // A heading immediately followed by its own subsections isn't empty
+    const next = parsed.sections[index + 1];
+    if (next && next.level > section.level) return;
+
+    issues.push({
+      severity: 'warning',
+      code: 'empty_section',
+      message: `Section "${section.title}" is empty`,
+      line: section.line
+    });
+  });
+
+  return issues;
+}
+
+function checkMotifIds(parsed: ParsedValuesMarkdown, knownMotifIds: Set<string>): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const reported = new Set<string>();
+
+  const report = (motifId: string, line?: number) => {
+    if (knownMotifIds.has(motifId) || reported.has(motifId)) return;
+    reported.add(motifId);
+    issues.push({
+      severity: 'error',
+      code: 'unknown_motif',
+      message: `Unknown motif ID ${motifId}`,
+      line
+    });
+  };
+
+  if (parsed.document) {
+    const { primaryMotifs, secondaryMotifs, conflictResolution } = parsed.document;
+    for (const motif of [...primaryMotifs, ...secondaryMotifs]) report(motif.motifId, 1);
+    for (const motifId of conflictResolution.priorityOrder) report(motifId, 1);
+  }
+
+  for (const reference of parsed.motifReferences) report(reference.motifId, reference.line);
+
+  return issues;
+}
+
+function checkPriorities(parsed: ParsedValuesMarkdown): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  if (parsed.document) {
+    const { priorityOrder, rules } = parsed.document.conflictResolution;
+    const rank = new Map(priorityOrder.map((motifId, index) => [motifId, index]));
+
+    for (const rule of rules) {
+      if (rule.prefer === rule.over) {
+        issues.push({
+          severity: 'error',
+          code: 'contradictory_priority',
+          message: `Rule prefers ${rule.prefer} over itself`,
+          line: 1
+        });
+        continue;
+      }
+      if (rules.some(other => other.prefer === rule.over && other.over === rule.prefer) && rule.prefer < rule.over) {
+        issues.push({
+          severity: 'error',
+          code: 'contradictory_priority',
+          message: `Rules prefer both ${rule.prefer} over ${rule.over} and ${rule.over} over ${rule.prefer}`,
+          line: 1
+        });
+      }
+      const preferRank = rank.get(rule.prefer);
+      const overRank = rank.get(rule.over);
+      if (preferRank !== undefined && overRank !== undefined && preferRank > overRank) {
+        issues.push({
+          severity: 'error',
+          code: 'contradictory_priority',
+          message: `Rule prefers ${rule.prefer} over ${rule.over}, but priorityOrder ranks ${rule.over} higher`,
+          line: 1
+        });
+      }
+    }
+
+    const motifs = [...parsed.document.primaryMotifs, ...parsed.document.secondaryMotifs];
+    priorityOrder.forEach((motifId, index) => {
+      const next = priorityOrder[index + 1];
+      const current = motifs.find(m => m.motifId === motifId);
+      const following = next ? motifs.find(m => m.motifId === next) : undefined;
+      if (current && following && following.percentage > current.percentage) {
+        issues.push({
+          severity: 'warning',
+          code: 'contradictory_priority',
+          message: `${motifId} is ranked above ${next} but was chosen less often (${current.percentage}% vs ${following.percentage}%)`,
+          line: 1
+        });
+      }
+    });
+  }
+
+  // Explicit "(Priority N)" markers in the markdown must follow the stated weights
+  for (const section of parsed.sections) {
+    const ranked = extractPercentageItems(section)
+      .map(item => ({ ...item, priority: Number(item.label.match(/\(Priority (\d+)\)/i)?.[1]) }))
+      .filter(item => !Number.isNaN(item.priority))
+      .sort((a, b) => a.priority - b.priority);
+
+    ranked.slice(1).forEach((item, index) => {
+      const higher = ranked[index];
+      if (item.value > higher.value) {
+        issues.push({
+          severity: 'error',
+          code: 'contradictory_priority',
+          message: `Priority ${higher.priority} has a lower weight (${higher.value}%) than priority ${item.priority} (${item.value}%)`,
+          line: item.line
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+function checkPercentages(parsed: ParsedValuesMarkdown): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  if (parsed.document) {
+    const { frameworkAlignment, primaryMotifs, secondaryMotifs, responseCount } = parsed.document;
+
+    const alignmentValues = Object.values(frameworkAlignment);
+    const alignmentTotal = alignmentValues.reduce((sum, v) => sum + v, 0);
+    if (alignmentTotal > 0 && Math.abs(alignmentTotal - 100) > Math.max(1, alignmentValues.length * 0.5)) {
+      issues.push({
+        severity: 'error',
+        code: 'percentage_mismatch',
+        message: `frameworkAlignment sums to ${alignmentTotal}%, expected 100%`,
+        line: 1
+      });
+    }
+
+    const motifs = [...primaryMotifs, ...secondaryMotifs];
+    const motifTotal = motifs.reduce((sum, m) => sum + m.percentage, 0);
+    if (motifTotal > 100 + Math.max(1, motifs.length * 0.5)) {
+      issues.push({
+        severity: 'error',
+        code: 'percentage_mismatch',
+        message: `Motif percentages sum to ${motifTotal}%, more than 100%`,
+        line: 1
+      });
+    }
+
+    for (const motif of motifs) {
+      if (responseCount === 0) break;
+      const expected = (motif.count / responseCount) * 100;
+      if (Math.abs(expected - motif.percentage) > 1) {
+        issues.push({
+          severity: 'error',
+          code: 'percentage_mismatch',
+          message: `${motif.motifId} is listed at ${motif.percentage}% but ${motif.count}/${responseCount} responses is ${Math.round(expected)}%`,
+          line: 1
+        });
+      }
+    }
+  }
+
+  for (const section of parsed.sections) {
+    const items = extractPercentageItems(section);
+
+    for (const item of items) {
+      if (item.value > 100) {
+        issues.push({
+          severity: 'error',
+          code: 'percentage_mismatch',
+          message: `"${item.label}" is ${item.value}%, more than 100%`,
+          line: item.line
+        });
+      }
+    }
+
+    if (!DISTRIBUTION_SECTIONS.test(section.title) || items.length < 2) continue;
+    const total = items.reduce((sum, item) => sum + item.value, 0);
+    if (total > 100 + Math.max(1, items.length * 0.5)) {
+      issues.push({
+        severity: 'error',
+        code: 'percentage_mismatch',
+        message: `Percentages in "${section.title}" sum to ${total}%, more than 100%`,
+        line: section.line
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * First percentage on each list item in a section, skipping fenced code
+ */
+function extractPercentageItems(section: ValuesSection): PercentageItem[] {
+  const items: PercentageItem[] = [];
+  let inCodeFence = false;
+
+  section.content.split('\n').forEach((line, index) => {
+    if (line.trim().startsWith('```')) inCodeFence = !inCodeFence;
+    if (inCodeFence) return;
+
+    const match = line.match(/^\s*(?:[-*]|\d+\.)\s+.*?(\d+(?:\.\d+)?)%/);
+    if (!match) return;
+    items.push({ label: line.trim(), value: Number(match[1]), line: section.line + index + 1 });
+  });
+
+  return items;
+}
+
+/**
+ * Motif IDs from the striated ontology - the source of truth the linter checks against
+ */
+export function loadStriatedMotifIds(csvPath = path.join(process.cwd(), 'striated', 'motifs.csv')): Set<string> {
+  const records: { motif_id: string }[] = parse(fs.readFileSync(csvPath, 'utf-8'), {
+    columns: true,
+    skip_empty_lines: true
+  });
+  return new Set(records.map(r => r.motif_id).filter(Boolean));
+}
@@ -26,6 +26,8 @@ interface DilemmaState {
   currentIndex: number;
   responses: Response[];
   sessionId: string;
+  // Issued when responses are first stored; needed to export or delete them
+  sessionToken: string | null;
   
   // UI state
   selectedOption: string;
@@ -84,6 +86,7 @@ export const useDilemmaStore = create<DilemmaState>()(
       currentIndex: 0,
       responses: [],
       sessionId: generateSessionId(),
+      sessionToken: null,
       
       selectedOption: '',
       reasoning: '',
@@ -313,7 +316,15 @@ export const useDilemmaStore = create<DilemmaState>()(
             }),
           });
 
-          return response.ok;
+          if (!response.ok) {
+            return false;
+          }
+
+          const data = await response.json();
+          if (data.sessionToken) {
+            set({ sessionToken: data.sessionToken });
+          }
+          return true;
         } catch (error) {
           console.error('Failed to submit responses to database:', error);
           return false;
@@ -412,6 +423,7 @@ export const useDilemmaStore = create<DilemmaState>()(
           currentIndex: 0,
           responses: [],
           sessionId: newSessionId,
+          sessionToken: null,
           selectedOption: '',
           reasoning: '',
           perceivedDifficulty: 5,
@@ -430,6 +442,7 @@ export const useDilemmaStore = create<DilemmaState>()(
       partialize: (state) => ({
         responses: state.responses,
         sessionId: state.sessionId,
+        sessionToken: state.sessionToken,
         currentIndex: state.currentIndex,
         selectedOption: state.selectedOption,
         reasoning: state.reasoning,
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { informationTheoreticUncertainty } from '@/lib/information-theoretic-uncertainty'
+import { adaptiveDilemmaSelector, type AdaptiveCandidate } from '@/lib/adaptive-dilemma-selection'
+
+/**
+ * Adaptive Dilemma Selection Tests
+ *
+ * Expected information gain must prefer dilemmas that separate motifs we are
+ * still unsure about, and the selector must stop once one motif clearly leads.
+ */
+
+const MOTIFS = ['UTIL_CALC', 'CARE_PARTICULAR', 'JUST_PROCEDURAL', 'AUTONOMY_RESPECT', 'HARM_MINIMIZE', 'RIGHTS_NEGATIVE']
+
+const dilemma = (id: number, motifs: (string | null)[]): AdaptiveCandidate => ({
+  dilemmaId: `00000000-0000-4000-8000-${String(id).padStart(12, '0')}`,
+  choiceAMotif: motifs[0],
+  choiceBMotif: motifs[1],
+  choiceCMotif: motifs[2],
+  choiceDMotif: motifs[3]
+})
+
+describe('Adaptive dilemma selection', () => {
+  it('values dilemmas with more distinct motifs as more informative', () => {
+    const alpha = [1, 1, 1, 1, 1, 1]
+
+    const fourMotifs = informationTheoreticUncertainty.expectedInformationGain(alpha, [0, 1, 2, 3])
+    const twoMotifs = informationTheoreticUncertainty.expectedInformationGain(alpha, [0, 1, 0, 1])
+    const oneMotif = informationTheoreticUncertainty.expectedInformationGain(alpha, [0, 0, 0, 0])
+
+    expect(fourMotifs).toBeGreaterThan(twoMotifs)
+    expect(twoMotifs).toBeGreaterThan(0)
+    expect(oneMotif).toBe(0)
+  })
+
+  it('gains less from the same question as evidence accumulates', () => {
+    const early = informationTheoreticUncertainty.expectedInformationGain([1, 1, 1, 1], [0, 1, 2, 3])
+    const late = informationTheoreticUncertainty.expectedInformationGain([20, 1, 1, 1], [0, 1, 2, 3])
+    expect(late).toBeLessThan(early)
+  })
+
+  it('picks the most informative unanswered dilemma', () => {
+    const pool = [
+      dilemma(1, ['UTIL_CALC', 'UTIL_CALC', 'UTIL_CALC', 'UTIL_CALC']),
+      dilemma(2, ['UTIL_CALC', 'CARE_PARTICULAR', 'JUST_PROCEDURAL', 'AUTONOMY_RESPECT']),
+      dilemma(3, ['UTIL_CALC', 'CARE_PARTICULAR', null, null])
+    ]
+
+    const selection = adaptiveDilemmaSelector.selectNext(pool, [], {}, () => 0)
+    expect(selection.done).toBe(false)
+    expect(selection.dilemmaId).toBe(pool[1].dilemmaId)
+    expect(selection.expectedInformationGain).toBeGreaterThan(0)
+  })
+
+  it('stops early once one motif clearly leads', () => {
+    const pool = Array.from({ length: 30 }, (_, i) =>
+      dilemma(i, [MOTIFS[0], MOTIFS[1 + (i % 5)], MOTIFS[(i + 2) % 6], MOTIFS[(i + 3) % 6]]))
+
+    const consistent = pool.slice(0, 8).map(d => ({ dilemmaId: d.dilemmaId, chosenOption: 'a' }))
+    const stopped = adaptiveDilemmaSelector.selectNext(pool, consistent)
+    expect(stopped.done).toBe(true)
+    expect(stopped.reason).toBe('confident')
+    expect(stopped.leadingMotif).toBe('UTIL_CALC')
+
+    // Too few answers to stop, however consistent
+    const early = adaptiveDilemmaSelector.selectNext(pool, consistent.slice(0, 3))
+    expect(early.done).toBe(false)
+
+    // Mixed answers keep the session going
+    const mixed = pool.slice(0, 8).map((d, i) => ({ dilemmaId: d.dilemmaId, chosenOption: i % 2 ? 'a' : 'b' }))
+    expect(adaptiveDilemmaSelector.selectNext(pool, mixed).done).toBe(false)
+  })
+
+  it('stops at the question limit or when the pool is exhausted', () => {
+    const pool = [dilemma(1, MOTIFS.slice(0, 4)), dilemma(2, MOTIFS.slice(2, 6))]
+    const answered = pool.map(d => ({ dilemmaId: d.dilemmaId, chosenOption: 'c' }))
+
+    expect(adaptiveDilemmaSelector.selectNext(pool, answered, { minQuestions: 1 }).reason).not.toBeNull()
+    expect(adaptiveDilemmaSelector.selectNext(pool, answered, { minQuestions: 10 }).reason).toBe('exhausted')
+    expect(adaptiveDilemmaSelector.selectNext(pool, answered.slice(0, 1), { maxQuestions: 1 }).reason).toBe('max_questions')
+  })
+})
@@ -15,6 +15,7 @@ vi.mock('@/lib/db', () => ({
         innerJoin: vi.fn(() => ({
           where: vi.fn(() => Promise.resolve([
             {
+              dilemmaId: '11111111-1111-4111-8111-111111111111',
               chosenOption: 'a',
               reasoning: 'Test reasoning',
               responseTime: 30000,
@@ -28,11 +29,19 @@ vi.mock('@/lib/db', () => ({
               title: 'Test Dilemma'
             }
           ]))
+        })),
+        // values_documents lookup - no stored document yet
+        where: vi.fn(() => ({
+          orderBy: vi.fn(() => ({
+            limit: vi.fn(() => Promise.resolve([]))
+          }))
         }))
       }))
     })),
     insert: vi.fn(() => ({
-      values: vi.fn(() => Promise.resolve({ insertId: 'test-id' }))
+      values: vi.fn((row: any) => ({
+        returning: vi.fn(() => Promise.resolve([{ documentId: 'test-document-id', createdAt: new Date(), ...row }]))
+      }))
     }))
   }
 }))
@@ -63,6 +72,51 @@ describe('🌐 API Integration Tests', () => {
       expect(data.generationMethod).toBe('combinatorial')
       expect(data.responseCount).toBe(1)
       expect(data.timestamp).toBeDefined()
+      expect(data.documentId).toBe('test-document-id')
+      expect(data.cached).toBe(false)
+    })
+
+    it('should serve the stored document when the response set is unchanged', async () => {
+      const { db } = await import('@/lib/db')
+      const stored = {
+        documentId: 'stored-document-id',
+        valuesMarkdown: '# My Values\n\nStored version',
+        valuesJson: { schemaVersion: '1.0.0' },
+        createdAt: new Date('2026-01-01T00:00:00Z')
+      }
+      vi.mocked(db.select)
+        .mockReturnValueOnce({
+          from: vi.fn(() => ({
+            innerJoin: vi.fn(() => ({
+              where: vi.fn(() => Promise.resolve([
+                { dilemmaId: '11111111-1111-4111-8111-111111111111', chosenOption: 'a', choiceAMotif: 'UTIL_CALC', choiceBMotif: null, choiceCMotif: null, choiceDMotif: null, domain: 'medical', difficulty: 7 }
+              ]))
+            }))
+          }))
+        } as any)
+        .mockReturnValueOnce({
+          from: vi.fn(() => ({
+            where: vi.fn(() => ({
+              orderBy: vi.fn(() => ({ limit: vi.fn(() => Promise.resolve([stored])) }))
+            }))
+          }))
+        } as any)
+
+      const { POST } = await import('@/app/api/generate-values/route')
+
+      const request = new NextRequest('http://localhost:3000/api/generate-values', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId: 'returning-session' })
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.cached).toBe(true)
+      expect(data.documentId).toBe('stored-document-id')
+      expect(data.valuesMarkdown).toContain('Stored version')
+      expect(db.insert).not.toHaveBeenCalled()
     })
 
     it('should return 400 for missing sessionId', async () => {
@@ -80,6 +134,50 @@ describe('🌐 API Integration Tests', () => {
       expect(data.error).toBe('Session ID is required')
     })
 
+    it('should resolve local responses to the chosen option motif', async () => {
+      const { db } = await import('@/lib/db')
+      vi.mocked(db.select).mockReturnValue({
+        from: vi.fn(() => ({
+          where: vi.fn(() => Promise.resolve([
+            {
+              dilemmaId: '11111111-1111-4111-8111-111111111111',
+              choiceAMotif: 'UTIL_CALC',
+              choiceBMotif: 'CARE_PARTICULAR',
+              choiceCMotif: 'JUST_PROCEDURAL',
+              choiceDMotif: 'AUTONOMY_RESPECT',
+              domain: 'medical',
+              difficulty: 7
+            }
+          ]))
+        }))
+      } as any)
+
+      const { POST } = await import('@/app/api/generate-values/route')
+
+      const request = new NextRequest('http://localhost:3000/api/generate-values', {
+        method: 'POST',
+        body: JSON.stringify({
+          responses: [{
+            dilemmaId: '11111111-1111-4111-8111-111111111111',
+            chosenOption: 'b',
+            reasoning: 'The patient in front of me matters',
+            responseTime: 30000,
+            perceivedDifficulty: 6
+          }],
+          config: { templateFormat: 'minimal' }
+        })
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.generationMethod).toBe('combinatorial')
+      expect(data.config.templateFormat).toBe('minimal')
+      expect(data.valuesMarkdown).toContain('CARE PARTICULAR')
+      expect(data.valuesMarkdown).not.toContain('individual rights')
+    })
+
     it('should handle database errors gracefully', async () => {
       // Mock database error
       const { db } = await import('@/lib/db')
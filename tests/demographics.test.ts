@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { DemographicsSchema } from '@/lib/demographics'
+import { issueSessionToken } from '@/lib/session-data'
+
+/**
+ * Demographics Tests
+ *
+ * The optional demographics step must accept blanks, reject values outside
+ * the offered options, and only the holder of the session token may store them.
+ */
+
+process.env.SESSION_TOKEN_SECRET = 'test-secret'
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: vi.fn(() => ({
+      values: vi.fn(() => ({
+        onConflictDoUpdate: vi.fn(() => Promise.resolve())
+      }))
+    }))
+  }
+}))
+
+describe('Demographics', () => {
+  it('treats blank answers as not given and consent as opt-in', () => {
+    const parsed = DemographicsSchema.parse({ ageRange: '', geographicRegion: 'europe', profession: '  Nurse ' })
+
+    expect(parsed.ageRange).toBeNull()
+    expect(parsed.geographicRegion).toBe('europe')
+    expect(parsed.profession).toBe('Nurse')
+    expect(parsed.consentResearch).toBe(false)
+  })
+
+  it('rejects values outside the offered options', () => {
+    expect(DemographicsSchema.safeParse({ ageRange: '12-17' }).success).toBe(false)
+    expect(DemographicsSchema.safeParse({ profession: 'x'.repeat(101) }).success).toBe(false)
+  })
+
+  it('stores submitted demographics for a session', async () => {
+    const { POST } = await import('@/app/api/demographics/route')
+
+    const response = await POST(new NextRequest('http://localhost:3000/api/demographics', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: 'session-1', token: issueSessionToken('session-1'), ageRange: '25-34', consentResearch: true })
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.consentResearch).toBe(true)
+
+    const invalid = await POST(new NextRequest('http://localhost:3000/api/demographics', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: 'session-1', token: issueSessionToken('session-1'), ageRange: 'ancient' })
+    }))
+    expect(invalid.status).toBe(400)
+  })
+
+  it('rejects demographics without a valid session token', async () => {
+    const { POST } = await import('@/app/api/demographics/route')
+
+    const response = await POST(new NextRequest('http://localhost:3000/api/demographics', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: 'session-1', token: issueSessionToken('session-2'), ageRange: '25-34' })
+    }))
+
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { CORPUS_COLUMNS, importCorpus, parseCorpus, toCorpusCsv } from '@/lib/dilemma-corpus'
+
+/**
+ * Dilemma Corpus Tests
+ *
+ * Both CSV header styles and JSONL read into the same rows, bad rows are
+ * reported by line, and imports upsert on the external ID without rewording
+ * or publishing anything past review.
+ */
+
+const read = (file: string) => readFileSync(path.join(process.cwd(), file), 'utf-8')
+
+const writes: { kind: string; values: any }[] = []
+
+const stored = (values: Record<string, unknown>) => ({
+  dilemmaId: '5b0e6a4c-1d7e-4f7a-9c1e-2f3a4b5c6d7e', externalId: null, status: 'in_review',
+  title: 'Old', scenario: 'S', choiceA: 'a', choiceAMotif: 'UTIL_CALC', choiceB: 'b', choiceBMotif: null,
+  choiceC: 'c', choiceCMotif: null, choiceD: 'd', choiceDMotif: null,
+  ...values
+})
+let existing: any[] = []
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => Promise.resolve(table[Symbol.for('drizzle:Name')] === 'motifs'
+        ? [{ motifId: 'UTIL_CALC', name: 'Utilitarian Calculation', conflictsWith: '' }]
+        : existing))
+    })),
+    insert: vi.fn(() => ({
+      values: vi.fn((values: any) => {
+        writes.push({ kind: 'insert', values })
+        return Promise.resolve()
+      })
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: any) => ({
+        where: vi.fn(() => {
+          writes.push({ kind: 'update', values })
+          return Promise.resolve()
+        })
+      }))
+    }))
+  }
+}))
+
+const jsonl = [
+  JSON.stringify({ dilemmaId: 'DM001', title: 'Updated', scenario: 'S', choiceA: 'a', choiceAMotif: 'UTIL_CALC', choiceB: 'b', choiceC: 'c', choiceD: 'd', stakeholders: ['patients', 'staff'] }),
+  JSON.stringify({ dilemma_id: 'DM900', title: 'New', scenario: 'S', choice_a: 'a', choice_a_motif: 'GUT_FEELING', choice_b: 'b', choice_c: 'c', choice_d: 'd' })
+].join('\n')
+
+describe('Dilemma Corpus', () => {
+  beforeEach(() => {
+    writes.length = 0
+    existing = [stored({ externalId: 'DM001' })]
+  })
+
+  it('reads the snake_case and camelCase CSVs into the same rows', () => {
+    const striated = parseCorpus(read('striated/dilemmas.csv'), 'csv')
+    const camel = parseCorpus(read('new-dilemmas.csv'), 'csv')
+
+    expect(striated.errors).toEqual([])
+    expect(striated.rows).toHaveLength(50)
+    expect(striated.rows[0]).toMatchObject({ externalId: 'DM001', dilemma: { choice_a_motif: 'UTIL_MAXIMIZE', difficulty: 7, realism_score: 8.8 } })
+    expect(camel.errors).toEqual([])
+    expect(camel.rows[0]).toMatchObject({ externalId: 'school-lunch-program-cuts', dilemma: { choice_a_motif: 'CARE_PARTICULAR', cultural_context: 'urban,socioeconomic' } })
+  })
+
+  it('reports invalid rows by line number', () => {
+    const { rows, errors } = parseCorpus([jsonl, '{"title": "Broken"', '{"dilemma_id": "DM002", "title": "No scenario", "difficulty": 14}'].join('\n'), 'jsonl')
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0].dilemma.stakeholders).toBe('patients,staff')
+    expect(errors[0]).toMatchObject({ row: 3, externalId: null })
+    expect(errors[1].row).toBe(4)
+    expect(errors[1].messages).toEqual(expect.arrayContaining(['scenario is required', 'difficulty Number must be less than or equal to 10']))
+  })
+
+  it('round-trips an export through the importer', () => {
+    const { rows } = parseCorpus(read('striated/dilemmas.csv'), 'csv')
+    const csv = toCorpusCsv(CORPUS_COLUMNS.dilemmas, rows.map(row => row.dilemma))
+
+    expect(parseCorpus(csv, 'csv').rows.map(row => row.dilemma)).toEqual(rows.map(row => row.dilemma))
+  })
+
+  it('dry-runs without writing, then upserts on the external ID', async () => {
+    const dryRun = await importCorpus(jsonl, 'jsonl')
+    expect(dryRun).toMatchObject({ applied: false, total: 2, inserted: 1, updated: 1 })
+    expect(dryRun.warnings).toEqual([{ row: 2, externalId: 'DM900', messages: ['choice_a_motif GUT_FEELING is not in the motifs table'] }])
+    expect(writes).toEqual([])
+
+    const applied = await importCorpus(jsonl, 'jsonl', { dryRun: false })
+    expect(applied.applied).toBe(true)
+    expect(writes.map(write => write.kind)).toEqual(['update', 'insert'])
+    expect(writes[1].values).toMatchObject({ externalId: 'DM900', title: 'New', status: 'in_review' })
+  })
+
+  it('keeps stored scores the file does not supply', async () => {
+    existing = [stored({ externalId: 'DM001', validationScore: '0.7', realismScore: '8', tensionStrength: '6' })]
+    const withRealism = JSON.stringify({ dilemma_id: 'DM001', title: 'Updated', scenario: 'S', choice_a: 'a', choice_b: 'b', choice_c: 'c', choice_d: 'd', realism_score: 9 })
+
+    await importCorpus(withRealism, 'jsonl', { dryRun: false })
+
+    expect(writes[0].values).toMatchObject({ title: 'Updated', realismScore: '9' })
+    expect(writes[0].values).not.toHaveProperty('validationScore')
+    expect(writes[0].values).not.toHaveProperty('tensionStrength')
+  })
+
+  it('adopts seeded dilemmas by title and scenario and refuses to reword published ones', async () => {
+    existing = [
+      stored({ dilemmaId: '0c6f3a1e-8d2b-4e5f-9a7c-1b2d3e4f5a6b', status: 'published', title: 'Updated' }),
+      stored({ externalId: 'DM900', status: 'published', title: 'New' })
+    ]
+
+    const report = await importCorpus(jsonl, 'jsonl', { dryRun: false })
+
+    expect(report).toMatchObject({ applied: true, inserted: 0, updated: 0, unchanged: 1 })
+    expect(report.refused).toEqual([{
+      row: 2,
+      externalId: 'DM900',
+      messages: ['would reword a published dilemma (choiceAMotif) - retire it and restore it for review first']
+    }])
+    // Only the missing ID is written - no status or wording
+    expect(writes).toEqual([{ kind: 'update', values: { externalId: 'DM001' } }])
+  })
+
+  it('writes nothing when any row is invalid', async () => {
+    const report = await importCorpus(`${jsonl}\n{"title": "Missing choices", "scenario": "S"}`, 'jsonl', { dryRun: false })
+
+    expect(report.applied).toBe(false)
+    expect(report.errors).toHaveLength(1)
+    expect(writes).toEqual([])
+  })
+})
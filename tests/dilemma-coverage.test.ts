@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest'
+import { computeCoverage, findDuplicate, generateCoverageBatch, selectTargets } from '@/lib/dilemma-coverage'
+
+/**
+ * Dilemma Coverage Tests
+ *
+ * A batch targets the emptiest motif-pair and domain × difficulty cells,
+ * never stages a repeat of an existing dilemma or a candidate that misses its
+ * target pair, and reports coverage before and after.
+ */
+
+const motifRows = [
+  { motifId: 'UTIL_CALC', category: 'consequentialism', conflictsWith: 'DEONT_ABSOLUTE,CARE_PARTICULAR,UNKNOWN_MOTIF' },
+  { motifId: 'DEONT_ABSOLUTE', category: 'autonomy', conflictsWith: 'UTIL_CALC' },
+  { motifId: 'CARE_PARTICULAR', category: 'care_ethics', conflictsWith: 'UTIL_CALC' }
+]
+
+const corpus = [{
+  title: 'Triage Protocol',
+  scenario: 'A hospital must decide which of two patients receives the last ventilator during a surge',
+  domain: 'healthcare',
+  difficulty: 8,
+  choiceAMotif: 'UTIL_CALC',
+  choiceBMotif: 'DEONT_ABSOLUTE',
+  choiceCMotif: 'UTIL_CALC',
+  choiceDMotif: null
+}]
+
+// autonomy motifs belong to the deontological tradition in frameworks.csv
+const frameworkRows = [
+  { frameworkId: 'UTIL_ACT', tradition: 'consequentialism' },
+  { frameworkId: 'DEONT_KANT', tradition: 'deontological' }
+]
+
+const inserted: any[] = []
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => {
+        const name = table[Symbol.for('drizzle:Name')]
+        const rows = Promise.resolve(name === 'motifs' ? motifRows : name === 'frameworks' ? frameworkRows : [])
+        return Object.assign(rows, { where: vi.fn(() => Promise.resolve(corpus)) })
+      })
+    })),
+    insert: vi.fn(() => ({
+      values: vi.fn((values: any) => {
+        inserted.push(values)
+        return { returning: vi.fn(() => Promise.resolve([{ dilemmaId: `staged-${inserted.length}` }])) }
+      })
+    }))
+  }
+}))
+
+describe('Dilemma Coverage', () => {
+  it('counts each conflicting motif pair once and skips motifs outside the ontology', () => {
+    const report = computeCoverage(corpus, motifRows)
+
+    expect(report.motifPairs).toEqual([
+      { motifs: ['CARE_PARTICULAR', 'UTIL_CALC'], count: 0 },
+      { motifs: ['DEONT_ABSOLUTE', 'UTIL_CALC'], count: 1 }
+    ])
+    expect(report.domainDifficulty.find(cell => cell.band === 'high')!.count).toBe(1)
+    expect(report.emptyDomainCells).toBe(2)
+  })
+
+  it('aims targets at the emptiest cells first', () => {
+    const [first] = selectTargets(computeCoverage(corpus, motifRows), 2)
+    expect(first).toEqual({ motifs: ['CARE_PARTICULAR', 'UTIL_CALC'], domain: 'healthcare', band: 'low', difficulty: 3 })
+  })
+
+  it('treats a reworded title or near-identical scenario as a duplicate', () => {
+    expect(findDuplicate({ title: 'triage protocol!', scenario: 'Something else entirely' }, corpus)).not.toBeNull()
+    expect(findDuplicate({
+      title: 'Ventilator Choice',
+      scenario: 'A hospital must decide which of two patients receives the last ventilator in a surge'
+    }, corpus)!.title).toBe('Triage Protocol')
+    expect(findDuplicate({ title: 'Loan Denial', scenario: 'A bank model rejects an applicant' }, corpus)).toBeNull()
+  })
+
+  it('stages new candidates for review and drops duplicates and off-target ones', async () => {
+    const candidate = (title: string, scenario: string, [first, second]: string[]) => ({
+      title,
+      scenario,
+      choices: [{ text: 'A', motif: first }, { text: 'B', motif: second }, { text: 'C', motif: second }, { text: 'D', motif: first }],
+      stakeholders: ['patients'],
+      culturalContext: 'western_liberal',
+      tensionStrength: 7
+    })
+    const generate = vi.fn()
+      .mockResolvedValueOnce(candidate('Home Care Rationing', 'A nurse can visit only one of two elderly patients tonight', ['CARE_PARTICULAR', 'UTIL_CALC']))
+      .mockResolvedValueOnce(candidate('Triage Protocol', 'A rewritten copy of the ventilator case', ['DEONT_ABSOLUTE', 'UTIL_CALC']))
+      .mockResolvedValueOnce(candidate('Clinic Budget', 'A clinic must cut one of two outreach programmes', ['UTIL_CALC', 'DEONT_ABSOLUTE']))
+
+    const result = await generateCoverageBatch({ count: 3 }, generate)
+
+    expect(generate.mock.calls[0].slice(0, 4)).toEqual([['UTIL_ACT'], ['CARE_PARTICULAR', 'UTIL_CALC'], 'healthcare', 3])
+    expect(generate.mock.calls[1].slice(0, 2)).toEqual([['UTIL_ACT', 'DEONT_KANT'], ['DEONT_ABSOLUTE', 'UTIL_CALC']])
+    expect(result.staged).toHaveLength(1)
+    expect(result.duplicates[0]).toMatchObject({ title: 'Triage Protocol', duplicateOf: 'Triage Protocol' })
+    expect(result.offTarget[0]).toMatchObject({ title: 'Clinic Budget', target: { motifs: ['CARE_PARTICULAR', 'UTIL_CALC'] } })
+    expect(inserted[0]).toMatchObject({ status: 'in_review', generatorType: 'coverage_gap', targetMotifs: 'CARE_PARTICULAR,UTIL_CALC', tensionStrength: null })
+    expect(result.before.emptyMotifPairs).toBe(1)
+    expect(result.after.emptyMotifPairs).toBe(0)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { computeDilemmaQuality, scoreDilemmaQuality, type QualityDilemma, type QualityResponse } from '@/lib/dilemma-quality'
+
+/**
+ * Dilemma Quality Tests
+ *
+ * Item statistics from responses: option entropy, dead options, timing,
+ * perceived versus authored difficulty, and discrimination against the
+ * respondent's motif profile on their other answers.
+ */
+
+const dilemma = (dilemmaId: string, difficulty: number, choiceD: string = 'd'): QualityDilemma => ({
+  dilemmaId, difficulty,
+  choiceA: 'a', choiceB: 'b', choiceC: 'c', choiceD,
+  choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: 'DEONT_ABSOLUTE', choiceDMotif: 'JUST_PROCEDURAL'
+})
+
+const dilemmaRows = [dilemma('d1', 7), dilemma('d2', 5, 'Not applicable'), dilemma('d3', 5), dilemma('d4', 5), dilemma('d5', 5), dilemma('d6', 5)]
+
+// 30 sessions: the first half lean utilitarian and always pick A, the rest pick B.
+// d5 ignores that split - choices alternate by session - and d6 has too few answers.
+const sessions = Array.from({ length: 30 }, (_, i) => ({ sessionId: `s${i}`, util: i < 15, even: i % 2 === 0 }))
+const responses: QualityResponse[] = sessions.flatMap(({ sessionId, util, even }, i) => [
+  ...['d1', 'd2', 'd3', 'd4'].map(dilemmaId => ({
+    sessionId, dilemmaId,
+    chosenOption: util ? 'a' : 'b',
+    responseTime: dilemmaId === 'd1' && i === 0 ? 0 : 20000,
+    perceivedDifficulty: dilemmaId === 'd1' ? 2 : null
+  })),
+  { sessionId, dilemmaId: 'd5', chosenOption: even ? 'a' : 'b', responseTime: 10000, perceivedDifficulty: 5 },
+  ...(i < 5 ? [{ sessionId, dilemmaId: 'd6', chosenOption: 'a', responseTime: 5000, perceivedDifficulty: 5 }] : [])
+])
+
+const writes: { kind: string; values: any }[] = []
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => table[Symbol.for('drizzle:Name')] === 'dilemmas'
+        ? Promise.resolve(dilemmaRows)
+        : { innerJoin: vi.fn(() => ({ where: vi.fn(() => Promise.resolve(responses)) })) })
+    })),
+    insert: vi.fn(() => ({
+      values: vi.fn((values: any) => ({
+        onConflictDoUpdate: vi.fn(() => {
+          writes.push({ kind: 'upsert', values })
+          return Promise.resolve()
+        })
+      }))
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: any) => ({
+        where: vi.fn(() => {
+          writes.push({ kind: 'update', values })
+          return Promise.resolve()
+        })
+      }))
+    }))
+  }
+}))
+
+describe('Dilemma Quality', () => {
+  beforeEach(() => { writes.length = 0 })
+
+  it('computes shares, entropy, dead options and difficulty for each dilemma', () => {
+    const scores = computeDilemmaQuality(responses, dilemmaRows)
+    const d1 = scores.find(score => score.dilemmaId === 'd1')!
+    const d2 = scores.find(score => score.dilemmaId === 'd2')!
+
+    expect(scores.map(score => score.dilemmaId)).toEqual(['d1', 'd2', 'd3', 'd4', 'd5'])
+    expect(d1).toMatchObject({
+      responses: 30,
+      optionShares: { a: 0.5, b: 0.5, c: 0, d: 0 },
+      entropy: 1,
+      normalizedEntropy: 0.5,
+      deadOptions: ['c', 'd'],
+      meanResponseTime: 20000,
+      meanPerceivedDifficulty: 2,
+      authoredDifficulty: 7,
+      flags: ['dead_options', 'difficulty_mismatch']
+    })
+    // "Not applicable" isn't a real option, so it can't be dead
+    expect(d2.deadOptions).toEqual(['c'])
+    expect(d2.normalizedEntropy).toBeCloseTo(1 / Math.log2(3), 3)
+  })
+
+  it('scores discrimination against the rest of each respondent\'s profile', () => {
+    const scores = computeDilemmaQuality(responses, dilemmaRows)
+
+    expect(scores.find(score => score.dilemmaId === 'd1')!.discrimination).toBeGreaterThan(0.9)
+    const d5 = scores.find(score => score.dilemmaId === 'd5')!
+    expect(d5.discrimination).toBeCloseTo(0.067, 2)
+    expect(d5.flags).toEqual(['dead_options', 'low_discrimination'])
+  })
+
+  it('has no discrimination without enough respondents with other answers', () => {
+    const [score] = computeDilemmaQuality(responses.filter(response => response.dilemmaId === 'd1'), dilemmaRows)
+    expect(score.discrimination).toBeNull()
+  })
+
+  it('stores the statistics and writes only validation back to the dilemma', async () => {
+    expect(await scoreDilemmaQuality()).toEqual({ scored: 5, flagged: 5, skipped: 1 })
+
+    expect(writes.filter(write => write.kind === 'upsert')).toHaveLength(5)
+    expect(writes[0].values).toMatchObject({ dilemmaId: 'd1', entropy: '1', deadOptions: ['c', 'd'], flags: ['dead_options', 'difficulty_mismatch'] })
+    // tensionStrength is the reviewer's score; option balance stays in dilemma_quality
+    const updates = writes.filter(write => write.kind === 'update')
+    expect(updates.every(write => Object.keys(write.values).join() === 'validationScore')).toBe(true)
+    expect(writes[1]).toMatchObject({ kind: 'update' })
+    expect(Number(writes[1].values.validationScore)).toBeGreaterThan(9)
+    expect(writes[9].values).toEqual({ validationScore: '0.7' })
+  })
+})
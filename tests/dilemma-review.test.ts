@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DilemmaReviewSchema, reviewDilemma } from '@/lib/dilemma-review'
+
+/**
+ * Dilemma Review Tests
+ *
+ * A dilemma only moves along the review lifecycle from the status it is in,
+ * needs scores to be published and notes to be rejected, and its wording is
+ * frozen once it is live.
+ */
+
+let current: Record<string, any> | undefined
+let updated: Record<string, any> | undefined
+const updates: Record<string, any>[] = []
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({ limit: vi.fn(() => Promise.resolve(current ? [current] : [])) }))
+      }))
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: any) => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() => {
+            updates.push(values)
+            return Promise.resolve(updated ? [{ ...updated, ...values }] : [])
+          })
+        }))
+      }))
+    }))
+  }
+}))
+
+const dilemma = (status: string, scores: { realismScore?: string; tensionStrength?: string } = {}) => ({
+  dilemmaId: 'd1',
+  status,
+  realismScore: null,
+  tensionStrength: null,
+  ...scores
+})
+
+describe('Dilemma Review', () => {
+  beforeEach(() => {
+    updates.length = 0
+    current = undefined
+    updated = undefined
+  })
+
+  it('requires notes to reject and bounds scores', () => {
+    expect(DilemmaReviewSchema.safeParse({ action: 'reject' }).success).toBe(false)
+    expect(DilemmaReviewSchema.safeParse({ action: 'reject', notes: 'Choice C is a strawman' }).success).toBe(true)
+    expect(DilemmaReviewSchema.safeParse({ realismScore: 11 }).success).toBe(false)
+  })
+
+  it('publishes an in-review dilemma once realism and tension are scored', async () => {
+    current = updated = dilemma('in_review', { tensionStrength: '7' })
+
+    const unscored = await reviewDilemma('d1', { action: 'approve' }, 'admin-1')
+    expect(unscored).toMatchObject({ ok: false, status: 400 })
+    expect(updates).toHaveLength(0)
+
+    const outcome = await reviewDilemma('d1', { action: 'approve', realismScore: 8 }, 'admin-1')
+    expect(outcome.ok).toBe(true)
+    expect(updates[0]).toMatchObject({ status: 'published', realismScore: '8', reviewedBy: 'admin-1' })
+  })
+
+  it('refuses to approve a freshly generated dilemma until a reviewer scores its tension', async () => {
+    // Generated and coverage rows are staged without the generator's own 0-1 estimate
+    current = updated = dilemma('in_review')
+
+    const outcome = await reviewDilemma('d1', { action: 'approve', realismScore: 8 }, 'admin-1')
+    expect(outcome).toMatchObject({ ok: false, status: 400, error: 'Score realism and tension before approving' })
+    expect(updates).toHaveLength(0)
+
+    expect((await reviewDilemma('d1', { action: 'approve', realismScore: 8, tensionStrength: 6 }, 'admin-1')).ok).toBe(true)
+    expect(updates[0]).toMatchObject({ status: 'published', realismScore: '8', tensionStrength: '6' })
+  })
+
+  it('rejects transitions and edits the current status does not allow', async () => {
+    current = updated = dilemma('published', { realismScore: '8', tensionStrength: '7' })
+
+    expect(await reviewDilemma('d1', { action: 'approve' }, 'admin-1')).toMatchObject({ ok: false, status: 409 })
+    expect(await reviewDilemma('d1', { edits: { title: 'Reworded' } }, 'admin-1')).toMatchObject({ ok: false, status: 409 })
+    expect((await reviewDilemma('d1', { action: 'retire' }, 'admin-1')).ok).toBe(true)
+    expect(updates[0].status).toBe('retired')
+  })
+
+  it('reports a conflict when another reviewer moved the dilemma first', async () => {
+    current = dilemma('in_review')
+    updated = undefined
+
+    expect(await reviewDilemma('d1', { action: 'reject', notes: 'Too abstract' }, 'admin-1'))
+      .toMatchObject({ ok: false, status: 409 })
+  })
+})
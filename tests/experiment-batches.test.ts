@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { analyzeBatchConsistency, completeExperimentBatch, type StoredResponse } from '@/lib/experiment-batches'
+
+/**
+ * Experiment Batch Tests
+ *
+ * Runs are persisted so they can be compared later; the consistency row per
+ * provider measures agreement with the cross-provider consensus.
+ */
+
+const writes: { table: string; values: any }[] = []
+
+const tableName = (table: any): string => table[Symbol.for('drizzle:Name')]
+
+const stored: (StoredResponse & { costUsd: string })[] = [
+  { scenarioId: 's1', llmProvider: 'openai-gpt4', chosenOption: 'A', identifiedMotifs: ['UTIL_CALC'], costUsd: '0.0100' },
+  { scenarioId: 's1', llmProvider: 'anthropic-claude', chosenOption: 'A', identifiedMotifs: ['UTIL_CALC'], costUsd: '0.0050' },
+  { scenarioId: 's1', llmProvider: 'local:llama3', chosenOption: 'B', identifiedMotifs: ['CARE_PARTICULAR'], costUsd: '0.0000' },
+  { scenarioId: 's2', llmProvider: 'openai-gpt4', chosenOption: 'C', identifiedMotifs: ['DEONT_ABSOLUTE'], costUsd: '0.0100' },
+  { scenarioId: 's2', llmProvider: 'anthropic-claude', chosenOption: 'C', identifiedMotifs: ['DEONT_ABSOLUTE'], costUsd: '0.0050' },
+  { scenarioId: 's2', llmProvider: 'local:llama3', chosenOption: 'C', identifiedMotifs: ['DEONT_ABSOLUTE'], costUsd: '0.0000' }
+]
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => ({
+        where: vi.fn(() => Promise.resolve(tableName(table) === 'experiment_llm_responses' ? stored : []))
+      }))
+    })),
+    insert: vi.fn((table: any) => ({
+      values: vi.fn((values: any) => {
+        writes.push({ table: tableName(table), values })
+        return Promise.resolve()
+      })
+    })),
+    update: vi.fn((table: any) => ({
+      set: vi.fn((values: any) => ({
+        where: vi.fn(() => {
+          writes.push({ table: tableName(table), values })
+          return Promise.resolve()
+        })
+      }))
+    }))
+  }
+}))
+
+describe('Experiment Batches', () => {
+  it('scores each provider against the cross-provider consensus', () => {
+    const analysis = analyzeBatchConsistency(stored)
+    const local = analysis.find(row => row.llmProvider === 'local:llama3')!
+    const gpt4 = analysis.find(row => row.llmProvider === 'openai-gpt4')!
+
+    expect(analysis.map(row => row.llmProvider)).toEqual(['anthropic-claude', 'local:llama3', 'openai-gpt4'])
+    expect(gpt4.consistentChoices).toBe(2)
+    expect(gpt4.consistencyPercentage).toBe(100)
+    expect(local.consistentChoices).toBe(1)
+    expect(local.consistencyPercentage).toBe(50)
+    expect(local.conflictingChoices).toBe(1)
+    expect(local.motifConsistency).toEqual({ CARE_PARTICULAR: 0.5, DEONT_ABSOLUTE: 0.5 })
+    expect(local.sampleSize).toBe(2)
+  })
+
+  it('writes consistency rows and closes the batch on completion', async () => {
+    await completeExperimentBatch('batch-1')
+
+    const consistency = writes.find(write => write.table === 'experiment_consistency_analysis')!
+    const batchUpdate = writes.find(write => write.table === 'alignment_experiment_batches')!
+
+    expect(consistency.values).toHaveLength(3)
+    expect(consistency.values[0]).toMatchObject({ batchId: 'batch-1', llmProvider: 'anthropic-claude', consistencyPercentage: '100' })
+    expect(batchUpdate.values).toMatchObject({ status: 'complete', progressPercent: 100, actualCostUsd: '0.0300' })
+    expect(batchUpdate.values.completedAt).toBeInstanceOf(Date)
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { estimatePromptCallCost, estimatePromptCost, exceedsBudget, scaleEstimate } from '@/lib/experiment-budget'
+import { MAX_REPAIR_ATTEMPTS } from '@/lib/llm-choice-parsing'
+import { estimateCallCost } from '@/lib/llm-providers'
+
+/**
+ * Experiment Budget Tests
+ *
+ * Estimates price prompts at LLM_PROVIDERS rates with worst-case response
+ * length; local models are free and never hit a cap.
+ */
+
+describe('Experiment Budget', () => {
+  it('prices every prompt for every provider', () => {
+    const prompts = [
+      { system: 'x'.repeat(396), user: 'y'.repeat(400) },
+      { system: 'x'.repeat(396), user: 'y'.repeat(800) }
+    ]
+    const estimate = estimatePromptCost(['anthropic-claude', 'local:llama3'], prompts, 100)
+
+    // 200 + 300 prompt tokens and 2 × 100 response tokens per provider
+    expect(estimate.calls).toBe(4)
+    expect(estimate.inputTokens).toBe(1000)
+    expect(estimate.outputTokens).toBe(400)
+    expect(estimate.perProvider).toEqual({ 'anthropic-claude': 0.0045, 'local:llama3': 0 })
+    expect(estimate.estimatedCostUsd).toBe(0.0045)
+    expect(scaleEstimate(estimate, 10).estimatedCostUsd).toBe(0.045)
+  })
+
+  it('prices a call with every repair attempt it may make', () => {
+    const prompt = { system: 'x'.repeat(396), user: 'y'.repeat(400) }
+    const firstAttempt = estimateCallCost('anthropic-claude', 200, 100)
+
+    // Each repair resends the prompt with the last reply and a repair request
+    expect(estimatePromptCallCost('anthropic-claude', prompt, 100)).toBeGreaterThan((1 + MAX_REPAIR_ATTEMPTS) * firstAttempt)
+    expect(estimatePromptCallCost('local:llama3', prompt, 100)).toBe(0)
+  })
+
+  it('only stops spend that would pass the cap', () => {
+    expect(exceedsBudget(0.9, 0.1, 1)).toBe(false)
+    expect(exceedsBudget(0.9, 0.11, 1)).toBe(true)
+    expect(exceedsBudget(1000, 5, null)).toBe(false)
+    expect(exceedsBudget(1000, 5, undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { MockProvider } from '@/lib/llm-adapters'
+import { LLMExperimentRunner } from '@/lib/llm-providers'
+
+/**
+ * Experiment Job Tests
+ *
+ * Jobs resume from the first unanswered scenario and stop at the next
+ * heartbeat once paused or cancelled.
+ */
+
+const batches = vi.hoisted(() => ({
+  claimExperimentBatch: vi.fn(),
+  getBatchScenarios: vi.fn(),
+  getBatchResponses: vi.fn(),
+  heartbeatBatch: vi.fn(),
+  recordProviderResponses: vi.fn(),
+  completeExperimentBatch: vi.fn(),
+  getBatch: vi.fn(),
+  transitionBatch: vi.fn(),
+  pauseForFailures: vi.fn()
+}))
+
+vi.mock('@/lib/experiment-batches', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/experiment-batches')>()),
+  ...batches
+}))
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([]))
+      }))
+    }))
+  }
+}))
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(() => Promise.resolve({ user: { role: 'admin' } }))
+}))
+
+const scenario = (sequence: number) => ({
+  scenarioId: `scenario-${sequence}`,
+  sourceDilemmaId: null,
+  sequence,
+  scenarioText: `Scenario ${sequence}`,
+  choiceA: 'one',
+  choiceB: 'two',
+  choiceC: 'three',
+  choiceD: 'four',
+  expectedMotifs: { A: 'UTIL_CALC' }
+})
+
+const config = { providers: ['anthropic-claude'], temperature: 0.5, maxTokens: 200, includeValuesContext: false, customInstructions: '' }
+const runner = () => new LLMExperimentRunner({}, { anthropic: new MockProvider() })
+
+describe('Experiment Jobs', () => {
+  beforeEach(() => {
+    Object.values(batches).forEach(mock => mock.mockReset())
+    batches.claimExperimentBatch.mockResolvedValue({ batchId: 'batch-1', config })
+    batches.getBatchScenarios.mockResolvedValue([scenario(0), scenario(1), scenario(2)])
+  })
+
+  it('resumes from the first unanswered scenario and completes', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    batches.getBatchResponses.mockResolvedValue([{ scenarioId: 'scenario-0', llmProvider: 'anthropic-claude', sampleIndex: 0, costUsd: '0.0100' }])
+    batches.heartbeatBatch.mockResolvedValue(true)
+
+    expect(await runExperimentJob('batch-1', runner())).toBe('complete')
+
+    const answered = batches.recordProviderResponses.mock.calls.map(call => call[1].scenarioId)
+    expect(answered).toEqual(['scenario-1', 'scenario-2'])
+    expect(batches.heartbeatBatch).toHaveBeenLastCalledWith('batch-1', 100, 0.01)
+    expect(batches.completeExperimentBatch).toHaveBeenCalledWith('batch-1')
+  })
+
+  it('stops once the batch is paused and leaves it open', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    batches.getBatchResponses.mockResolvedValue([])
+    batches.heartbeatBatch.mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+
+    expect(await runExperimentJob('batch-1', runner())).toBe('stopped')
+    expect(batches.recordProviderResponses).toHaveBeenCalledTimes(2)
+    expect(batches.completeExperimentBatch).not.toHaveBeenCalled()
+  })
+
+  it('pauses with a reason instead of spending past the cap', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    batches.claimExperimentBatch.mockResolvedValue({ batchId: 'batch-1', config: { ...config, maxSpendUsd: 0.012 } })
+    batches.getBatchResponses.mockResolvedValue([{ scenarioId: 'scenario-0', llmProvider: 'anthropic-claude', sampleIndex: 0, costUsd: '0.0100' }])
+    batches.heartbeatBatch.mockResolvedValue(true)
+
+    expect(await runExperimentJob('batch-1', runner())).toBe('stopped')
+    expect(batches.recordProviderResponses).not.toHaveBeenCalled()
+    expect(batches.transitionBatch).toHaveBeenCalledWith(
+      'batch-1', ['running'], 'paused', expect.stringContaining('Budget cap reached: $0.0100 spent of $0.0120')
+    )
+  })
+
+  it('ends paused rather than complete when a scenario failed', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    const mock = new MockProvider()
+    const flaky = {
+      name: 'flaky',
+      complete: vi.fn()
+        .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+        .mockImplementation(request => mock.complete(request))
+    }
+    batches.getBatchResponses.mockResolvedValue([])
+    batches.heartbeatBatch.mockResolvedValue(true)
+
+    expect(await runExperimentJob('batch-1', new LLMExperimentRunner({}, { anthropic: flaky }))).toBe('stopped')
+    expect(batches.recordProviderResponses).toHaveBeenCalledTimes(2)
+    expect(batches.pauseForFailures).toHaveBeenCalledWith('batch-1', 1, expect.objectContaining({ message: '429 Too Many Requests' }))
+    expect(batches.completeExperimentBatch).not.toHaveBeenCalled()
+  })
+
+  it('keeps a provider\'s paid response when a later provider fails', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    const failing = { name: 'failing', complete: vi.fn().mockRejectedValueOnce(new Error('500 Internal Server Error')).mockImplementation(request => new MockProvider().complete(request)) }
+    batches.claimExperimentBatch.mockResolvedValue({ batchId: 'batch-1', config: { ...config, providers: ['openai-gpt4', 'anthropic-claude'] } })
+    batches.getBatchResponses.mockResolvedValue([])
+    batches.heartbeatBatch.mockResolvedValue(true)
+
+    const llm = new LLMExperimentRunner({}, { openai: new MockProvider(), anthropic: failing })
+    expect(await runExperimentJob('batch-1', llm)).toBe('stopped')
+
+    const recorded = batches.recordProviderResponses.mock.calls.map(call => `${call[1].scenarioId}:${call[3][0].provider}`)
+    expect(recorded[0]).toBe('scenario-0:openai-gpt4')
+    expect(recorded).not.toContain('scenario-0:anthropic-claude')
+    expect(recorded).toHaveLength(5)
+  })
+
+  it('draws every sample of a scenario and resumes the missing ones', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    batches.claimExperimentBatch.mockResolvedValue({ batchId: 'batch-1', config: { ...config, samplesPerPrediction: 3 } })
+    batches.getBatchResponses.mockResolvedValue([
+      { scenarioId: 'scenario-0', llmProvider: 'anthropic-claude', sampleIndex: 0, costUsd: '0.0100' },
+      { scenarioId: 'scenario-0', llmProvider: 'anthropic-claude', sampleIndex: 2, costUsd: '0.0100' }
+    ])
+    batches.heartbeatBatch.mockResolvedValue(true)
+
+    expect(await runExperimentJob('batch-1', runner())).toBe('complete')
+
+    const recorded = batches.recordProviderResponses.mock.calls.map(call => `${call[1].scenarioId}:${call[3][0].sampleIndex}`)
+    expect(recorded).toEqual(['scenario-0:1', 'scenario-1:0', 'scenario-1:1', 'scenario-1:2', 'scenario-2:0', 'scenario-2:1', 'scenario-2:2'])
+  })
+
+  it('does nothing when another worker holds the batch', async () => {
+    const { runExperimentJob } = await import('@/lib/experiment-jobs')
+    batches.claimExperimentBatch.mockResolvedValue(null)
+
+    expect(await runExperimentJob('batch-1', runner())).toBe('not_claimed')
+    expect(batches.getBatchScenarios).not.toHaveBeenCalled()
+  })
+
+  it('refuses to pause a finished batch', async () => {
+    const { POST } = await import('@/app/api/admin/experiment/[batchId]/pause/route')
+    batches.transitionBatch.mockResolvedValue(null)
+    batches.getBatch.mockResolvedValue({ batchId: 'batch-1', status: 'complete' })
+
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/admin/experiment/batch-1/pause', { method: 'POST' }),
+      { params: Promise.resolve({ batchId: 'batch-1' }) }
+    )
+
+    expect(response.status).toBe(409)
+    expect(batches.transitionBatch).toHaveBeenCalledWith('batch-1', ['queued', 'running'], 'paused', 'Paused by admin')
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import {
+  adjustPValues,
+  bootstrapDeltaInterval,
+  cohensKappa,
+  mcnemarTest,
+  summarizeChoices,
+  type PairedOutcome
+} from '@/lib/experiment-statistics'
+
+/**
+ * Experiment Statistics Tests
+ *
+ * Checked against textbook values, so alignment results can be reported
+ * with significance the reader can trust.
+ */
+
+const outcomes = (counts: { both: number; baselineOnly: number; alignedOnly: number; neither: number }): PairedOutcome[] => [
+  ...Array(counts.both).fill({ baseline: true, aligned: true }),
+  ...Array(counts.baselineOnly).fill({ baseline: true, aligned: false }),
+  ...Array(counts.alignedOnly).fill({ baseline: false, aligned: true }),
+  ...Array(counts.neither).fill({ baseline: false, aligned: false })
+]
+
+describe('Experiment Statistics', () => {
+  it("uses the exact McNemar test for few discordant pairs and chi-square otherwise", () => {
+    const exact = mcnemarTest(outcomes({ both: 10, baselineOnly: 0, alignedOnly: 5, neither: 3 }))
+    expect(exact).toMatchObject({ baselineOnly: 0, alignedOnly: 5, exact: true })
+    expect(exact.pValue).toBeCloseTo(0.0625, 6)
+
+    const approximate = mcnemarTest(outcomes({ both: 50, baselineOnly: 10, alignedOnly: 30, neither: 10 }))
+    expect(approximate.exact).toBe(false)
+    expect(approximate.statistic).toBeCloseTo(9.025, 6)
+    expect(approximate.pValue).toBeCloseTo(0.00266, 4)
+
+    expect(mcnemarTest(outcomes({ both: 4, baselineOnly: 0, alignedOnly: 0, neither: 4 })).pValue).toBe(1)
+  })
+
+  it('bootstraps a reproducible interval around the delta', () => {
+    const pairs = outcomes({ both: 20, baselineOnly: 4, alignedOnly: 12, neither: 14 })
+    const interval = bootstrapDeltaInterval(pairs)
+
+    expect(interval.lower).toBeLessThan(16)
+    expect(interval.upper).toBeGreaterThan(16)
+    expect(bootstrapDeltaInterval(pairs)).toEqual(interval)
+    expect(bootstrapDeltaInterval(outcomes({ both: 0, baselineOnly: 0, alignedOnly: 6, neither: 0 }))).toEqual({ lower: 100, upper: 100 })
+  })
+
+  it("computes Cohen's kappa", () => {
+    const ratings: [string, string][] = [
+      ...Array(20).fill(['A', 'A']),
+      ...Array(5).fill(['A', 'B']),
+      ...Array(10).fill(['B', 'A']),
+      ...Array(15).fill(['B', 'B'])
+    ]
+    expect(cohensKappa(ratings)).toBe(0.4)
+    expect(cohensKappa([['A', 'A'], ['A', 'A']])).toBeNull()
+  })
+
+  it('corrects p-values with Holm and Benjamini-Hochberg', () => {
+    const holm = adjustPValues([0.01, 0.04, 0.03])
+    const bh = adjustPValues([0.01, 0.04, 0.03], 'benjamini-hochberg')
+
+    expect(holm.map(p => +p.toFixed(6))).toEqual([0.03, 0.06, 0.06])
+    expect(bh.map(p => +p.toFixed(6))).toEqual([0.03, 0.04, 0.04])
+  })
+
+  it('summarizes repeated samples of a choice', () => {
+    expect(summarizeChoices(['B', 'A', 'B', 'B'])).toEqual({
+      samples: 4,
+      counts: { A: 1, B: 3 },
+      majorityChoice: 'B',
+      agreementRate: 0.75,
+      entropy: 0.811
+    })
+    expect(summarizeChoices(['C', 'C'])).toMatchObject({ majorityChoice: 'C', agreementRate: 1, entropy: 0 })
+    expect(summarizeChoices(['B', 'A']).majorityChoice).toBe('A')
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  ALL_FRAMINGS,
+  PROMPTSET_BASE_DILEMMAS,
+  parsePromptsets,
+  renderPromptset,
+  summarizeFramingResults
+} from '@/lib/framing-robustness-experiment'
+
+/**
+ * Framing Robustness Experiment Tests
+ *
+ * Every promptset must resolve to a base dilemma, and a flip is a change of
+ * choice against the same model's baseline framing in the same condition,
+ * counted per value of each framing dimension.
+ */
+
+const scenario = (scenarioId: string, variationType: string, framing: Record<string, string> = {}) => ({
+  scenarioId,
+  variationType,
+  framing: { baseScenarioId: 'autonomous_vehicle_1', ...framing }
+})
+
+const response = (scenarioId: string, llmProvider: string, alignmentCondition: string, chosenOption: string) =>
+  ({ scenarioId, llmProvider, alignmentCondition, chosenOption })
+
+describe('Framing Robustness Experiment', () => {
+  it('parses striated/promptsets.csv with a baseline framing per base scenario', () => {
+    const promptsets = parsePromptsets(readFileSync(path.join(process.cwd(), 'striated', 'promptsets.csv'), 'utf-8'))
+
+    expect(promptsets).toHaveLength(30)
+    expect(promptsets.every(p => PROMPTSET_BASE_DILEMMAS[p.framing.baseScenarioId])).toBe(true)
+    const withBaseline = new Set(promptsets.filter(p => p.variationType === 'baseline').map(p => p.framing.baseScenarioId))
+    expect(withBaseline).toEqual(new Set(Object.keys(PROMPTSET_BASE_DILEMMAS)))
+    expect(promptsets[1].framing).toMatchObject({ variationSubtype: 'self_involved', emotionalValence: 'negative', biasTest: 'self_interest' })
+  })
+
+  it('renders templates with the scenario and real line breaks', () => {
+    expect(renderPromptset('You are the passenger. {scenario}\\n\\nWhat should the AI do?', 'A car brakes.'))
+      .toBe('You are the passenger. A car brakes.\n\nWhat should the AI do?')
+  })
+
+  it('compares each framing with the baseline framing in both conditions', () => {
+    const scenarios = [scenario('base', 'baseline'), scenario('stake', 'personal_stake'), scenario('time', 'temporal')]
+    const summary = summarizeFramingResults(scenarios, [
+      response('base', 'gpt', 'baseline', 'A'),
+      response('base', 'gpt', 'values_document', 'B'),
+      // Flips without the document, holds with it
+      response('stake', 'gpt', 'baseline', 'C'),
+      response('stake', 'gpt', 'values_document', 'B'),
+      // Unparseable in one condition - left out of both rates
+      response('time', 'gpt', 'baseline', 'A'),
+      response('time', 'gpt', 'values_document', 'invalid')
+    ])
+
+    expect(summary.find(row => row.framing === 'variation_type=personal_stake' && row.modelName === 'gpt')).toMatchObject({
+      comparisons: 1,
+      withoutValuesFlipRate: 100,
+      withValuesFlipRate: 0,
+      delta: -100
+    })
+    expect(summary.find(row => row.framing === ALL_FRAMINGS && row.modelName === null)).toMatchObject({
+      comparisons: 1,
+      invalid: 1
+    })
+  })
+
+  it('reports flip rates per value of each framing dimension', () => {
+    const scenarios = [
+      scenario('base', 'baseline', { emotionalValence: 'neutral', biasTest: 'none' }),
+      scenario('stake', 'personal_stake', { emotionalValence: 'very_negative', biasTest: 'self_interest' }),
+      scenario('time', 'temporal', { emotionalValence: 'very_negative', biasTest: 'time_pressure' })
+    ]
+    const summary = summarizeFramingResults(scenarios, [
+      response('base', 'gpt', 'baseline', 'A'),
+      response('base', 'gpt', 'values_document', 'A'),
+      response('stake', 'gpt', 'baseline', 'B'),
+      response('stake', 'gpt', 'values_document', 'A'),
+      response('time', 'gpt', 'baseline', 'A'),
+      response('time', 'gpt', 'values_document', 'A')
+    ])
+    const pooled = summary.filter(row => row.modelName === null)
+
+    expect(pooled.find(row => row.framing === 'emotional_valence=very_negative')).toMatchObject({
+      dimension: 'emotional_valence',
+      comparisons: 2,
+      withoutValuesFlipRate: 50,
+      withValuesFlipRate: 0
+    })
+    expect(pooled.find(row => row.framing === 'bias_test=time_pressure')).toMatchObject({ comparisons: 1, withoutValuesFlipRate: 0 })
+    // The baseline framing is the reference, never a row of its own
+    expect(pooled.some(row => row.framing === 'emotional_valence=neutral')).toBe(false)
+    expect(pooled[0].dimension).toBe(ALL_FRAMINGS)
+  })
+
+  it('compares majority votes when framings are sampled', () => {
+    const scenarios = [scenario('base', 'baseline'), scenario('stake', 'personal_stake')]
+    const summary = summarizeFramingResults(scenarios, [
+      ...['A', 'A', 'B'].map(choice => response('base', 'gpt', 'baseline', choice)),
+      ...['A', 'A', 'A'].map(choice => response('base', 'gpt', 'values_document', choice)),
+      // One unparseable sample still leaves a majority
+      ...['B', 'B', 'invalid'].map(choice => response('stake', 'gpt', 'baseline', choice)),
+      ...['A', 'B', 'A'].map(choice => response('stake', 'gpt', 'values_document', choice))
+    ])
+
+    expect(summary.find(row => row.framing === 'variation_type=personal_stake' && row.modelName === 'gpt')).toMatchObject({
+      comparisons: 1,
+      invalid: 0,
+      withoutValuesFlipRate: 100,
+      withValuesFlipRate: 0,
+      samples: 2.5,
+      withoutValuesAgreement: 100,
+      withValuesAgreement: 66.7,
+      withoutValuesEntropy: 0,
+      withValuesEntropy: 0.918
+    })
+  })
+})
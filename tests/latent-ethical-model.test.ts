@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { LatentEthicalEngine } from '@/lib/latent-ethical-model'
+import { binPopulationDensity, filterFittableResponses } from '@/lib/population-manifold'
+import type { Dilemma, UserResponse } from '@/lib/schema'
+
+/**
+ * Latent Ethical Model Tests
+ *
+ * The engine must recover the main axis of disagreement in a population and
+ * place individuals on it with uncertainty that shrinks as they answer more.
+ */
+
+const MOTIFS = ['UTIL_CALC', 'CARE_PARTICULAR', 'JUST_PROCEDURAL', 'HARM_MINIMIZE']
+
+const dilemmas = Array.from({ length: 12 }, (_, i) => ({
+  dilemmaId: `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`,
+  title: `Dilemma ${i}`,
+  domain: 'general',
+  difficulty: 5,
+  choiceAMotif: MOTIFS[0],
+  choiceBMotif: MOTIFS[1],
+  choiceCMotif: MOTIFS[2],
+  choiceDMotif: MOTIFS[3]
+})) as unknown as Dilemma[]
+
+const respond = (sessionId: string, choices: string[]): UserResponse[] =>
+  choices.map((chosenOption, i) => ({
+    sessionId,
+    dilemmaId: dilemmas[i].dilemmaId,
+    chosenOption
+  }) as UserResponse)
+
+// Half the population leans utilitarian, half towards particular care
+const population = [
+  ...Array.from({ length: 10 }, (_, i) => respond(`util-${i}`, ['a', 'a', 'a', 'a', 'a', i % 2 ? 'c' : 'd', 'a', 'b'])),
+  ...Array.from({ length: 10 }, (_, i) => respond(`care-${i}`, ['b', 'b', 'b', 'b', 'b', i % 2 ? 'c' : 'd', 'b', 'a']))
+].flat()
+
+describe('LatentEthicalEngine', () => {
+  it('finds the utilitarian-care axis as the first dimension', async () => {
+    const engine = new LatentEthicalEngine()
+    await engine.initialize(population, dilemmas)
+    const manifold = engine.getManifold()!
+
+    expect(manifold.motifIds).toEqual([...MOTIFS].sort())
+    expect(manifold.dimensions[0].varianceExplained).toBeGreaterThan(70)
+    expect(manifold.dimensions[0].name.split('-').sort()).toEqual(['CARE_PARTICULAR', 'UTIL_CALC'])
+    expect(engine.getPopulationScores()).toHaveLength(20)
+  })
+
+  it('places individuals on the side of the population they resemble', async () => {
+    const engine = new LatentEthicalEngine()
+    await engine.initialize(population, dilemmas)
+    const axis = engine.getManifold()!.dimensions[0]
+    const utilSign = Math.sign(axis.loadings[engine.getManifold()!.motifIds.indexOf('UTIL_CALC')])
+
+    const utilitarian = await engine.estimateIndividualPosition(respond('new-util', ['a', 'a', 'a', 'a', 'a', 'a']), dilemmas)
+    const carer = await engine.estimateIndividualPosition(respond('new-care', ['b', 'b', 'b', 'b', 'b', 'b']), dilemmas)
+
+    expect(Math.sign(utilitarian.position.coordinates[0])).toBe(utilSign)
+    expect(Math.sign(carer.position.coordinates[0])).toBe(-utilSign)
+  })
+
+  it('narrows uncertainty with more responses and survives a JSON round-trip', async () => {
+    const engine = new LatentEthicalEngine()
+    await engine.initialize(population, dilemmas)
+
+    const few = await engine.estimateIndividualPosition(respond('few', ['a', 'b', 'a']), dilemmas)
+    const many = await engine.estimateIndividualPosition(respond('many', ['a', 'b', 'a', 'a', 'b', 'a', 'a', 'b', 'a', 'a', 'b', 'a']), dilemmas)
+    expect(many.position.uncertainty[0][0]).toBeLessThan(few.position.uncertainty[0][0])
+
+    const restored = new LatentEthicalEngine()
+    restored.loadManifold(JSON.parse(JSON.stringify(engine.getManifold())))
+    const again = await restored.estimateIndividualPosition(respond('many', ['a', 'b', 'a', 'a', 'b', 'a', 'a', 'b', 'a', 'a', 'b', 'a']), dilemmas)
+    again.position.coordinates.forEach((c, i) => expect(c).toBeCloseTo(many.position.coordinates[i], 10))
+  })
+
+  it('only fits sessions with enough responses', () => {
+    const responses = [...respond('short', ['a', 'b']), ...respond('long', ['a', 'b', 'c'])]
+    expect(new Set(filterFittableResponses(responses).map(r => r.sessionId))).toEqual(new Set(['long']))
+  })
+
+  it('bins population points and drops cells under the k-anonymity threshold', () => {
+    const points = [...Array.from({ length: 6 }, () => [0.1, 0.1]), [2.9, -2.9], [2.95, -2.95], [50, 50]]
+    const cells = binPopulationDensity(points, [0, 0], [[1, 0], [0, 1]], 6)
+
+    expect(cells).toEqual([{ x: [0, 1], y: [0, 1], count: 6 }])
+    expect(binPopulationDensity(points.map(([x]) => [x]), [0], [[1]], 6)).toEqual([{ x: [0, 1], y: null, count: 6 }])
+  })
+})
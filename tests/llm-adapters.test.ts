@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { MockProvider, RecordReplayProvider, type LLMCompletionRequest } from '@/lib/llm-adapters'
+import { LLMExperimentRunner, discoverLocalModels } from '@/lib/llm-providers'
+import { OpenRouterService } from '@/lib/openrouter'
+
+/**
+ * LLM Adapter Tests
+ *
+ * Experiments and dilemma generation must run offline: the mock is
+ * deterministic, and recorded transcripts replay without the live provider.
+ */
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(() => Promise.resolve({ user: { role: 'admin' } }))
+}))
+
+const inserted: any[] = []
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => Object.assign(
+        // The motif ontology generated dilemmas are validated against
+        Promise.resolve(table[Symbol.for('drizzle:Name')] === 'motifs' ? [
+          { motifId: 'UTIL_CALC', name: 'Utilitarian Calculation', conflictsWith: 'DEONT_ABSOLUTE,CARE_PARTICULAR' },
+          { motifId: 'DEONT_ABSOLUTE', name: 'Absolute Deontological', conflictsWith: 'UTIL_CALC' },
+          { motifId: 'CARE_PARTICULAR', name: 'Care for Particular', conflictsWith: 'UTIL_CALC' },
+          { motifId: 'JUST_PROCEDURAL', name: 'Procedural Justice', conflictsWith: '' }
+        ] : []),
+        {
+          where: vi.fn(() => {
+            const rows = Promise.resolve([])
+            return Object.assign(rows, { limit: vi.fn(() => Promise.resolve([])) })
+          })
+        }
+      ))
+    })),
+    insert: vi.fn(() => ({
+      values: vi.fn((values: any) => {
+        inserted.push(values)
+        return { returning: vi.fn(() => Promise.resolve([{ dilemmaId: 'generated-1', status: values.status }])) }
+      })
+    }))
+  }
+}))
+
+const request: LLMCompletionRequest = {
+  model: 'test-model',
+  messages: [
+    { role: 'system', content: 'Answer as:\nCHOICE: [A/B/C/D]' },
+    { role: 'user', content: 'A) one\nB) two\nC) three' }
+  ],
+  temperature: 0.5
+}
+
+describe('LLM Adapters', () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER_MODE
+    delete process.env.LOCAL_LLM_BASE_URL
+    vi.unstubAllGlobals()
+    inserted.length = 0
+  })
+
+  it('mock answers deterministically in the requested format', async () => {
+    const mock = new MockProvider()
+    const first = await mock.complete(request)
+    const second = await mock.complete(request)
+
+    expect(first).toEqual(second)
+    expect(first.cost).toBe(0)
+    expect(first.content).toMatch(/^CHOICE: [ABC]$/m)
+  })
+
+  it('replays recorded transcripts without calling the live provider', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'llm-transcripts-'))
+    try {
+      const live = { name: 'live', complete: vi.fn(() => Promise.resolve({ content: 'recorded', inputTokens: 3, outputTokens: 1 })) }
+
+      await new RecordReplayProvider(live, 'record', directory).complete(request)
+      expect(readdirSync(directory)).toHaveLength(1)
+
+      const replay = new RecordReplayProvider(live, 'replay', directory)
+      expect(await replay.complete(request)).toEqual({ content: 'recorded', inputTokens: 3, outputTokens: 1 })
+      expect(live.complete).toHaveBeenCalledTimes(1)
+
+      await expect(replay.complete({ ...request, model: 'other-model' })).rejects.toThrow('No recorded transcript')
+    } finally {
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('runs experiment calls through the adapter', async () => {
+    const mock = new MockProvider(() => 'CHOICE: C\nREASONING: Offline\nCONFIDENCE: 8')
+    const runner = new LLMExperimentRunner({}, { anthropic: mock })
+
+    const response = await runner.callLLM('anthropic-claude', 'system', 'A) one\nB) two\nC) three')
+
+    expect(response.choice).toBe('C')
+    expect(response.confidence).toBe(8)
+    expect(response.cost).toBe(0)
+  })
+
+  it('generates dilemmas offline through OpenRouterService and the admin route', async () => {
+    const dilemma = await new OpenRouterService(new MockProvider()).generateDilemma(['UTIL_CALC'], ['UTIL_CALC'], 'technology', 5)
+    expect(dilemma.choices).toHaveLength(4)
+
+    process.env.LLM_PROVIDER_MODE = 'mock'
+    const { POST } = await import('@/app/api/admin/generate-dilemma/route')
+    const response = await POST(new NextRequest('http://localhost:3000/api/admin/generate-dilemma', {
+      method: 'POST',
+      body: JSON.stringify({ domain: 'technology' })
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.dilemmaId).toBe('generated-1')
+    expect(data.status).toBe('in_review')
+    expect(inserted[0].choiceAMotif).toBe('UTIL_CALC')
+  })
+
+  it('discovers local models and runs them at zero cost', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1/'
+    const fetchMock = vi.fn((url: string, _init?: RequestInit) => Promise.resolve(new Response(JSON.stringify(
+      url.endsWith('/models')
+        ? { data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }] }
+        : { choices: [{ message: { content: 'CHOICE: B\nREASONING: Local\nCONFIDENCE: 7' } }], usage: { prompt_tokens: 900, completion_tokens: 40 } }
+    ))))
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect(await discoverLocalModels()).toEqual(['local:llama3.1', 'local:qwen2.5'])
+
+    const response = await new LLMExperimentRunner({}).callLLM('local:llama3.1', 'system', 'A) one\nB) two')
+
+    expect(fetchMock).toHaveBeenLastCalledWith('http://localhost:11434/v1/chat/completions', expect.anything())
+    expect(JSON.parse(fetchMock.mock.calls[1][1]!.body as string).model).toBe('llama3.1')
+    expect(response.choice).toBe('B')
+    expect(response.tokenCount).toBe(40)
+    expect(response.cost).toBe(0)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { MockProvider, type LLMCompletionRequest } from '@/lib/llm-adapters'
+import { LLMExperimentRunner } from '@/lib/llm-providers'
+import { INVALID_CHOICE, parseChoiceResponse } from '@/lib/llm-choice-parsing'
+
+/**
+ * LLM Choice Parsing Tests
+ *
+ * Replies are validated rather than scraped: malformed output gets repair
+ * turns, and output that never validates is recorded as invalid instead of
+ * silently becoming option A.
+ */
+
+describe('LLM choice parsing', () => {
+  it('accepts fenced JSON and labelled lines', () => {
+    const fenced = parseChoiceResponse('Here you go:\n```json\n{"choice": " b ", "reasoning": "Fair", "confidence": "7"}\n```')
+    expect(fenced).toEqual({
+      success: true,
+      choice: { choice: 'B', reasoning: 'Fair', confidence: 7, valuesApplied: [] }
+    })
+
+    const labelled = parseChoiceResponse('CHOICE: C\nREASONING: Safer\nCONFIDENCE: 6\nVALUES_APPLIED: care, honesty')
+    expect(labelled.success && labelled.choice.valuesApplied).toEqual(['care', 'honesty'])
+  })
+
+  it('reports what is wrong with an unusable reply', () => {
+    expect(parseChoiceResponse('I would pick the second one.')).toEqual({ success: false, error: 'Reply contains no JSON object' })
+
+    const outOfRange = parseChoiceResponse('{"choice": "E", "reasoning": "x", "confidence": 11}')
+    expect(outOfRange.success).toBe(false)
+    expect(!outOfRange.success && outOfRange.error).toMatch(/choice.*confidence/)
+  })
+
+  it('repairs a malformed reply on a follow-up turn', async () => {
+    const replies = ['Option B, definitely.', '{"choice": "B", "reasoning": "Fixed", "confidence": 8}']
+    const requests: LLMCompletionRequest[] = []
+    const runner = new LLMExperimentRunner({}, {
+      anthropic: new MockProvider(request => {
+        requests.push(request)
+        return replies[requests.length - 1]
+      })
+    })
+
+    const response = await runner.callLLM('anthropic-claude', 'system', 'A) one\nB) two')
+
+    expect(response).toMatchObject({ choice: 'B', valid: true, attempts: 2 })
+    expect(requests[0].responseFormat).toBe('json')
+    expect(requests[1].messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user'])
+    expect(requests[1].messages[3].content).toContain('could not be used')
+  })
+
+  it('records an invalid choice once repairs are exhausted', async () => {
+    const runner = new LLMExperimentRunner({}, { anthropic: new MockProvider(() => 'No idea.') })
+
+    const response = await runner.callLLM('anthropic-claude', 'system', 'A) one\nB) two')
+
+    expect(response).toMatchObject({ choice: INVALID_CHOICE, valid: false, attempts: 3, confidence: 0, reasoning: 'No idea.' })
+    expect(response.parseError).toBe('Reply contains no JSON object')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parse } from 'csv-parse/sync'
+import { buildMotifOntology, findMissingMotifReferences, validateDilemmaMotifs } from '@/lib/motif-ontology'
+
+/**
+ * Motif Ontology Tests
+ *
+ * Generated dilemmas may only use motifs from striated/motifs.csv, four
+ * distinct ones, with at least one pair in conflict.
+ */
+
+const rows = parse(readFileSync(path.join(process.cwd(), 'striated', 'motifs.csv'), 'utf-8'), { columns: true })
+  .map((row: Record<string, string>) => ({ motifId: row.motif_id, name: row.name, conflictsWith: row.conflicts_with }))
+const ontology = buildMotifOntology(rows)
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => Promise.resolve(table[Symbol.for('drizzle:Name')] === 'motifs' ? rows : [
+        { dilemmaId: 'd1', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'PERSON_FIRST', choiceCMotif: 'EXPERT_DEFERENCE', choiceDMotif: null, targetMotifs: 'PERSON_FIRST' },
+        { dilemmaId: 'd2', choiceAMotif: 'PERSON_FIRST', choiceBMotif: null, choiceCMotif: null, choiceDMotif: null, targetMotifs: null }
+      ]))
+    }))
+  }
+}))
+
+describe('Motif Ontology', () => {
+  it('accepts four distinct ontology motifs with a conflicting pair', () => {
+    const validation = validateDilemmaMotifs(['UTIL_CALC', 'DEONT_ABSOLUTE', 'CARE_RELATION', 'JUST_PROCEDURAL'], ontology)
+    expect(validation).toEqual({ valid: true, motifs: ['UTIL_CALC', 'DEONT_ABSOLUTE', 'CARE_RELATION', 'JUST_PROCEDURAL'], issues: [] })
+  })
+
+  it('remaps case variants, motif names and legacy IDs but rejects invented ones', () => {
+    const validation = validateDilemmaMotifs(['util_calc', 'Absolute Deontological', 'PERSON_FIRST', 'GUT_FEELING'], ontology)
+
+    expect(validation.motifs).toEqual(['UTIL_CALC', 'DEONT_ABSOLUTE', 'CARE_PARTICULAR', null])
+    expect(validation.valid).toBe(false)
+    expect(validation.issues.filter(issue => issue.kind !== 'remapped')).toEqual([{ kind: 'unknown', choice: 'D', motif: 'GUT_FEELING' }])
+  })
+
+  it('rejects repeated motifs and choices with no tension between them', () => {
+    expect(validateDilemmaMotifs(['UTIL_CALC', 'DEONT_ABSOLUTE', 'UTIL_CALC', 'CARE_RELATION'], ontology).issues)
+      .toContainEqual({ kind: 'duplicate', choice: 'C', motif: 'UTIL_CALC' })
+    expect(validateDilemmaMotifs(['UTIL_CALC', 'HARM_MINIMIZE', 'AUTONOMY_ENHANCE', 'JUST_DISTRIBUTIVE'], ontology).issues)
+      .toEqual([{ kind: 'no_conflict', motifs: ['UTIL_CALC', 'HARM_MINIMIZE', 'AUTONOMY_ENHANCE', 'JUST_DISTRIBUTIVE'] }])
+  })
+
+  it('reports dilemmas that reference motifs missing from the motifs table', async () => {
+    expect(await findMissingMotifReferences()).toEqual([
+      { motifId: 'PERSON_FIRST', dilemmas: 2, dilemmaIds: ['d1', 'd2'], suggestion: 'CARE_PARTICULAR' },
+      { motifId: 'EXPERT_DEFERENCE', dilemmas: 1, dilemmaIds: ['d1'], suggestion: null }
+    ])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildResearchAggregates,
+  OTHER_GROUPS,
+  type ConsentedResponseRow
+} from '@/lib/research-aggregates'
+
+/**
+ * Research Aggregate Tests
+ *
+ * Aggregates must never expose a figure drawn from fewer than k sessions,
+ * directly or by subtraction from the figures shown next to it.
+ */
+
+const DILEMMA_ID = '00000000-0000-4000-8000-000000000001'
+
+const row = (sessionId: string, chosenOption: string, demographics: Partial<ConsentedResponseRow> = {}): ConsentedResponseRow => ({
+  sessionId,
+  dilemmaId: DILEMMA_ID,
+  chosenOption,
+  choiceAMotif: 'UTIL_CALC',
+  choiceBMotif: 'CARE_PARTICULAR',
+  choiceCMotif: 'JUST_PROCEDURAL',
+  choiceDMotif: 'HARM_MINIMIZE',
+  domain: 'medical',
+  difficulty: 5,
+  title: 'Triage',
+  ageRange: null,
+  culturalBackground: null,
+  geographicRegion: null,
+  ...demographics
+})
+
+const sessions = (prefix: string, count: number, chosenOption: string, demographics: Partial<ConsentedResponseRow> = {}) =>
+  Array.from({ length: count }, (_, i) => row(`${prefix}-${i}`, chosenOption, demographics))
+
+describe('Research aggregates', () => {
+  it('suppresses small cells and a second cell so they cannot be derived', () => {
+    const rows = [...sessions('a', 8, 'a'), ...sessions('b', 6, 'b'), ...sessions('c', 2, 'c')]
+    const [group] = buildResearchAggregates(rows).groups
+
+    expect(group.sessionCount).toBe(16)
+    const motifs = Object.fromEntries(group.motifFrequencies.map(cell => [cell.key, cell]))
+    expect(motifs.UTIL_CALC).toMatchObject({ count: 8, sessions: 8, percentage: 50, suppressed: false })
+    expect(motifs.JUST_PROCEDURAL.suppressed).toBe(true)
+    expect(motifs.JUST_PROCEDURAL.count).toBeNull()
+    // Only one cell was under k, so the next smallest hides it
+    expect(motifs.CARE_PARTICULAR.suppressed).toBe(true)
+
+    const [split] = group.dilemmaSplits
+    expect(split.respondents).toBe(16)
+    expect(split.choices.find(c => c.key === 'a')?.percentage).toBe(50)
+    expect(split.choices.find(c => c.key === 'c')?.suppressed).toBe(true)
+  })
+
+  it('suppresses everything when there are fewer than k sessions', () => {
+    const result = buildResearchAggregates(sessions('a', 4, 'a'))
+    expect(result.totalSessions).toBeNull()
+    expect(result.groups[0]).toMatchObject({ suppressed: true, sessionCount: null, motifFrequencies: [] })
+  })
+
+  it('pools small demographic groups instead of dropping them', () => {
+    const rows = [
+      ...sessions('young', 10, 'a', { ageRange: '18-24' }),
+      ...sessions('mid', 6, 'b', { ageRange: '35-44' }),
+      ...sessions('old', 3, 'a', { ageRange: '65+' })
+    ]
+
+    const { groups } = buildResearchAggregates(rows, 'ageRange')
+    expect(groups.map(g => g.value)).toEqual(['18-24', OTHER_GROUPS])
+    // The 65+ group alone was under k, so the smallest visible group joined it
+    expect(groups.find(g => g.value === OTHER_GROUPS)?.sessionCount).toBe(9)
+    expect(groups.some(g => g.value === '65+')).toBe(false)
+  })
+
+  it('counts each session once under its dominant framework', () => {
+    const rows = sessions('a', 6, 'a').flatMap(r => [r, { ...r, dilemmaId: `${DILEMMA_ID.slice(0, -1)}2` }])
+    const [group] = buildResearchAggregates(rows).groups
+
+    const total = group.frameworkDistribution.reduce((sum, cell) => sum + (cell.count || 0), 0)
+    expect(total).toBe(6)
+  })
+})
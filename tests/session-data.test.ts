@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { issueSessionToken, rowsToCsv, verifySessionToken } from '@/lib/session-data'
+
+/**
+ * Session Data Tests
+ *
+ * Export and erasure are gated on the session token issued with the first
+ * research save, and erasure must reach every table keyed by the session.
+ */
+
+process.env.SESSION_TOKEN_SECRET = 'test-secret'
+
+const deleted: string[] = []
+
+const tableName = (table: any): string => table[Symbol.for('drizzle:Name')]
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn((table: any) => ({
+        where: vi.fn(() => Promise.resolve(
+          tableName(table) === 'user_responses'
+            ? [{ dilemmaId: 'd1', chosenOption: 'a', reasoning: 'Because, "fair"' }]
+            : []
+        ))
+      }))
+    })),
+    delete: vi.fn((table: any) => ({
+      where: vi.fn(() => ({
+        returning: vi.fn(() => {
+          deleted.push(tableName(table))
+          return Promise.resolve(tableName(table) === 'user_responses' ? [{}, {}, {}] : [{}])
+        })
+      }))
+    }))
+  }
+}))
+
+const post = (path: string, body: object) =>
+  new NextRequest(`http://localhost:3000${path}`, { method: 'POST', body: JSON.stringify(body) })
+
+describe('Session Data', () => {
+  beforeEach(() => {
+    deleted.length = 0
+  })
+
+  it('verifies tokens only for the session they were issued to', () => {
+    const token = issueSessionToken('session-1')
+
+    expect(verifySessionToken('session-1', token)).toBe(true)
+    expect(verifySessionToken('session-2', token)).toBe(false)
+    expect(verifySessionToken('session-1', token.slice(0, -1) + (token.endsWith('A') ? 'B' : 'A'))).toBe(false)
+    expect(verifySessionToken('session-1', '')).toBe(false)
+  })
+
+  it('escapes CSV values containing commas, quotes and newlines', () => {
+    const csv = rowsToCsv([{ id: 1, note: 'a, "b"\nc', meta: { x: 1 }, empty: null }])
+
+    expect(csv).toBe('id,note,meta,empty\n1,"a, ""b""\nc","{""x"":1}",\n')
+  })
+
+  it('exports stored rows only with a valid token', async () => {
+    const { POST } = await import('@/app/api/session/export/route')
+
+    const forbidden = await POST(post('/api/session/export', { sessionId: 'session-1', token: 'forged' }))
+    expect(forbidden.status).toBe(403)
+
+    const response = await POST(post('/api/session/export', {
+      sessionId: 'session-1',
+      token: issueSessionToken('session-1'),
+      format: 'csv'
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+    expect(data.files['user_responses.csv']).toBe('dilemmaId,chosenOption,reasoning\nd1,a,"Because, ""fair"""\n')
+    expect(data.files['user_demographics.csv']).toBe('')
+  })
+
+  it('erases every table keyed by the session', async () => {
+    const { POST } = await import('@/app/api/session/delete/route')
+
+    const forbidden = await POST(post('/api/session/delete', { sessionId: 'session-1', token: issueSessionToken('session-2') }))
+    expect(forbidden.status).toBe(403)
+    expect(deleted).toEqual([])
+
+    const response = await POST(post('/api/session/delete', { sessionId: 'session-1', token: issueSessionToken('session-1') }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.deleted.user_responses).toBe(3)
+    expect(deleted.sort()).toEqual([
+      'experiment_consistency_analysis',
+      'experiment_llm_responses',
+      'llm_alignment_experiments',
+      'user_demographics',
+      'user_responses',
+      'values_documents'
+    ])
+  })
+})
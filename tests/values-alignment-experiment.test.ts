@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildPredictionSystemPrompt,
+  selectHoldout,
+  summarizeAlignmentResults,
+  type AlignmentPrediction
+} from '@/lib/values-alignment-experiment'
+
+/**
+ * VALUES.md Alignment Experiment Tests
+ *
+ * Held-out splits must be reproducible so resumed runs test the same
+ * dilemmas, and template deltas are paired against the baseline.
+ */
+
+const prediction = (
+  templateType: string,
+  modelName: string,
+  testDilemmaId: string,
+  humanChoice: string,
+  llmChoice: string
+): AlignmentPrediction => ({ humanSessionId: 'session-1', testDilemmaId, modelName, templateType, humanChoice, llmChoice })
+
+describe('VALUES.md Alignment Experiment', () => {
+  it('holds out the same dilemmas for the same session', () => {
+    const dilemmaIds = ['d1', 'd2', 'd3', 'd4', 'd5', 'd6']
+    const holdout = selectHoldout(dilemmaIds, 2, 'session-1')
+
+    expect(holdout).toHaveLength(2)
+    expect(selectHoldout([...dilemmaIds].reverse(), 2, 'session-1')).toEqual(holdout)
+    expect(dilemmaIds).toEqual(expect.arrayContaining(holdout))
+  })
+
+  it('only includes VALUES.md in the aligned condition', () => {
+    expect(buildPredictionSystemPrompt('# My Values\n\nCare first')).toContain('# My Values')
+    expect(buildPredictionSystemPrompt(null)).toContain('You know nothing else about this person')
+  })
+
+  it('computes per-template deltas over predictions paired with a baseline', () => {
+    const summary = summarizeAlignmentResults([
+      prediction('baseline', 'openai-gpt4', 'd1', 'a', 'B'),
+      prediction('baseline', 'openai-gpt4', 'd2', 'c', 'C'),
+      prediction('enhanced', 'openai-gpt4', 'd1', 'a', 'A'),
+      prediction('enhanced', 'openai-gpt4', 'd2', 'c', 'C'),
+      prediction('minimalist', 'openai-gpt4', 'd1', 'a', 'D'),
+      prediction('minimalist', 'openai-gpt4', 'd2', 'c', 'C'),
+      // No baseline for d3, so it can't be compared
+      prediction('enhanced', 'openai-gpt4', 'd3', 'b', 'B')
+    ])
+
+    const enhanced = summary.find(row => row.templateType === 'enhanced' && row.modelName === 'openai-gpt4')!
+    const minimalist = summary.find(row => row.templateType === 'minimalist' && row.modelName === 'openai-gpt4')!
+
+    expect(enhanced).toMatchObject({ pairs: 2, baselineAccuracy: 50, alignedAccuracy: 100, delta: 50 })
+    expect(minimalist).toMatchObject({ pairs: 2, baselineAccuracy: 50, alignedAccuracy: 50, delta: 0 })
+    expect(summary.filter(row => row.modelName === null).map(row => row.templateType)).toEqual(['enhanced', 'minimalist'])
+    // One discordant pair in the document's favour is far from significant
+    expect(enhanced.mcnemar).toMatchObject({ baselineOnly: 0, alignedOnly: 1, exact: true, pValue: 1 })
+    expect(enhanced.adjustedPValue).toBe(1)
+    expect(enhanced.alignedKappa).toBe(1)
+  })
+
+  it('scores repeated samples by their whole choice distribution', () => {
+    const summary = summarizeAlignmentResults([
+      prediction('baseline', 'openai-gpt4', 'd1', 'a', 'B'),
+      prediction('baseline', 'openai-gpt4', 'd1', 'a', 'B'),
+      prediction('baseline', 'openai-gpt4', 'd1', 'a', 'A'),
+      prediction('enhanced', 'openai-gpt4', 'd1', 'a', 'A'),
+      prediction('enhanced', 'openai-gpt4', 'd1', 'a', 'A'),
+      // Unparseable samples are left out of the distribution
+      prediction('enhanced', 'openai-gpt4', 'd1', 'a', 'invalid')
+    ])
+
+    expect(summary.find(row => row.modelName === 'openai-gpt4')).toMatchObject({
+      pairs: 1,
+      samples: 2.5,
+      baselineAccuracy: 33.3,
+      alignedAccuracy: 100,
+      baselineAgreement: 66.7,
+      alignedAgreement: 100,
+      baselineEntropy: 0.918,
+      alignedEntropy: 0,
+      mcnemar: { baselineOnly: 0, alignedOnly: 1 }
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import { combinatorialGenerator } from '@/lib/combinatorial-values-generator'
+import {
+  buildValuesDocument,
+  diffValuesDocuments,
+  embedValuesFrontMatter,
+  parseValuesFrontMatter,
+  VALUES_SCHEMA_VERSION
+} from '@/lib/values-document'
+
+/**
+ * values.json Companion Tests
+ *
+ * Verifies the structured document built from an EthicalProfile survives a
+ * round-trip through VALUES.md front-matter, and that the schema route serves it.
+ */
+
+describe('values.json companion format', () => {
+  const profile = combinatorialGenerator.analyzeResponses([
+    { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'medical', difficulty: 7 },
+    { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'policy', difficulty: 6 },
+    { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'policy', difficulty: 5 },
+    { chosenOption: 'b', motif: 'HARM_MINIMIZE', domain: 'medical', difficulty: 8 },
+    { chosenOption: 'b', motif: 'HARM_MINIMIZE', domain: 'family', difficulty: 4 }
+  ])
+
+  it('builds priority rules from the motif ranking', () => {
+    const document = buildValuesDocument(profile, { responseCount: 5 })
+
+    expect(document.schemaVersion).toBe(VALUES_SCHEMA_VERSION)
+    expect(document.generator).toEqual({ method: 'combinatorial', templateId: null })
+    expect(document.conflictResolution.priorityOrder[0]).toBe('UTIL_CALC')
+    expect(document.conflictResolution.rules[0]).toMatchObject({ prefer: 'UTIL_CALC', over: 'HARM_MINIMIZE' })
+  })
+
+  it('round-trips through VALUES.md front-matter', () => {
+    const document = buildValuesDocument(profile, { responseCount: 5, templateId: 'narrative' })
+    const markdown = embedValuesFrontMatter('# My Values\n\nBody text\n', document)
+
+    expect(markdown.startsWith('---\n')).toBe(true)
+
+    const parsed = parseValuesFrontMatter(markdown)
+    expect(parsed.errors).toEqual([])
+    expect(parsed.document).toEqual(document)
+    expect(parsed.body).toContain('# My Values')
+  })
+
+  it('reports markdown without or with invalid front-matter', () => {
+    expect(parseValuesFrontMatter('# My Values\n').errors).toEqual(['No front-matter found'])
+
+    const invalid = parseValuesFrontMatter('---\nschemaVersion: 1.0.0\n---\n# My Values\n')
+    expect(invalid.document).toBeNull()
+    expect(invalid.errors.length).toBeGreaterThan(0)
+  })
+
+  it('diffs motif and framework changes between versions', () => {
+    const previous = buildValuesDocument(profile, { responseCount: 5 })
+    const current = buildValuesDocument(
+      combinatorialGenerator.analyzeResponses([
+        { chosenOption: 'b', motif: 'HARM_MINIMIZE', domain: 'medical', difficulty: 8 },
+        { chosenOption: 'b', motif: 'HARM_MINIMIZE', domain: 'family', difficulty: 4 },
+        { chosenOption: 'b', motif: 'HARM_MINIMIZE', domain: 'policy', difficulty: 6 },
+        { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'medical', difficulty: 7 }
+      ]),
+      { responseCount: 4 }
+    )
+
+    const diff = diffValuesDocuments(previous, current)
+    expect(diff.topMotifChanged).toBe(true)
+    expect(diff.motifChanges.find(c => c.motifId === 'HARM_MINIMIZE')?.change).toBe('rose')
+    expect(diff.motifChanges.find(c => c.motifId === 'UTIL_CALC')?.change).toBe('fell')
+    expect(diffValuesDocuments(previous, previous).motifChanges).toEqual([])
+  })
+
+  it('serves the versioned JSON Schema', async () => {
+    const { GET } = await import('@/app/api/schema/values/route')
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/schema/values'))
+    const schema = await response.json()
+    expect(response.status).toBe(200)
+    expect(schema.properties.schemaVersion.const).toBe(VALUES_SCHEMA_VERSION)
+
+    const missing = await GET(new NextRequest('http://localhost:3000/api/schema/values?version=0.0.1'))
+    expect(missing.status).toBe(404)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { buildTemplateData, hashGenerationConfig, selectPrimaryFramework, type ResolvedResponse } from '@/lib/values-generation'
+import { combinatorialGenerator } from '@/lib/combinatorial-values-generator'
+import { generateValuesByTemplate, valueTemplates } from '@/lib/values-templates'
+
+/**
+ * Template Data Tests
+ *
+ * Verifies TemplateData is built from the chosen motifs and the ontology tables,
+ * and that every TemplateBlueprint renders it.
+ */
+
+const motifRows = [
+  { motifId: 'CARE_PARTICULAR', name: 'Particular Care', category: 'care_ethics', subcategory: null, description: 'Care for those close', lexicalIndicators: null, behavioralIndicators: null, logicalPatterns: null, conflictsWith: null, synergiesWith: null, weight: null, culturalVariance: null, cognitiveLoad: null, createdAt: null },
+  { motifId: 'UTIL_CALC', name: 'Utilitarian Calculation', category: 'consequentialism', subcategory: null, description: 'Maximise welfare', lexicalIndicators: null, behavioralIndicators: null, logicalPatterns: null, conflictsWith: null, synergiesWith: null, weight: null, culturalVariance: null, cognitiveLoad: null, createdAt: null }
+] as any[]
+
+const frameworkRows = [
+  { frameworkId: 'CARE_ETHICS', name: 'Ethics of Care', tradition: 'care_ethics', keyPrinciple: 'Attend to relationships', decisionMethod: null, lexicalIndicators: null, computationalSignature: null, historicalFigure: null, modernApplication: null, createdAt: null },
+  { frameworkId: 'UTIL_ACT', name: 'Act Utilitarianism', tradition: 'consequentialism', keyPrinciple: 'Maximise utility', decisionMethod: null, lexicalIndicators: null, computationalSignature: null, historicalFigure: null, modernApplication: null, createdAt: null }
+] as any[]
+
+const responses: ResolvedResponse[] = [
+  { chosenOption: 'b', reasoning: 'She needs me', perceivedDifficulty: 6, choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'medical', difficulty: 7, title: 'Night Shift' },
+  { chosenOption: 'b', reasoning: '', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'family', difficulty: 5, title: 'Care Home' },
+  { chosenOption: 'a', reasoning: 'More lives', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'policy', difficulty: 8, title: 'Budget' }
+]
+
+describe('VALUES.md template data', () => {
+  const profile = combinatorialGenerator.analyzeResponses([
+    { chosenOption: 'b', motif: 'CARE_PARTICULAR', domain: 'medical', difficulty: 7 },
+    { chosenOption: 'b', motif: 'CARE_PARTICULAR', domain: 'family', difficulty: 5 },
+    { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'policy', difficulty: 8 }
+  ])
+
+  it('counts the chosen option motif and ranks it first', () => {
+    const data = buildTemplateData(responses, profile, motifRows, frameworkRows)
+
+    expect(data.topMotifs).toEqual(['CARE_PARTICULAR', 'UTIL_CALC'])
+    expect(data.motifCounts).toEqual({ CARE_PARTICULAR: 2, UTIL_CALC: 1 })
+    expect(data.motifDetails[0].name).toBe('Particular Care')
+    expect(data.responsePatterns[0].dilemmaTitle).toBe('Night Shift')
+  })
+
+  it('selects the framework of the dominant tradition', () => {
+    const framework = selectPrimaryFramework({ CARE_PARTICULAR: 2, UTIL_CALC: 1 }, motifRows, frameworkRows)
+    expect(framework?.frameworkId).toBe('CARE_ETHICS')
+    expect(selectPrimaryFramework({ UNKNOWN: 3 }, motifRows, frameworkRows)).toBeNull()
+  })
+
+  it('renders every template without placeholder motifs', () => {
+    const data = buildTemplateData(responses, profile, motifRows, frameworkRows)
+
+    for (const template of valueTemplates) {
+      const markdown = generateValuesByTemplate(template.id, data)
+      expect(markdown.length).toBeGreaterThan(0)
+      expect(markdown).not.toContain('undefined')
+    }
+  })
+
+  it('keys stored documents on every generation option', () => {
+    const config = combinatorialGenerator.getDefaultConfig()
+
+    expect(hashGenerationConfig({ ...config })).toBe(hashGenerationConfig(Object.fromEntries(Object.entries(config).reverse())))
+    expect(hashGenerationConfig({ ...config, includeDecisionPatterns: !config.includeDecisionPatterns })).not.toBe(hashGenerationConfig(config))
+    expect(hashGenerationConfig({ ...config, targetAudience: 'research' })).not.toBe(hashGenerationConfig({ ...config, targetAudience: 'personal' }))
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { combinatorialGenerator } from '@/lib/combinatorial-values-generator'
+import { generateValuesByTemplate, valueTemplates } from '@/lib/values-templates'
+import { buildTemplateData, type ResolvedResponse } from '@/lib/values-generation'
+import { buildValuesDocument, embedValuesFrontMatter } from '@/lib/values-document'
+import { lintValuesMarkdown, loadStriatedMotifIds, parseValuesMarkdown } from '@/lib/values-markdown-parser'
+
+/**
+ * VALUES.md Parser and Linter Tests
+ *
+ * Every generator format must parse back cleanly; hand-edited documents with
+ * broken sections, motifs, priorities or percentages must be reported.
+ */
+
+const knownMotifIds = loadStriatedMotifIds()
+
+const responses: ResolvedResponse[] = [
+  { chosenOption: 'a', reasoning: 'More people helped', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'medical', difficulty: 7, title: 'Triage' },
+  { chosenOption: 'a', reasoning: 'Net benefit', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'policy', difficulty: 6, title: 'Budget' },
+  { chosenOption: 'b', reasoning: 'She trusts me', choiceAMotif: 'UTIL_CALC', choiceBMotif: 'CARE_PARTICULAR', choiceCMotif: null, choiceDMotif: null, domain: 'family', difficulty: 5, title: 'Care Home' }
+]
+
+const profile = combinatorialGenerator.analyzeResponses([
+  { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'medical', difficulty: 7 },
+  { chosenOption: 'a', motif: 'UTIL_CALC', domain: 'policy', difficulty: 6 },
+  { chosenOption: 'b', motif: 'CARE_PARTICULAR', domain: 'family', difficulty: 5 }
+])
+
+describe('VALUES.md parser and linter', () => {
+  it('recognises every TemplateBlueprint format without missing sections', () => {
+    const data = buildTemplateData(responses, profile, [], [])
+
+    for (const template of valueTemplates) {
+      const markdown = generateValuesByTemplate(template.id, data)
+      const result = lintValuesMarkdown(markdown, { knownMotifIds })
+
+      expect(result.format).toBe(template.id)
+      expect(result.issues.filter(i => i.code === 'missing_section')).toEqual([])
+      expect(result.issues.filter(i => i.code === 'unknown_motif')).toEqual([])
+    }
+  })
+
+  it('recognises the combinatorial formats', () => {
+    for (const templateFormat of ['minimal', 'standard', 'comprehensive'] as const) {
+      const markdown = combinatorialGenerator.generateValuesMarkdown(profile, {
+        ...combinatorialGenerator.getDefaultConfig(),
+        templateFormat
+      })
+
+      expect(parseValuesMarkdown(markdown).format?.id).toBe(`combinatorial-${templateFormat}`)
+    }
+  })
+
+  it('uses the front-matter template and checks its motifs against the ontology', () => {
+    const markdown = embedValuesFrontMatter(
+      generateValuesByTemplate('minimalist', buildTemplateData(responses, profile, [], [])),
+      buildValuesDocument(profile, { responseCount: 3, templateId: 'minimalist' })
+    )
+
+    const result = lintValuesMarkdown(markdown, { knownMotifIds })
+    expect(result.format).toBe('minimalist')
+    expect(result.valid).toBe(true)
+
+    const unknown = lintValuesMarkdown(markdown.replace(/UTIL_CALC/g, 'NUMBERS_FIRST'), { knownMotifIds })
+    expect(unknown.valid).toBe(false)
+    expect(unknown.issues.some(i => i.code === 'unknown_motif' && i.message.includes('NUMBERS_FIRST'))).toBe(true)
+  })
+
+  it('reports missing and empty sections', () => {
+    const markdown = '# My Values\n\n## Core Principle\n\n## AI Guidelines\n- Be kind\n'
+    const result = lintValuesMarkdown(markdown.replace('## AI Guidelines\n- Be kind\n', ''), { knownMotifIds })
+
+    expect(result.issues.some(i => i.code === 'missing_section' && i.message.includes('AI Guidelines'))).toBe(true)
+    expect(result.issues.some(i => i.code === 'empty_section' && i.message.includes('Core Principle'))).toBe(true)
+  })
+
+  it('reports contradictory priorities and percentages that do not add up', () => {
+    const markdown = [
+      '# My Decision Framework',
+      '## Core Decision Logic',
+      'Start here.',
+      '## Implementation Guidelines',
+      '### Decision Weights by Context',
+      '- Utilitarian Calculation: 30% (Priority 1)',
+      '- Particular Care: 60% (Priority 2)',
+      '- Harm Minimization: 40% (Priority 3)'
+    ].join('\n')
+
+    const result = lintValuesMarkdown(markdown, { knownMotifIds })
+    expect(result.format).toBe('decision-tree')
+    expect(result.issues.some(i => i.code === 'contradictory_priority')).toBe(true)
+    expect(result.issues.some(i => i.code === 'percentage_mismatch')).toBe(true)
+  })
+})